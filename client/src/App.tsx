@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { fetchAllCollectionPages, fetchBpm, fetchReleaseDetails } from './api';
-import type { VinylRecord, BpmInfo, Track } from './types';
+import { fetchLibrary, fetchAllWantlistPages, fetchCollectionCoverage, fetchCollectionFields, fetchFolders, fetchBpm, fetchReleaseDetails, saveBpmOverride, deleteBpmOverride, invalidateCache } from './api';
+import type { VinylRecord, BpmInfo, BpmSource, Track, CollectionFolder, CoveragePoint, CacheMetadata, LibraryRecord } from './types';
 import { Heading1 } from './components/Heading1';
 import { Heading2 } from './components/Heading2';
 import { Heading3 } from './components/Heading3';
@@ -9,6 +9,62 @@ import { Caption } from './components/Caption';
 import { Button } from './components/Button';
 import { Card } from './components/Card';
 import { TextInput } from './components/TextInput';
+import { SearchBox } from './components/SearchBox';
+import { Select } from './components/Select';
+import { TrackBpmEditor } from './components/TrackBpmEditor';
+import { SetBuilder, SET_TRACK_DRAG_TYPE } from './components/SetBuilder';
+import { ExportMenu } from './components/ExportMenu';
+import { QueuePanel } from './components/QueuePanel';
+import { FilterPanel } from './components/FilterPanel';
+import { TrackTable } from './components/TrackTable';
+import { RecordDetails } from './components/RecordDetails';
+import type { AuthControls } from './components/AuthGate';
+import {
+  EMPTY_FILTERS,
+  collectFilterOptions,
+  countActiveFilters,
+  filtersFromQuery,
+  filtersToQuery,
+  hasBpmFilters,
+  matchesBpmFilters,
+  matchesRecordFilters,
+  type DashboardFilters,
+  type FilterOptions,
+} from './filters';
+import {
+  DEFAULT_BPM_RANGE,
+  KEY_NOTATION_LABELS,
+  fillsGap,
+  formatKey,
+  isHarmonicMatch,
+  loadKeyNotation,
+  saveKeyNotation,
+  type KeyNotation,
+} from './harmonic';
+
+// Badge text for where a track's BPM came from
+const BPM_SOURCE_LABELS: Record<BpmSource, string> = {
+  manual: 'manual',
+  getsongbpm: 'GetSongBPM',
+  local: 'local file',
+  analysis: 'audio analysis',
+};
+
+// Collection sort choices, as "<field>:<order>" for GET /api/library
+const LIBRARY_SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: 'added:desc', label: 'Recently added' },
+  { value: 'added:asc', label: 'First added' },
+  { value: 'artist:asc', label: 'Artist A–Z' },
+  { value: 'artist:desc', label: 'Artist Z–A' },
+  { value: 'title:asc', label: 'Title A–Z' },
+  { value: 'year:desc', label: 'Newest releases' },
+  { value: 'year:asc', label: 'Oldest releases' },
+  { value: 'bpm:asc', label: 'Slowest first' },
+  { value: 'bpm:desc', label: 'Fastest first' },
+];
+
+// Typing in the filter box only asks the server for the collection once this long after the last keystroke
+const LIBRARY_QUERY_DELAY_MS = 300;
 
 // Client-side logging utility
 function logError(level: 'error' | 'warn', message: string, context: Record<string, any> = {}, error?: Error | unknown) {
@@ -31,22 +87,55 @@ function logError(level: 'error' | 'warn', message: string, context: Record<stri
   }
 }
 
-function App() {
+interface AppProps {
+  auth: AuthControls;
+}
+
+function App({ auth }: AppProps) {
   const [records, setRecords] = useState<VinylRecord[]>([]);
   const [bpmMap, setBpmMap] = useState<Record<number, BpmInfo>>({});
   const [trackBpmMap, setTrackBpmMap] = useState<Record<string, BpmInfo>>({});
   const [tracklists, setTracklists] = useState<Record<number, Track[]>>({});
-  const [filterText, setFilterText] = useState('');
+  const [filters, setFilters] = useState<DashboardFilters>(() => filtersFromQuery(window.location.search));
+  const [showFilters, setShowFilters] = useState(() => countActiveFilters(filtersFromQuery(window.location.search)) > 0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [loadingBpm, setLoadingBpm] = useState<Record<number, boolean>>({});
   const [loadingTracks, setLoadingTracks] = useState<Record<number, boolean>>({});
   const [loadingTrackBpm, setLoadingTrackBpm] = useState<Record<string, boolean>>({});
   const [expandedAlbums, setExpandedAlbums] = useState<Set<number>>(new Set());
+  const [editingTrack, setEditingTrack] = useState<string | null>(null);
+  const [savingTrackBpm, setSavingTrackBpm] = useState<Record<string, boolean>>({});
+  const [keyNotation, setKeyNotation] = useState<KeyNotation>(loadKeyNotation);
+  const [referenceTrack, setReferenceTrack] = useState<{ trackKey: string; title: string } | null>(null);
+  const [bpmRange, setBpmRange] = useState(String(DEFAULT_BPM_RANGE));
+  const [compatibleOnly, setCompatibleOnly] = useState(false);
+  const [showSetBuilder, setShowSetBuilder] = useState(false);
+  const [showQueuePanel, setShowQueuePanel] = useState(false);
+  const [viewMode, setViewMode] = useState<'grid' | 'table'>('grid');
+  const [noteFields, setNoteFields] = useState<Record<number, string>>({});
+  const [folders, setFolders] = useState<CollectionFolder[]>([]);
+  const [folderId, setFolderId] = useState(0);
+  const [source, setSource] = useState<'collection' | 'wantlist'>('collection');
+  const [cacheInfo, setCacheInfo] = useState<CacheMetadata | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [librarySort, setLibrarySort] = useState('added:desc');
+  // Paging state of the collection view; null until its first page has loaded
+  const [libraryPage, setLibraryPage] = useState<{ nextCursor: string | null; total: number; filterOptions: FilterOptions } | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [coverage, setCoverage] = useState<CoveragePoint[] | null>(null);
+  const [gapsOnly, setGapsOnly] = useState(false);
   
   // Use refs to access latest state in useEffect without causing re-renders
   const trackBpmMapRef = useRef(trackBpmMap);
   const loadingTrackBpmRef = useRef(loadingTrackBpm);
+  // Bumped for every first-page request, so a slow response for an older query is dropped
+  const libraryRequest = useRef(0);
+
+  const [sortField, sortOrder] = librarySort.split(':');
+  const libraryQuery = [filtersToQuery(filters), `folder=${folderId}`, `sort=${sortField}`, `order=${sortOrder}`]
+    .filter(Boolean)
+    .join('&');
   
   // Keep refs in sync with state
   useEffect(() => {
@@ -58,14 +147,42 @@ function App() {
   }, [loadingTrackBpm]);
 
   useEffect(() => {
-    loadCollection();
+    loadNoteFields();
+    loadFolders();
   }, []);
 
+  useEffect(() => {
+    if (source === 'wantlist') {
+      loadCollection();
+      loadCoverage();
+    }
+  }, [source]);
+
+  // The collection is filtered, sorted and paged on the server, so a changed query reloads its first page
+  useEffect(() => {
+    if (source !== 'collection') {
+      return;
+    }
+    const timeout = setTimeout(loadCollection, libraryPage ? LIBRARY_QUERY_DELAY_MS : 0);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [source, libraryQuery]);
+
+  // Mirror filters into the URL so the current view can be shared and bookmarked
+  useEffect(() => {
+    const query = filtersToQuery(filters);
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }, [filters]);
+
   const loadTrackBpm = useCallback(async (record: VinylRecord, track: Track) => {
     const trackKey = `${record.id}-${track.title}`;
     try {
       setLoadingTrackBpm((prev) => ({ ...prev, [trackKey]: true }));
-      const bpmData = await fetchBpm(track.title, record.artist);
+      const bpmData = await fetchBpm(track.title, record.artist, {
+        duration: track.duration,
+        releaseId: record.id,
+        position: track.position,
+      });
       setTrackBpmMap((prev) => {
         if (prev[trackKey]) {
           return prev; // Already loaded, don't overwrite
@@ -120,6 +237,72 @@ function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [expandedAlbums, tracklists, loadTrackBpm]);
 
+  // Re-fetch a track's BPM after its override changed, replacing whatever was shown
+  const refreshTrackBpm = async (record: VinylRecord, track: Track, trackKey: string) => {
+    try {
+      const bpmData = await fetchBpm(track.title, record.artist, {
+        duration: track.duration,
+        releaseId: record.id,
+        position: track.position,
+      });
+      setTrackBpmMap((prev) => ({ ...prev, [trackKey]: bpmData }));
+    } catch (err) {
+      // No override and no lookup result left to show
+      setTrackBpmMap((prev) => {
+        const { [trackKey]: _removed, ...rest } = prev;
+        return rest;
+      });
+      const isNoDataFound = err instanceof Error && err.message.includes('No BPM data found');
+      if (!isNoDataFound) {
+        throw err;
+      }
+    }
+  };
+
+  async function saveTrackOverride(
+    record: VinylRecord,
+    track: Track,
+    values: { tempo?: number; key?: string; notes?: string }
+  ) {
+    const trackKey = `${record.id}-${track.title}`;
+    try {
+      setSavingTrackBpm((prev) => ({ ...prev, [trackKey]: true }));
+      await saveBpmOverride(record.id, track.position, values);
+      await refreshTrackBpm(record, track, trackKey);
+      setEditingTrack(null);
+    } catch (err) {
+      logError('error', 'Failed to save BPM override', {
+        operation: 'saveTrackOverride',
+        trackKey,
+        trackPosition: track.position,
+        recordId: record.id,
+      }, err);
+      setError(err instanceof Error ? err.message : 'Failed to save BPM override');
+    } finally {
+      setSavingTrackBpm((prev) => ({ ...prev, [trackKey]: false }));
+    }
+  }
+
+  async function resetTrackOverride(record: VinylRecord, track: Track) {
+    const trackKey = `${record.id}-${track.title}`;
+    try {
+      setSavingTrackBpm((prev) => ({ ...prev, [trackKey]: true }));
+      await deleteBpmOverride(record.id, track.position);
+      await refreshTrackBpm(record, track, trackKey);
+      setEditingTrack(null);
+    } catch (err) {
+      logError('error', 'Failed to remove BPM override', {
+        operation: 'resetTrackOverride',
+        trackKey,
+        trackPosition: track.position,
+        recordId: record.id,
+      }, err);
+      setError(err instanceof Error ? err.message : 'Failed to remove BPM override');
+    } finally {
+      setSavingTrackBpm((prev) => ({ ...prev, [trackKey]: false }));
+    }
+  }
+
   const loadTracklist = useCallback(async (record: VinylRecord) => {
     try {
       setLoadingTracks((prev) => ({ ...prev, [record.id]: true }));
@@ -150,23 +333,151 @@ function App() {
   }, []);
 
 
+  // Stored BPM data and tracklists come with each collection page, so they don't have to be loaded one by one
+  function showLibraryRecords(entries: LibraryRecord[]) {
+    const bpms: Record<number, BpmInfo> = {};
+    const tracks: Record<number, Track[]> = {};
+    const trackBpms: Record<string, BpmInfo> = {};
+    for (const { record, bpm, tracks: libraryTracks } of entries) {
+      if (bpm) {
+        bpms[record.id] = bpm;
+      }
+      if (libraryTracks) {
+        tracks[record.id] = libraryTracks.map(({ bpm: _bpm, ...track }) => track);
+        for (const track of libraryTracks) {
+          if (track.bpm) {
+            trackBpms[`${record.id}-${track.title}`] = track.bpm;
+          }
+        }
+      }
+    }
+    setBpmMap((prev) => ({ ...prev, ...bpms }));
+    setTracklists((prev) => ({ ...prev, ...tracks }));
+    setTrackBpmMap((prev) => ({ ...prev, ...trackBpms }));
+  }
+
+  // The collection is loaded a page at a time, the wantlist all at once
   async function loadCollection() {
     try {
-      setLoading(true);
       setError(null);
-      const data = await fetchAllCollectionPages();
-      setRecords(data.records);
+      if (source === 'wantlist') {
+        setLoading(true);
+        // Drop any collection page still on its way
+        libraryRequest.current++;
+        setLibraryPage(null);
+        const data = await fetchAllWantlistPages();
+        setRecords(data.records);
+        setCacheInfo(data.cache ?? null);
+      } else {
+        const request = ++libraryRequest.current;
+        // Only the first page replaces the whole dashboard with a loading screen, so typing in the filter box keeps focus
+        if (!libraryPage) {
+          setLoading(true);
+        }
+        const page = await fetchLibrary(libraryQuery);
+        if (request !== libraryRequest.current) {
+          return; // A newer query's page is on its way
+        }
+        showLibraryRecords(page.records);
+        setRecords(page.records.map((entry) => entry.record));
+        setLibraryPage({ nextCursor: page.nextCursor, total: page.total, filterOptions: page.filterOptions });
+        setCacheInfo(page.cache);
+      }
     } catch (err) {
       logError('error', 'Failed to load collection', {
         operation: 'loadCollection',
+        source,
+        folderId,
         recordCount: records.length,
       }, err);
-      setError(err instanceof Error ? err.message : 'Failed to load collection');
+      setError(err instanceof Error ? err.message : `Failed to load ${source}`);
     } finally {
       setLoading(false);
     }
   }
 
+  async function loadMoreRecords() {
+    if (!libraryPage?.nextCursor) {
+      return;
+    }
+    const request = libraryRequest.current;
+    try {
+      setLoadingMore(true);
+      const page = await fetchLibrary(libraryQuery, libraryPage.nextCursor);
+      if (request !== libraryRequest.current) {
+        return; // The query changed meanwhile
+      }
+      showLibraryRecords(page.records);
+      setRecords((prev) => [...prev, ...page.records.map((entry) => entry.record)]);
+      setLibraryPage({ nextCursor: page.nextCursor, total: page.total, filterOptions: page.filterOptions });
+    } catch (err) {
+      logError('error', 'Failed to load more records', {
+        operation: 'loadMoreRecords',
+        recordCount: records.length,
+      }, err);
+      setError(err instanceof Error ? err.message : 'Failed to load more records');
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  // Drop the cached pages so records added on Discogs show up before the cache would expire
+  async function refreshCollection() {
+    try {
+      setRefreshing(true);
+      setError(null);
+      await invalidateCache(source === 'wantlist' ? ['wantlist:*'] : ['collection:*', 'collection-folders:*']);
+      if (source === 'collection') {
+        loadFolders();
+      }
+      await loadCollection();
+    } catch (err) {
+      logError('error', 'Failed to refresh collection', {
+        operation: 'refreshCollection',
+        source,
+      }, err);
+      setError(err instanceof Error ? err.message : `Failed to refresh ${source}`);
+    } finally {
+      setRefreshing(false);
+    }
+  }
+
+  // Tempos/keys the collection already has; wanted tracks outside them fill a gap
+  async function loadCoverage() {
+    try {
+      const data = await fetchCollectionCoverage();
+      setCoverage(data.points);
+    } catch (err) {
+      logError('warn', 'Failed to load collection coverage', {
+        operation: 'loadCoverage',
+      }, err);
+      setCoverage(null);
+    }
+  }
+
+  // Notes field names only label record notes, so failing to load them isn't shown as an error
+  async function loadNoteFields() {
+    try {
+      const fields = await fetchCollectionFields();
+      setNoteFields(Object.fromEntries(fields.map((field) => [field.id, field.name])));
+    } catch (err) {
+      logError('warn', 'Failed to load collection notes fields', {
+        operation: 'loadNoteFields',
+      }, err);
+    }
+  }
+
+  // Without folders the dashboard still shows the whole collection, so this isn't shown as an error either
+  async function loadFolders() {
+    try {
+      setFolders(await fetchFolders());
+    } catch (err) {
+      logError('warn', 'Failed to load collection folders', {
+        operation: 'loadFolders',
+      }, err);
+    }
+  }
+
   async function loadBpm(record: VinylRecord) {
     if (bpmMap[record.id]) {
       return; // Already loaded
@@ -212,15 +523,57 @@ function App() {
     });
   };
 
-  const filteredRecords = records.filter((record) => {
-    const searchText = filterText.toLowerCase();
-    return (
-      record.title.toLowerCase().includes(searchText) ||
-      record.artist.toLowerCase().includes(searchText) ||
-      record.label.toLowerCase().includes(searchText) ||
-      (record.year && record.year.toString().includes(searchText))
-    );
-  });
+  const changeKeyNotation = (notation: KeyNotation) => {
+    setKeyNotation(notation);
+    saveKeyNotation(notation);
+  };
+
+  const clearReferenceTrack = () => {
+    setReferenceTrack(null);
+    setCompatibleOnly(false);
+  };
+
+  // Harmonic matching against the selected reference track
+  const referenceBpm = referenceTrack ? trackBpmMap[referenceTrack.trackKey] : undefined;
+  const parsedBpmRange = Number(bpmRange);
+  const bpmRangeValue = bpmRange.trim() && isFinite(parsedBpmRange) && parsedBpmRange >= 0
+    ? parsedBpmRange
+    : DEFAULT_BPM_RANGE;
+
+  const isCompatible = (bpm: BpmInfo | undefined) =>
+    !!referenceBpm && !!bpm && isHarmonicMatch(referenceBpm, bpm, bpmRangeValue);
+
+  // Only tracks whose BPM/key has been loaded can be compared
+  const hasCompatibleTrack = (record: VinylRecord) =>
+    isCompatible(bpmMap[record.id]) ||
+    (tracklists[record.id] || []).some((track) => {
+      const trackKey = `${record.id}-${track.title}`;
+      return trackKey !== referenceTrack?.trackKey && isCompatible(trackBpmMap[trackKey]);
+    });
+
+  // Gaps are only meaningful on the wantlist, and only for tracks whose BPM/key has been loaded
+  const isGapFiller = (bpm: BpmInfo | undefined) =>
+    source === 'wantlist' && !!coverage && !!bpm && fillsGap(bpm, coverage, bpmRangeValue);
+
+  const hasGapFillingTrack = (record: VinylRecord) =>
+    isGapFiller(bpmMap[record.id]) ||
+    (tracklists[record.id] || []).some((track) => isGapFiller(trackBpmMap[`${record.id}-${track.title}`]));
+
+  // A record passes the BPM/key filters if the record itself or any loaded track does
+  const matchesBpm = (record: VinylRecord) =>
+    [bpmMap[record.id], ...(tracklists[record.id] || []).map((track) => trackBpmMap[`${record.id}-${track.title}`])]
+      .some((bpm) => bpm && matchesBpmFilters(bpm, filters));
+
+  const bpmFiltersActive = hasBpmFilters(filters);
+  const activeFilterCount = countActiveFilters(filters);
+  const filterOptions = source === 'collection' && libraryPage ? libraryPage.filterOptions : collectFilterOptions(records);
+
+  // The server already applied the text, panel and folder filters to the collection
+  const filteredRecords = records.filter((record) =>
+    (source === 'collection' || (matchesRecordFilters(record, filters) && (!bpmFiltersActive || matchesBpm(record)))) &&
+    (!compatibleOnly || !referenceBpm || hasCompatibleTrack(record)) &&
+    (!gapsOnly || source !== 'wantlist' || hasGapFillingTrack(record))
+  );
 
   if (loading) {
     return (
@@ -235,13 +588,175 @@ function App() {
   return (
     <div className="max-w-screen-xl mx-auto px-xl py-2xl">
       <header className="mb-2xl">
-        <Heading1 className="mb-sm">Vinyl Dashboard</Heading1>
-        <TextInput
-          placeholder="Filter by artist, title, label, or year..."
-          value={filterText}
-          onChange={(e) => setFilterText(e.target.value)}
+        <div className="mb-sm flex flex-wrap items-center justify-between gap-md">
+          <Heading1>Vinyl Dashboard</Heading1>
+          <div className="flex flex-wrap items-center gap-sm">
+            <Caption className="text-textSecondary">
+              Signed in as {auth.account.username}
+              {auth.account.discogsUsername && ` · Discogs: ${auth.account.discogsUsername}`}
+            </Caption>
+            {auth.account.isAdmin && (
+              <Button variant="tertiary" onClick={() => setShowQueuePanel((prev) => !prev)}>
+                {showQueuePanel ? 'Hide queue status' : 'Queue status'}
+              </Button>
+            )}
+            <Button variant="tertiary" onClick={auth.editDiscogs}>
+              Discogs account
+            </Button>
+            <Button variant="secondary" onClick={auth.signOut}>
+              Sign out
+            </Button>
+          </div>
+        </div>
+        {showQueuePanel && auth.account.isAdmin && <QueuePanel />}
+        <SearchBox
+          placeholder="Search artists, titles, tracks, labels or catalog numbers..."
+          value={filters.text}
+          scope={source}
+          onChange={(text) => setFilters((prev) => ({ ...prev, text }))}
           className="max-w-sm"
         />
+        <div className="mt-md flex flex-wrap items-center gap-sm">
+          <div className="flex gap-sm" role="tablist">
+            <Button
+              variant={source === 'collection' ? 'primary' : 'secondary'}
+              role="tab"
+              aria-selected={source === 'collection'}
+              onClick={() => setSource('collection')}
+            >
+              Collection
+            </Button>
+            <Button
+              variant={source === 'wantlist' ? 'primary' : 'secondary'}
+              role="tab"
+              aria-selected={source === 'wantlist'}
+              onClick={() => setSource('wantlist')}
+            >
+              Wantlist
+            </Button>
+          </div>
+          <Button variant="tertiary" onClick={refreshCollection} disabled={refreshing}>
+            {refreshing ? 'Refreshing...' : source === 'wantlist' ? 'Refresh wantlist' : 'Refresh collection'}
+          </Button>
+          {cacheInfo && (
+            <Caption>
+              Updated {new Date(cacheInfo.fetchedAt).toLocaleString()}
+              {cacheInfo.stale && ' · refreshing in the background'}
+            </Caption>
+          )}
+        </div>
+        <div className="mt-md flex flex-wrap items-end gap-md">
+          {source === 'collection' && folders.length > 0 && (
+            <div className="w-full max-w-xs">
+              <Select
+                label="Folder"
+                value={folderId}
+                onChange={(e) => setFolderId(Number(e.target.value))}
+              >
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>
+                    {folder.name} ({folder.count})
+                  </option>
+                ))}
+              </Select>
+            </div>
+          )}
+          {source === 'collection' && (
+            <div className="w-full max-w-xs">
+              <Select label="Sort by" value={librarySort} onChange={(e) => setLibrarySort(e.target.value)}>
+                {LIBRARY_SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+          )}
+          <div className="w-full max-w-xs">
+            <Select
+              label="Key notation"
+              value={keyNotation}
+              onChange={(e) => changeKeyNotation(e.target.value as KeyNotation)}
+            >
+              {(Object.keys(KEY_NOTATION_LABELS) as KeyNotation[]).map((notation) => (
+                <option key={notation} value={notation}>
+                  {KEY_NOTATION_LABELS[notation]}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <Button
+            variant="secondary"
+            onClick={() => setViewMode((prev) => (prev === 'grid' ? 'table' : 'grid'))}
+          >
+            {viewMode === 'grid' ? 'Track Table' : 'Card Grid'}
+          </Button>
+          <Button variant="secondary" onClick={() => setShowFilters((prev) => !prev)}>
+            {showFilters ? 'Hide Filters' : 'Filters'}
+            {activeFilterCount > 0 && ` (${activeFilterCount})`}
+          </Button>
+          <Button variant="secondary" onClick={() => setShowSetBuilder((prev) => !prev)}>
+            {showSetBuilder ? 'Hide Set Builder' : 'Build a Set'}
+          </Button>
+          {source === 'wantlist' && (
+            <label className="flex items-center gap-xs cursor-pointer min-h-11">
+              <input type="checkbox" checked={gapsOnly} onChange={(e) => setGapsOnly(e.target.checked)} />
+              <Caption className="text-textPrimary">Fills a gap only</Caption>
+            </label>
+          )}
+          {source === 'collection' && (
+            <ExportMenu
+              scope={{ query: libraryQuery }}
+              label={filters.text.trim() || activeFilterCount > 0 || folderId !== 0 ? 'Export filtered records' : 'Export collection'}
+              className="w-full max-w-sm"
+            />
+          )}
+        </div>
+        {showFilters && (
+          <FilterPanel
+            filters={filters}
+            options={filterOptions}
+            keyNotation={keyNotation}
+            onChange={setFilters}
+            onClear={() => setFilters((prev) => ({ ...EMPTY_FILTERS, text: prev.text }))}
+          />
+        )}
+        {referenceTrack && referenceBpm && (
+          <div className="mt-md p-md rounded-md bg-primarySoft flex flex-wrap items-end gap-md">
+            <div className="flex-1 min-w-0">
+              <Caption className="font-semibold text-textSecondary">Mixing from:</Caption>{' '}
+              <Caption className="text-textPrimary">
+                {referenceTrack.title}
+                {referenceBpm.tempo !== undefined && ` – ${referenceBpm.tempo} BPM`}
+                {referenceBpm.key && `, ${formatKey(referenceBpm, keyNotation)}`}
+              </Caption>
+              {!referenceBpm.parsedKey && (
+                <Caption className="block text-warning">
+                  This track's key couldn't be read, so nothing can be matched against it
+                </Caption>
+              )}
+            </div>
+            <div className="w-32">
+              <TextInput
+                label="BPM range ±"
+                inputMode="decimal"
+                value={bpmRange}
+                onChange={(e) => setBpmRange(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-xs min-h-11 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={compatibleOnly}
+                onChange={(e) => setCompatibleOnly(e.target.checked)}
+              />
+              <Caption className="text-textPrimary">Compatible only</Caption>
+            </label>
+            <Button variant="tertiary" onClick={clearReferenceTrack}>
+              Clear
+            </Button>
+          </div>
+        )}
       </header>
 
       {error && (
@@ -250,162 +765,306 @@ function App() {
         </div>
       )}
 
-      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-lg">
-        {filteredRecords.map((record) => {
-          const bpmInfo = bpmMap[record.id];
-          const isLoadingBpm = loadingBpm[record.id];
-          const tracks = tracklists[record.id] || [];
-          const isLoadingTracks = loadingTracks[record.id];
-
-          return (
-            <Card key={record.id} className="overflow-hidden p-0">
-              {record.coverImage ? (
-                <img
-                  src={record.coverImage}
-                  alt={`${record.artist} - ${record.title}`}
-                  className="w-full h-64 object-cover bg-surfaceSubtle"
-                />
-              ) : (
-                <div className="w-full h-64 bg-surfaceSubtle" />
-              )}
-              <div className="p-md">
-                <Heading3 className="mb-xs text-textPrimary">{record.title}</Heading3>
-                <BodyText className="mb-xs text-textSecondary">{record.artist}</BodyText>
-                <Caption className="mb-md text-textMuted">
-                  {record.label} {record.year && `• ${record.year}`}
-                </Caption>
-                <Button
-                  variant="primary"
-                  onClick={() => loadBpm(record)}
-                  disabled={isLoadingBpm || !!bpmInfo}
-                  className="w-full mb-md"
+      <div className="flex flex-col-reverse lg:flex-row lg:items-start gap-lg">
+        {viewMode === 'table' ? (
+          <div className="flex-1 min-w-0">
+            <TrackTable
+              records={filteredRecords}
+              tracklists={tracklists}
+              bpmMap={bpmMap}
+              trackBpmMap={trackBpmMap}
+              loadingTracks={loadingTracks}
+              loadingTrackBpm={loadingTrackBpm}
+              keyNotation={keyNotation}
+              draggableTracks={showSetBuilder}
+              onLoadTracks={loadTracklist}
+              onLoadTrackBpm={loadTrackBpm}
+            />
+          </div>
+        ) : (
+          <div className={`flex-1 min-w-0 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-lg ${showSetBuilder ? '' : 'lg:grid-cols-4'}`}>
+            {filteredRecords.map((record) => {
+              const bpmInfo = bpmMap[record.id];
+              const isLoadingBpm = loadingBpm[record.id];
+              const tracks = tracklists[record.id] || [];
+              const isLoadingTracks = loadingTracks[record.id];
+
+              return (
+                <Card
+                  key={record.id}
+                  className={`overflow-hidden p-0 ${referenceBpm && hasCompatibleTrack(record) ? 'ring-2 ring-success' : ''}`}
                 >
-                  {isLoadingBpm
-                    ? 'Loading...'
-                    : bpmInfo
-                    ? 'BPM Loaded'
-                    : 'Load BPM / Key'}
-                </Button>
-                {bpmInfo && (
-                  <div className="mt-lg pt-lg border-t border-borderSubtle">
-                    <div className="mb-xs">
-                      <Caption className="font-semibold text-textSecondary">BPM:</Caption>{' '}
-                      <Caption className="text-textPrimary">{bpmInfo.tempo}</Caption>
-                    </div>
-                    {bpmInfo.key && (
-                      <div className="mb-xs">
-                        <Caption className="font-semibold text-textSecondary">Key:</Caption>{' '}
-                        <Caption className="text-textPrimary">{bpmInfo.key}</Caption>
+                  {record.coverImage ? (
+                    <img
+                      src={record.coverImage}
+                      alt={`${record.artist} - ${record.title}`}
+                      className="w-full h-64 object-cover bg-surfaceSubtle"
+                    />
+                  ) : (
+                    <div className="w-full h-64 bg-surfaceSubtle" />
+                  )}
+                  <div className="p-md">
+                    <Heading3 className="mb-xs text-textPrimary">{record.title}</Heading3>
+                    <BodyText className="mb-xs text-textSecondary">{record.artist}</BodyText>
+                    <Caption className="text-textMuted">
+                      {record.label} {record.year && `• ${record.year}`}
+                    </Caption>
+                    <RecordDetails record={record} noteFields={noteFields} className="mt-xs mb-md" />
+                    <Button
+                      variant="primary"
+                      onClick={() => loadBpm(record)}
+                      disabled={isLoadingBpm || !!bpmInfo}
+                      className="w-full mb-md"
+                    >
+                      {isLoadingBpm
+                        ? 'Loading...'
+                        : bpmInfo
+                        ? 'BPM Loaded'
+                        : 'Load BPM / Key'}
+                    </Button>
+                    {bpmInfo && (
+                      <div className="mt-lg pt-lg border-t border-borderSubtle">
+                        {bpmInfo.tempo !== undefined && (
+                          <div className="mb-xs">
+                            <Caption className="font-semibold text-textSecondary">BPM:</Caption>{' '}
+                            <Caption className="text-textPrimary">{bpmInfo.tempo}</Caption>
+                          </div>
+                        )}
+                        {bpmInfo.confidence !== undefined && (
+                          <div className="mb-xs">
+                            <Caption className="font-semibold text-textSecondary">Match:</Caption>{' '}
+                            <Caption className={bpmInfo.lowConfidence ? 'text-warning font-semibold' : 'text-textPrimary'}>
+                              {Math.round(bpmInfo.confidence * 100)}%{bpmInfo.lowConfidence && ' (low confidence)'}
+                            </Caption>
+                          </div>
+                        )}
+                        {bpmInfo.key && (
+                          <div className="mb-xs">
+                            <Caption className="font-semibold text-textSecondary">Key:</Caption>{' '}
+                            <Caption className="text-textPrimary">{formatKey(bpmInfo, keyNotation)}</Caption>
+                            {isCompatible(bpmInfo) && (
+                              <Caption className="text-success font-semibold ml-xs">compatible</Caption>
+                            )}
+                          </div>
+                        )}
+                        {bpmInfo.danceability !== undefined && (
+                          <div className="mb-xs">
+                            <Caption className="font-semibold text-textSecondary">Danceability:</Caption>{' '}
+                            <Caption className="text-textPrimary">{bpmInfo.danceability}</Caption>
+                          </div>
+                        )}
+                        {bpmInfo.acousticness !== undefined && (
+                          <div className="mb-xs">
+                            <Caption className="font-semibold text-textSecondary">Acousticness:</Caption>{' '}
+                            <Caption className="text-textPrimary">{bpmInfo.acousticness}</Caption>
+                          </div>
+                        )}
+                        {bpmInfo.lowConfidence && bpmInfo.candidates && bpmInfo.candidates.length > 0 && (
+                          <div className="mt-sm">
+                            <Caption className="font-semibold text-textSecondary">Other candidates:</Caption>
+                            <ul className="list-none p-0 m-0">
+                              {bpmInfo.candidates.map((candidate) => (
+                                <li key={candidate.id}>
+                                  <Caption className="text-textMuted">
+                                    {candidate.artist} – {candidate.title}: {candidate.tempo} BPM ({Math.round(candidate.confidence * 100)}%)
+                                  </Caption>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
                     )}
-                    {bpmInfo.danceability !== undefined && (
-                      <div className="mb-xs">
-                        <Caption className="font-semibold text-textSecondary">Danceability:</Caption>{' '}
-                        <Caption className="text-textPrimary">{bpmInfo.danceability}</Caption>
+                    <Button
+                      variant="secondary"
+                      onClick={() => toggleAlbum(record.id)}
+                      disabled={isLoadingTracks}
+                      className="w-full mt-md flex items-center justify-center gap-sm"
+                    >
+                      <span className="flex-1 text-center">
+                        {expandedAlbums.has(record.id) ? 'Hide Tracks' : 'Show Tracks'}
+                      </span>
+                      <span
+                        className={`text-caption transition-transform duration-medium ${
+                          expandedAlbums.has(record.id) ? 'rotate-180' : ''
+                        }`}
+                      >
+                        ▼
+                      </span>
+                    </Button>
+                    {isLoadingTracks && (
+                      <div className="mt-md text-center">
+                        <Caption className="text-textMuted italic">Loading tracks...</Caption>
                       </div>
                     )}
-                    {bpmInfo.acousticness !== undefined && (
-                      <div className="mb-xs">
-                        <Caption className="font-semibold text-textSecondary">Acousticness:</Caption>{' '}
-                        <Caption className="text-textPrimary">{bpmInfo.acousticness}</Caption>
+                    {expandedAlbums.has(record.id) && !isLoadingTracks && tracks.length === 0 && (
+                      <div className="mt-md text-center">
+                        <Caption className="text-textMuted italic">No tracks available for this release</Caption>
                       </div>
                     )}
-                  </div>
-                )}
-                <Button
-                  variant="secondary"
-                  onClick={() => toggleAlbum(record.id)}
-                  disabled={isLoadingTracks}
-                  className="w-full mt-md flex items-center justify-center gap-sm"
-                >
-                  <span className="flex-1 text-center">
-                    {expandedAlbums.has(record.id) ? 'Hide Tracks' : 'Show Tracks'}
-                  </span>
-                  <span
-                    className={`text-caption transition-transform duration-medium ${
-                      expandedAlbums.has(record.id) ? 'rotate-180' : ''
-                    }`}
-                  >
-                    ▼
-                  </span>
-                </Button>
-                {isLoadingTracks && (
-                  <div className="mt-md text-center">
-                    <Caption className="text-textMuted italic">Loading tracks...</Caption>
-                  </div>
-                )}
-                {expandedAlbums.has(record.id) && !isLoadingTracks && tracks.length === 0 && (
-                  <div className="mt-md text-center">
-                    <Caption className="text-textMuted italic">No tracks available for this release</Caption>
-                  </div>
-                )}
-                {expandedAlbums.has(record.id) && tracks.length > 0 && (
-                  <div className="mt-md pt-md border-t border-borderSubtle animate-slide-down">
-                    <Heading3 className="mb-sm text-textSecondary text-heading3">Tracks</Heading3>
-                    <ul className="list-none p-0 m-0">
-                      {tracks.map((track) => {
-                        const trackKey = `${record.id}-${track.title}`;
-                        const trackBpm = trackBpmMap[trackKey];
-                        const isLoadingTrackBpm = loadingTrackBpm[trackKey];
-                        return (
-                          <li key={trackKey} className="py-sm border-b border-borderSubtle last:border-b-0">
-                            <div className="flex items-center gap-sm flex-wrap">
-                              <Caption className="font-semibold text-textMuted min-w-xl">
-                                {track.position}
-                              </Caption>
-                              <BodyText className="flex-1 text-textPrimary text-body">
-                                {track.title}
-                                {isLoadingTrackBpm && (
-                                  <Caption className="text-textMuted italic text-caption ml-sm">
-                                    (Loading tempo...)
-                                  </Caption>
+                    {expandedAlbums.has(record.id) && tracks.length > 0 && (
+                      <div className="mt-md pt-md border-t border-borderSubtle animate-slide-down">
+                        <Heading3 className="mb-sm text-textSecondary text-heading3">Tracks</Heading3>
+                        <ul className="list-none p-0 m-0">
+                          {tracks.map((track) => {
+                            const trackKey = `${record.id}-${track.title}`;
+                            const trackBpm = trackBpmMap[trackKey];
+                            const isLoadingTrackBpm = loadingTrackBpm[trackKey];
+                            const isReference = referenceTrack?.trackKey === trackKey;
+                            const isCompatibleTrack = !isReference && isCompatible(trackBpm);
+                            return (
+                              <li
+                                key={trackKey}
+                                className={`py-sm border-b border-borderSubtle last:border-b-0 ${showSetBuilder && track.position ? 'cursor-grab' : ''}`}
+                                draggable={showSetBuilder && !!track.position}
+                                onDragStart={(e) => e.dataTransfer.setData(
+                                  SET_TRACK_DRAG_TYPE,
+                                  JSON.stringify({ releaseId: record.id, position: track.position })
                                 )}
-                                {trackBpm && !isLoadingTrackBpm && (
-                                  <>
-                                    <Caption className="text-primary ml-sm">
-                                      {' - '}
-                                      <span className="font-semibold">{trackBpm.tempo} BPM</span>
-                                    </Caption>
-                                    {trackBpm.key && (
-                                      <Caption className="text-primary ml-xs">
-                                        {', Key: '}
-                                        <span className="font-semibold">{trackBpm.key}</span>
+                              >
+                                <div className="flex items-center gap-sm flex-wrap">
+                                  <Caption className="font-semibold text-textMuted min-w-xl">
+                                    {track.position}
+                                  </Caption>
+                                  <BodyText className="flex-1 text-textPrimary text-body">
+                                    {track.title}
+                                    {isLoadingTrackBpm && (
+                                      <Caption className="text-textMuted italic text-caption ml-sm">
+                                        (Loading tempo...)
                                       </Caption>
                                     )}
-                                  </>
-                                )}
-                              </BodyText>
-                              <div className="flex items-center gap-xs">
-                                {track.duration && (
-                                  <Caption className="text-textMuted">{track.duration}</Caption>
+                                    {trackBpm && !isLoadingTrackBpm && (
+                                      <>
+                                        {trackBpm.tempo !== undefined && (
+                                          <Caption className="text-primary ml-sm">
+                                            {' - '}
+                                            <span className="font-semibold">{trackBpm.tempo} BPM</span>
+                                          </Caption>
+                                        )}
+                                        {trackBpm.lowConfidence && (
+                                          <span
+                                            className="ml-xs"
+                                            title={`Low-confidence match: "${trackBpm.title}" (${Math.round((trackBpm.confidence ?? 0) * 100)}%)`}
+                                          >
+                                            <Caption className="text-warning font-semibold">?</Caption>
+                                          </span>
+                                        )}
+                                        {trackBpm.key && (
+                                          <Caption className="text-primary ml-xs">
+                                            {', Key: '}
+                                            <span className="font-semibold">{formatKey(trackBpm, keyNotation)}</span>
+                                          </Caption>
+                                        )}
+                                        {/* Where the tempo came from; a key-only override has none */}
+                                        {trackBpm.tempo !== undefined && (
+                                          <span className="ml-sm" title={trackBpm.notes}>
+                                            <Caption
+                                              className={`px-xs rounded-sm ${
+                                                trackBpm.source === 'manual'
+                                                  ? 'bg-primarySoft text-primary'
+                                                  : 'bg-surfaceSubtle text-textMuted'
+                                              }`}
+                                            >
+                                              {trackBpm.source ? BPM_SOURCE_LABELS[trackBpm.source] : 'looked up'}
+                                            </Caption>
+                                          </span>
+                                        )}
+                                        {isCompatibleTrack && (
+                                          <span className="ml-xs" title="Mixes harmonically with the selected track">
+                                            <Caption className="text-success font-semibold">✓ compatible</Caption>
+                                          </span>
+                                        )}
+                                        {isGapFiller(trackBpm) && (
+                                          <span className="ml-xs" title="No track in your collection has this key at a nearby tempo">
+                                            <Caption className="text-warning font-semibold">fills a gap</Caption>
+                                          </span>
+                                        )}
+                                      </>
+                                    )}
+                                  </BodyText>
+                                  <div className="flex items-center gap-xs">
+                                    {track.duration && (
+                                      <Caption className="text-textMuted">{track.duration}</Caption>
+                                    )}
+                                    <Button
+                                      variant="tertiary"
+                                      onClick={() => loadTrackBpm(record, track)}
+                                      disabled={isLoadingTrackBpm || !!trackBpm}
+                                      className="min-h-0 h-7 px-xs text-caption whitespace-nowrap"
+                                      title={trackBpm ? 'BPM loaded' : isLoadingTrackBpm ? 'Loading BPM...' : 'Load BPM for this track'}
+                                    >
+                                      {isLoadingTrackBpm
+                                        ? 'Loading...'
+                                        : trackBpm
+                                        ? 'BPM'
+                                        : 'Load BPM'}
+                                    </Button>
+                                    {trackBpm?.parsedKey && (
+                                      <Button
+                                        variant="tertiary"
+                                        onClick={() => isReference
+                                          ? clearReferenceTrack()
+                                          : setReferenceTrack({ trackKey, title: track.title })}
+                                        className={`min-h-0 h-7 px-xs text-caption whitespace-nowrap ${isReference ? 'bg-primarySoft' : ''}`}
+                                        title={isReference ? 'Stop matching against this track' : 'Highlight tracks that mix harmonically with this one'}
+                                      >
+                                        {isReference ? 'Matching' : 'Match'}
+                                      </Button>
+                                    )}
+                                    {track.position && (
+                                      <Button
+                                        variant="tertiary"
+                                        onClick={() => setEditingTrack(editingTrack === trackKey ? null : trackKey)}
+                                        disabled={isLoadingTrackBpm || savingTrackBpm[trackKey]}
+                                        className="min-h-0 h-7 px-xs text-caption whitespace-nowrap"
+                                        title="Correct BPM / key for this track"
+                                      >
+                                        Edit
+                                      </Button>
+                                    )}
+                                  </div>
+                                </div>
+                                {editingTrack === trackKey && (
+                                  <TrackBpmEditor
+                                    bpm={trackBpm}
+                                    saving={savingTrackBpm[trackKey]}
+                                    onSave={(values) => saveTrackOverride(record, track, values)}
+                                    onReset={() => resetTrackOverride(record, track)}
+                                    onCancel={() => setEditingTrack(null)}
+                                  />
                                 )}
-                                <Button
-                                  variant="tertiary"
-                                  onClick={() => loadTrackBpm(record, track)}
-                                  disabled={isLoadingTrackBpm || !!trackBpm}
-                                  className="min-h-0 h-7 px-xs text-caption whitespace-nowrap"
-                                  title={trackBpm ? 'BPM loaded' : isLoadingTrackBpm ? 'Loading BPM...' : 'Load BPM for this track'}
-                                >
-                                  {isLoadingTrackBpm
-                                    ? 'Loading...'
-                                    : trackBpm
-                                    ? 'BPM'
-                                    : 'Load BPM'}
-                                </Button>
-                              </div>
-                            </div>
-                          </li>
-                        );
-                      })}
-                    </ul>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
-            </Card>
-          );
-        })}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+        {showSetBuilder && (
+          <aside className="w-full lg:w-96 lg:sticky lg:top-md">
+            <SetBuilder keyNotation={keyNotation} />
+          </aside>
+        )}
       </div>
 
+      {source === 'collection' && libraryPage && records.length > 0 && (
+        <div className="mt-lg flex flex-col items-center gap-sm">
+          <Caption>
+            Showing {records.length} of {libraryPage.total} records
+          </Caption>
+          {libraryPage.nextCursor && (
+            <Button variant="secondary" onClick={loadMoreRecords} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </Button>
+          )}
+        </div>
+      )}
+
       {filteredRecords.length === 0 && !loading && (
         <div className="text-center py-2xl">
           <BodyText className="text-textSecondary">No records found</BodyText>
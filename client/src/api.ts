@@ -1,4 +1,25 @@
-import type { CollectionResponse, BpmInfo, ReleaseDetailsResponse, VinylRecord } from './types';
+import type {
+  Account,
+  CacheMetadata,
+  CollectionCoverage,
+  CollectionField,
+  CollectionFolder,
+  CollectionResponse,
+  BpmInfo,
+  BpmOverride,
+  DjSet,
+  DjSetSummary,
+  ExportFormat,
+  LibraryResponse,
+  QueueStatusResponse,
+  ReleaseDetailsResponse,
+  SearchResponse,
+  SearchScope,
+  SessionResponse,
+  SetTrackRef,
+  TrackSuggestion,
+  VinylRecord,
+} from './types';
 
 // In-flight request tracking for deduplication
 const inFlightRequests = new Map<string, Promise<any>>();
@@ -24,6 +45,25 @@ function logError(level: 'error' | 'warn', message: string, context: Record<stri
   }
 }
 
+// Called when the server rejects the session, so the app can return to the sign-in screen
+let unauthorizedHandler: (() => void) | null = null;
+
+export function onUnauthorized(handler: (() => void) | null): void {
+  unauthorizedHandler = handler;
+}
+
+/**
+ * fetch() with the session cookie attached; reports expired sessions to the unauthorized handler
+ */
+async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, { ...init, credentials: 'include' });
+  // Only the session check sends WWW-Authenticate; a 401 from Discogs means a bad Discogs token instead
+  if (response.status === 401 && response.headers.has('WWW-Authenticate')) {
+    unauthorizedHandler?.();
+  }
+  return response;
+}
+
 /**
  * Get or create a request, preventing duplicates
  */
@@ -49,30 +89,117 @@ function getOrCreateRequest<T>(key: string, requestFn: () => Promise<T>): Promis
   return promise;
 }
 
-export async function fetchCollection(page = 1, perPage = 50): Promise<CollectionResponse> {
+/**
+ * Cache metadata for several pages served together: as old as the oldest page, stale if any page is
+ */
+function combineCacheMetadata(pages: CollectionResponse[]): CacheMetadata | undefined {
+  const withMetadata = pages.map((page) => page.cache).filter((cache): cache is CacheMetadata => !!cache);
+  if (withMetadata.length === 0) {
+    return undefined;
+  }
+  const oldest = withMetadata.reduce((a, b) => (b.fetchedAt < a.fetchedAt ? b : a));
+  return { ...oldest, stale: withMetadata.some((cache) => cache.stale) };
+}
+
+/**
+ * Fetch every page of a paginated record list, page 1 first for the pagination metadata
+ */
+async function fetchAllPages(
+  fetchPage: (page: number) => Promise<CollectionResponse>,
+  perPage: number
+): Promise<CollectionResponse> {
+  // Fetch page 1 to get pagination metadata
+  const firstPage = await fetchPage(1);
+  const totalPages = firstPage.pagination.pages;
+  
+  // If only one page, return it immediately
+  if (totalPages <= 1) {
+    return firstPage;
+  }
+  
+  // Fetch all remaining pages sequentially
+  const allRecords = [...firstPage.records];
+  const pagePromises: Promise<CollectionResponse>[] = [];
+  
+  for (let page = 2; page <= totalPages; page++) {
+    pagePromises.push(fetchPage(page));
+  }
+  
+  // Wait for all pages to load
+  const remainingPages = await Promise.all(pagePromises);
+  
+  // Combine all records
+  for (const pageData of remainingPages) {
+    allRecords.push(...pageData.records);
+  }
+  
+  // Deduplicate records by ID (keep first occurrence of each unique ID)
+  const uniqueRecordsMap = new Map<number, VinylRecord>();
+  for (const record of allRecords) {
+    if (!uniqueRecordsMap.has(record.id)) {
+      uniqueRecordsMap.set(record.id, record);
+    }
+  }
+  const uniqueRecords = Array.from(uniqueRecordsMap.values());
+  
+  // Return combined result with updated pagination info
+  return {
+    records: uniqueRecords,
+    pagination: {
+      page: 1,
+      perPage: perPage,
+      pages: totalPages,
+      items: firstPage.pagination.items,
+    },
+    cache: combineCacheMetadata([firstPage, ...remainingPages]),
+  };
+}
+
+/**
+ * Fetch one page of the collection, filtered and sorted on the server
+ * The query uses the dashboard's filter parameters plus folder, sort and order; pass the previous
+ * page's nextCursor to get the page after it.
+ */
+export function fetchLibrary(query: string, cursor?: string): Promise<LibraryResponse> {
+  const params = new URLSearchParams(query);
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  return apiRequest<LibraryResponse>('GET', `/api/library?${params}`, 'Failed to load collection');
+}
+
+/**
+ * Search the stored collection or wantlist for releases and tracks, best matches first
+ */
+export function searchLibrary(text: string, scope: SearchScope, limit = 8): Promise<SearchResponse> {
+  const params = new URLSearchParams({ q: text, scope, limit: String(limit) });
+  return apiRequest<SearchResponse>('GET', `/api/search?${params}`, 'Failed to search');
+}
+
+export async function fetchWantlist(page = 1, perPage = 50): Promise<CollectionResponse> {
   try {
-    const response = await fetch(`/api/collection?page=${page}&per_page=${perPage}`);
-    
+    const response = await apiFetch(`/api/wantlist?page=${page}&per_page=${perPage}`);
+
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unable to read error response');
-      logError('error', 'Failed to fetch collection', {
-        endpoint: '/api/collection',
+      logError('error', 'Failed to fetch wantlist', {
+        endpoint: '/api/wantlist',
         status: response.status,
         statusText: response.statusText,
         page,
         perPage,
         errorText,
       });
-      throw new Error(`Failed to fetch collection: ${response.statusText}`);
+      throw new Error(`Failed to fetch wantlist: ${response.statusText}`);
     }
-    
+
     return response.json();
   } catch (error) {
-    if (error instanceof Error && error.message.includes('Failed to fetch collection')) {
+    if (error instanceof Error && error.message.includes('Failed to fetch wantlist')) {
       throw error; // Re-throw if we already logged it
     }
-    logError('error', 'Error in fetchCollection', {
-      endpoint: '/api/collection',
+    logError('error', 'Error in fetchWantlist', {
+      endpoint: '/api/wantlist',
       page,
       perPage,
     }, error);
@@ -80,55 +207,95 @@ export async function fetchCollection(page = 1, perPage = 50): Promise<Collectio
   }
 }
 
-export async function fetchAllCollectionPages(perPage = 50): Promise<CollectionResponse> {
+export async function fetchAllWantlistPages(perPage = 50): Promise<CollectionResponse> {
   try {
-    // Fetch page 1 to get pagination metadata
-    const firstPage = await fetchCollection(1, perPage);
-    const totalPages = firstPage.pagination.pages;
-    
-    // If only one page, return it immediately
-    if (totalPages <= 1) {
-      return firstPage;
-    }
-    
-    // Fetch all remaining pages sequentially
-    const allRecords = [...firstPage.records];
-    const pagePromises: Promise<CollectionResponse>[] = [];
-    
-    for (let page = 2; page <= totalPages; page++) {
-      pagePromises.push(fetchCollection(page, perPage));
+    return await fetchAllPages((page) => fetchWantlist(page, perPage), perPage);
+  } catch (error) {
+    logError('error', 'Error in fetchAllWantlistPages', {
+      perPage,
+    }, error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the tempo/key combinations the collection's stored tracks already cover
+ */
+export async function fetchCollectionCoverage(): Promise<CollectionCoverage> {
+  try {
+    const response = await apiFetch('/api/collection/coverage');
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      logError('error', 'Failed to fetch collection coverage', {
+        endpoint: '/api/collection/coverage',
+        status: response.status,
+        statusText: response.statusText,
+        errorText,
+      });
+      throw new Error(`Failed to fetch collection coverage: ${response.statusText}`);
     }
-    
-    // Wait for all pages to load
-    const remainingPages = await Promise.all(pagePromises);
-    
-    // Combine all records
-    for (const pageData of remainingPages) {
-      allRecords.push(...pageData.records);
+
+    return response.json();
+  } catch (error) {
+    logError('error', 'Error in fetchCollectionCoverage', {
+      endpoint: '/api/collection/coverage',
+    }, error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the user's collection folders with item counts
+ */
+export async function fetchFolders(): Promise<CollectionFolder[]> {
+  try {
+    const response = await apiFetch('/api/folders');
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      logError('error', 'Failed to fetch folders', {
+        endpoint: '/api/folders',
+        status: response.status,
+        statusText: response.statusText,
+        errorText,
+      });
+      throw new Error(`Failed to fetch folders: ${response.statusText}`);
     }
-    
-    // Deduplicate records by ID (keep first occurrence of each unique ID)
-    const uniqueRecordsMap = new Map<number, VinylRecord>();
-    for (const record of allRecords) {
-      if (!uniqueRecordsMap.has(record.id)) {
-        uniqueRecordsMap.set(record.id, record);
-      }
+
+    const data: { folders: CollectionFolder[] } = await response.json();
+    return data.folders;
+  } catch (error) {
+    logError('error', 'Error in fetchFolders', {
+      endpoint: '/api/folders',
+    }, error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch the custom notes fields of the collection, used to label record notes
+ */
+export async function fetchCollectionFields(): Promise<CollectionField[]> {
+  try {
+    const response = await apiFetch('/api/collection/fields');
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      logError('error', 'Failed to fetch collection fields', {
+        endpoint: '/api/collection/fields',
+        status: response.status,
+        statusText: response.statusText,
+        errorText,
+      });
+      throw new Error(`Failed to fetch collection fields: ${response.statusText}`);
     }
-    const uniqueRecords = Array.from(uniqueRecordsMap.values());
-    
-    // Return combined result with updated pagination info
-    return {
-      records: uniqueRecords,
-      pagination: {
-        page: 1,
-        perPage: perPage,
-        pages: totalPages,
-        items: firstPage.pagination.items,
-      },
-    };
+
+    const data: { fields: CollectionField[] } = await response.json();
+    return data.fields;
   } catch (error) {
-    logError('error', 'Error in fetchAllCollectionPages', {
-      perPage,
+    logError('error', 'Error in fetchCollectionFields', {
+      endpoint: '/api/collection/fields',
     }, error);
     throw error;
   }
@@ -139,7 +306,7 @@ export async function fetchReleaseDetails(releaseId: number): Promise<ReleaseDet
   
   return getOrCreateRequest(dedupeKey, async () => {
     try {
-      const response = await fetch(`/api/release/${releaseId}`);
+      const response = await apiFetch(`/api/release/${releaseId}`);
       
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unable to read error response');
@@ -167,11 +334,20 @@ export async function fetchReleaseDetails(releaseId: number): Promise<ReleaseDet
   });
 }
 
-export async function fetchBpm(song: string, artist: string): Promise<BpmInfo> {
+export interface BpmLookupOptions {
+  // Track duration ("m:ss"), improves match scoring
+  duration?: string;
+  // Track identity, lets a manual override take precedence
+  releaseId?: number;
+  position?: string;
+}
+
+export async function fetchBpm(song: string, artist: string, options: BpmLookupOptions = {}): Promise<BpmInfo> {
   // Normalize for deduplication (lowercase, trimmed)
   const normalizedSong = song.trim().toLowerCase();
   const normalizedArtist = artist.trim().toLowerCase();
-  const dedupeKey = `bpm:${normalizedSong}:${normalizedArtist}`;
+  const trackKey = options.releaseId !== undefined && options.position ? `:${options.releaseId}:${options.position}` : '';
+  const dedupeKey = `bpm:${normalizedSong}:${normalizedArtist}${trackKey}`;
   
   return getOrCreateRequest(dedupeKey, async () => {
     try {
@@ -179,8 +355,15 @@ export async function fetchBpm(song: string, artist: string): Promise<BpmInfo> {
         song,
         artist,
       });
+      if (options.duration) {
+        params.set('duration', options.duration);
+      }
+      if (options.releaseId !== undefined && options.position) {
+        params.set('release_id', String(options.releaseId));
+        params.set('position', options.position);
+      }
       
-      const response = await fetch(`/api/bpm?${params}`);
+      const response = await apiFetch(`/api/bpm?${params}`);
       
       if (!response.ok) {
         // Try to parse error response as JSON
@@ -236,3 +419,230 @@ export async function fetchBpm(song: string, artist: string): Promise<BpmInfo> {
   });
 }
 
+
+export async function saveBpmOverride(
+  releaseId: number,
+  position: string,
+  values: { tempo?: number; key?: string; notes?: string }
+): Promise<BpmOverride> {
+  try {
+    const response = await apiFetch(`/api/tracks/${releaseId}/${encodeURIComponent(position)}/bpm`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    });
+
+    if (!response.ok) {
+      let errorData: { error?: string; message?: string } = {};
+      try {
+        errorData = await response.json();
+      } catch {
+        // If parsing fails, use empty object
+      }
+      logError('error', 'Failed to save BPM override', {
+        endpoint: '/api/tracks/:releaseId/:position/bpm',
+        status: response.status,
+        releaseId,
+        position,
+        errorData,
+      });
+      throw new Error(`Failed to save BPM override: ${errorData.message || response.statusText}`);
+    }
+
+    return response.json();
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Failed to save BPM override')) {
+      throw error; // Re-throw if we already logged it
+    }
+    logError('error', 'Error in saveBpmOverride', {
+      endpoint: '/api/tracks/:releaseId/:position/bpm',
+      releaseId,
+      position,
+    }, error);
+    throw error;
+  }
+}
+
+export async function deleteBpmOverride(releaseId: number, position: string): Promise<void> {
+  try {
+    const response = await apiFetch(`/api/tracks/${releaseId}/${encodeURIComponent(position)}/bpm`, {
+      method: 'DELETE',
+    });
+
+    // 404 means there was nothing to remove, which is the state we wanted anyway
+    if (!response.ok && response.status !== 404) {
+      logError('error', 'Failed to delete BPM override', {
+        endpoint: '/api/tracks/:releaseId/:position/bpm',
+        status: response.status,
+        statusText: response.statusText,
+        releaseId,
+        position,
+      });
+      throw new Error(`Failed to delete BPM override: ${response.statusText}`);
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Failed to delete BPM override')) {
+      throw error; // Re-throw if we already logged it
+    }
+    logError('error', 'Error in deleteBpmOverride', {
+      endpoint: '/api/tracks/:releaseId/:position/bpm',
+      releaseId,
+      position,
+    }, error);
+    throw error;
+  }
+}
+
+/**
+ * Send a JSON request to the API, logging and throwing on failure
+ * `action` names the operation in error messages, e.g. "Failed to rename set"
+ */
+async function apiRequest<T>(
+  method: string,
+  path: string,
+  action: string,
+  body?: unknown
+): Promise<T> {
+  try {
+    const response = await apiFetch(path, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      let errorData: { error?: string; message?: string } = {};
+      try {
+        errorData = await response.json();
+      } catch {
+        // If parsing fails, use empty object
+      }
+      logError('error', action, {
+        endpoint: path,
+        method,
+        status: response.status,
+        errorData,
+      });
+      throw new Error(`${action}: ${errorData.message || response.statusText}`);
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json();
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith(action)) {
+      throw error; // Re-throw if we already logged it
+    }
+    logError('error', `Error in apiRequest (${action})`, {
+      endpoint: path,
+      method,
+    }, error);
+    throw error;
+  }
+}
+
+export async function fetchSets(): Promise<DjSetSummary[]> {
+  const data = await apiRequest<{ sets: DjSetSummary[] }>('GET', '/api/sets', 'Failed to load sets');
+  return data.sets;
+}
+
+export function fetchSet(id: number): Promise<DjSet> {
+  return apiRequest<DjSet>('GET', `/api/sets/${id}`, 'Failed to load set');
+}
+
+export function createSet(name: string, tracks: SetTrackRef[] = []): Promise<DjSet> {
+  return apiRequest<DjSet>('POST', '/api/sets', 'Failed to create set', { name, tracks });
+}
+
+export function updateSet(id: number, changes: { name?: string; tracks?: SetTrackRef[] }): Promise<DjSet> {
+  return apiRequest<DjSet>('PATCH', `/api/sets/${id}`, 'Failed to update set', changes);
+}
+
+export function deleteSet(id: number): Promise<void> {
+  return apiRequest<void>('DELETE', `/api/sets/${id}`, 'Failed to delete set');
+}
+
+export async function fetchSetSuggestions(id: number, limit = 10): Promise<TrackSuggestion[]> {
+  const data = await apiRequest<{ suggestions: TrackSuggestion[] }>(
+    'GET',
+    `/api/sets/${id}/suggestions?limit=${limit}`,
+    'Failed to load suggestions'
+  );
+  return data.suggestions;
+}
+
+/**
+ * Fetch the server's request queue and rate limit status
+ */
+export function fetchQueueStatus(): Promise<QueueStatusResponse> {
+  return apiRequest<QueueStatusResponse>('GET', '/api/admin/queue', 'Failed to load queue status');
+}
+
+/**
+ * Drop cached Discogs data on the server so the next read fetches it again
+ * Keys are patterns such as "collection:*" or "release:123"
+ */
+export async function invalidateCache(keys: string[]): Promise<void> {
+  await apiRequest<{ invalidated: { cacheEntries: number; storedItems: number } }>(
+    'POST',
+    '/api/cache/invalidate',
+    'Failed to refresh cached data',
+    { keys }
+  );
+}
+
+// query: the same filter, folder and sort parameters fetchLibrary takes
+export type ExportScope = { query?: string } | { setId: number };
+
+/**
+ * URL that downloads an export of the collection (optionally filtered and sorted) or of a saved set
+ */
+export function exportUrl(format: ExportFormat, scope: ExportScope = {}): string {
+  // `as`, not `format`, which the query may already use as the record-format filter
+  const params = new URLSearchParams('setId' in scope ? '' : scope.query);
+  params.set('as', format);
+  if ('setId' in scope) {
+    params.set('set', String(scope.setId));
+  }
+  return `/api/export?${params.toString()}`;
+}
+
+export function fetchAccount(): Promise<Account> {
+  return apiRequest<Account>('GET', '/api/auth/me', 'Failed to load account');
+}
+
+export function login(username: string, password: string): Promise<SessionResponse> {
+  return apiRequest<SessionResponse>('POST', '/api/auth/login', 'Failed to sign in', { username, password });
+}
+
+export function register(
+  username: string,
+  password: string,
+  discogs: { discogsUsername: string; discogsToken: string } | null = null
+): Promise<SessionResponse> {
+  return apiRequest<SessionResponse>('POST', '/api/auth/register', 'Failed to create account', {
+    username,
+    password,
+    ...discogs,
+  });
+}
+
+export function logout(): Promise<void> {
+  return apiRequest<void>('POST', '/api/auth/logout', 'Failed to sign out');
+}
+
+/**
+ * Connect the signed-in account to Discogs, or disconnect it with empty values
+ */
+export function saveDiscogsCredentials(discogsUsername: string, discogsToken: string): Promise<Account> {
+  return apiRequest<Account>('PUT', '/api/auth/discogs', 'Failed to save Discogs credentials', {
+    discogsUsername,
+    discogsToken,
+  });
+}
+
+/**
+ * Start connecting Discogs with OAuth; resolves to the Discogs page to send the user to
+ */
+export async function startDiscogsOAuth(): Promise<string> {
+  const data = await apiRequest<{ authorizeUrl: string }>('POST', '/api/auth/discogs/oauth', 'Failed to connect Discogs');
+  return data.authorizeUrl;
+}
@@ -0,0 +1,92 @@
+import { Fragment, useEffect, useState, type ReactNode } from 'react';
+import { fetchAccount, logout, onUnauthorized } from '../api';
+import type { Account } from '../types';
+import { BodyText } from './BodyText';
+import { SignInForm } from './SignInForm';
+import { DiscogsCredentialsForm } from './DiscogsCredentialsForm';
+
+export interface AuthControls {
+  account: Account;
+  signOut: () => void;
+  editDiscogs: () => void;
+}
+
+interface AuthGateProps {
+  // The dashboard, rendered once the user is signed in and connected to Discogs
+  children: (controls: AuthControls) => ReactNode;
+}
+
+/**
+ * Read (and drop from the URL) the outcome the Discogs OAuth callback redirected back with
+ */
+function takeOAuthOutcome(): string | null {
+  const params = new URLSearchParams(window.location.search);
+  const outcome = params.get('discogs');
+  if (outcome) {
+    params.delete('discogs');
+    const query = params.toString();
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }
+  return outcome;
+}
+
+export function AuthGate({ children }: AuthGateProps) {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [editingDiscogs, setEditingDiscogs] = useState(false);
+  const [oauthError] = useState(() =>
+    takeOAuthOutcome() === 'failed' ? "Discogs wasn't connected. Approve vinyl-dash on Discogs to continue." : null
+  );
+
+  useEffect(() => {
+    // An expired session on any request drops back to the sign-in screen
+    onUnauthorized(() => setAccount(null));
+    fetchAccount()
+      .then(setAccount)
+      .catch(() => setAccount(null))
+      .finally(() => setChecking(false));
+    return () => onUnauthorized(null);
+  }, []);
+
+  async function signOut() {
+    try {
+      await logout();
+    } finally {
+      setAccount(null);
+      setEditingDiscogs(false);
+    }
+  }
+
+  if (checking) {
+    return (
+      <div className="text-center py-2xl text-textSecondary">
+        <BodyText>Loading...</BodyText>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return <SignInForm onSignedIn={setAccount} />;
+  }
+
+  if (!account.discogsConnected || editingDiscogs) {
+    return (
+      <DiscogsCredentialsForm
+        account={account}
+        initialError={oauthError}
+        onSaved={(updated) => {
+          setAccount(updated);
+          setEditingDiscogs(false);
+        }}
+        onCancel={account.discogsConnected ? () => setEditingDiscogs(false) : undefined}
+      />
+    );
+  }
+
+  // Keyed by user so switching accounts starts the dashboard from scratch
+  return (
+    <Fragment key={account.id}>
+      {children({ account, signOut, editDiscogs: () => setEditingDiscogs(true) })}
+    </Fragment>
+  );
+}
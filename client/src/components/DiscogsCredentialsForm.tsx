@@ -0,0 +1,96 @@
+import { useState, type FormEvent } from 'react';
+import { saveDiscogsCredentials, startDiscogsOAuth } from '../api';
+import type { Account } from '../types';
+import { Heading2 } from './Heading2';
+import { BodyText } from './BodyText';
+import { Button } from './Button';
+import { Card } from './Card';
+import { TextInput } from './TextInput';
+
+interface DiscogsCredentialsFormProps {
+  account: Account;
+  // Shown when the user comes back from Discogs without connecting
+  initialError?: string | null;
+  onSaved: (account: Account) => void;
+  // Only offered once the account is connected, so there's a dashboard to go back to
+  onCancel?: () => void;
+}
+
+export function DiscogsCredentialsForm({ account, initialError = null, onSaved, onCancel }: DiscogsCredentialsFormProps) {
+  const [discogsUsername, setDiscogsUsername] = useState(account.discogsUsername ?? '');
+  const [discogsToken, setDiscogsToken] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(initialError);
+
+  // Leaves the app; Discogs redirects back to the dashboard once the user approves
+  async function connectWithOAuth() {
+    setSaving(true);
+    setError(null);
+    try {
+      window.location.assign(await startDiscogsOAuth());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect Discogs');
+      setSaving(false);
+    }
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      onSaved(await saveDiscogsCredentials(discogsUsername.trim(), discogsToken.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save Discogs credentials');
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-xl py-2xl">
+      <Card>
+        <form className="flex flex-col gap-md" onSubmit={handleSubmit}>
+          <Heading2>Connect Discogs</Heading2>
+          <BodyText className="text-textSecondary">
+            Sign in on Discogs and approve vinyl-dash to load your collection.
+          </BodyText>
+          <Button type="button" onClick={connectWithOAuth} disabled={saving}>
+            Connect with Discogs
+          </Button>
+          <BodyText className="text-textSecondary">
+            Or use your Discogs username and a personal access token from Discogs → Settings → Developers.
+          </BodyText>
+          <TextInput
+            label="Discogs username"
+            value={discogsUsername}
+            onChange={(e) => setDiscogsUsername(e.target.value)}
+            required
+          />
+          <TextInput
+            label="Personal access token"
+            type="password"
+            autoComplete="off"
+            value={discogsToken}
+            onChange={(e) => setDiscogsToken(e.target.value)}
+            required
+          />
+          {error && (
+            <div className="bg-destructiveSoft text-errorText p-md rounded-md" role="alert">
+              <BodyText className="font-medium">{error}</BodyText>
+            </div>
+          )}
+          <div className="flex gap-sm">
+            <Button type="submit" variant="secondary" disabled={saving}>
+              Save token
+            </Button>
+            {onCancel && (
+              <Button type="button" variant="tertiary" onClick={onCancel}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+}
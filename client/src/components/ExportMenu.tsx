@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { exportUrl, type ExportScope } from '../api';
+import type { ExportFormat } from '../types';
+import { Button } from './Button';
+import { Select } from './Select';
+
+const formatLabels: Record<ExportFormat, string> = {
+  rekordbox: 'Rekordbox XML',
+  m3u8: 'M3U8 playlist',
+  csv: 'CSV',
+  json: 'JSON',
+};
+
+interface ExportMenuProps {
+  scope: ExportScope;
+  label?: string;
+  className?: string;
+}
+
+export function ExportMenu({ scope, label = 'Export', className = '' }: ExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>('rekordbox');
+
+  return (
+    <div className={`flex gap-sm items-end ${className}`}>
+      <Select
+        label={label}
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+      >
+        {(Object.keys(formatLabels) as ExportFormat[]).map((value) => (
+          <option key={value} value={value}>
+            {formatLabels[value]}
+          </option>
+        ))}
+      </Select>
+      <Button
+        variant="secondary"
+        onClick={() => window.location.assign(exportUrl(format, scope))}
+      >
+        Download
+      </Button>
+    </div>
+  );
+}
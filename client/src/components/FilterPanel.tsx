@@ -0,0 +1,137 @@
+import { useState, useEffect, type ChangeEvent } from 'react';
+import type { DashboardFilters, FilterOptions } from '../filters';
+import { CAMELOT_KEYS, formatMusicalKey, type KeyNotation } from '../harmonic';
+import { Button } from './Button';
+import { Caption } from './Caption';
+import { Card } from './Card';
+import { Select } from './Select';
+import { TextInput } from './TextInput';
+
+interface FilterPanelProps {
+  filters: DashboardFilters;
+  options: FilterOptions;
+  keyNotation: KeyNotation;
+  onChange: (filters: DashboardFilters) => void;
+  onClear: () => void;
+}
+
+interface NumberFilterInputProps {
+  label: string;
+  value?: number;
+  onChange: (value: number | undefined) => void;
+}
+
+/**
+ * Numeric input that keeps the typed text while editing and reports parsed values
+ */
+function NumberFilterInput({ label, value, onChange }: NumberFilterInputProps) {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+  const [error, setError] = useState<string | undefined>();
+
+  // Follow outside changes (clearing filters, back/forward navigation)
+  useEffect(() => {
+    setDraft((current) => (Number(current) === value || (current === '' && value === undefined)
+      ? current
+      : value === undefined ? '' : String(value)));
+  }, [value]);
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const text = event.target.value;
+    setDraft(text);
+
+    const parsed = Number(text);
+    if (text.trim() === '') {
+      setError(undefined);
+      onChange(undefined);
+    } else if (isFinite(parsed) && parsed > 0) {
+      setError(undefined);
+      onChange(parsed);
+    } else {
+      setError('Enter a positive number');
+    }
+  };
+
+  return <TextInput label={label} inputMode="decimal" value={draft} onChange={handleChange} error={error} />;
+}
+
+/**
+ * Values picked in a multiple select
+ */
+function selectedValues(event: ChangeEvent<HTMLSelectElement>): string[] {
+  return Array.from(event.target.selectedOptions, (option) => option.value);
+}
+
+export function FilterPanel({ filters, options, keyNotation, onChange, onClear }: FilterPanelProps) {
+  const update = (changes: Partial<DashboardFilters>) => onChange({ ...filters, ...changes });
+
+  const multiSelects: { label: string; field: 'labels' | 'genres' | 'styles' | 'formats' }[] = [
+    { label: 'Label', field: 'labels' },
+    { label: 'Genre', field: 'genres' },
+    { label: 'Style', field: 'styles' },
+    { label: 'Format', field: 'formats' },
+  ];
+
+  return (
+    <Card className="mt-md flex flex-col gap-md">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-md">
+        <div className="flex flex-col gap-sm">
+          <div className="flex gap-sm">
+            <NumberFilterInput label="BPM min" value={filters.bpmMin} onChange={(bpmMin) => update({ bpmMin })} />
+            <NumberFilterInput label="BPM max" value={filters.bpmMax} onChange={(bpmMax) => update({ bpmMax })} />
+          </div>
+          <label className="flex items-center gap-xs cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters.halfDouble}
+              onChange={(e) => update({ halfDouble: e.target.checked })}
+            />
+            <Caption className="text-textPrimary">Include half/double time</Caption>
+          </label>
+        </div>
+        <div className="flex gap-sm">
+          <NumberFilterInput label="Year from" value={filters.yearMin} onChange={(yearMin) => update({ yearMin })} />
+          <NumberFilterInput label="Year to" value={filters.yearMax} onChange={(yearMax) => update({ yearMax })} />
+        </div>
+        <Select
+          label="Key"
+          multiple
+          size={6}
+          value={filters.keys}
+          onChange={(e) => update({ keys: selectedValues(e) })}
+        >
+          {CAMELOT_KEYS.map((key) => (
+            <option key={key.camelot} value={key.camelot}>
+              {formatMusicalKey(key, keyNotation)}
+              {keyNotation === 'standard' && ` (${key.camelot})`}
+            </option>
+          ))}
+        </Select>
+        {multiSelects.map(({ label, field }) => (
+          <Select
+            key={field}
+            label={label}
+            multiple
+            size={6}
+            value={filters[field]}
+            onChange={(e) => update({ [field]: selectedValues(e) })}
+            disabled={options[field].length === 0}
+          >
+            {options[field].map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </Select>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-md flex-wrap">
+        <Caption className="text-textMuted">
+          BPM and key filters only match records whose BPM has been loaded. Ctrl/Cmd-click to pick several values.
+        </Caption>
+        <Button variant="tertiary" onClick={onClear}>
+          Clear filters
+        </Button>
+      </div>
+    </Card>
+  );
+}
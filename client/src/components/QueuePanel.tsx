@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { fetchQueueStatus } from '../api';
+import type { QueueApiStatus, QueueStatusResponse } from '../types';
+import { Heading2 } from './Heading2';
+import { Heading3 } from './Heading3';
+import { Caption } from './Caption';
+import { Card } from './Card';
+
+// How often the panel polls while open
+const REFRESH_INTERVAL_MS = 5000;
+
+/**
+ * Format a duration in milliseconds as e.g. "850 ms", "12.5 s" or "3 min"
+ */
+function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)} ms`;
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)} s`;
+  }
+  return `${Math.round(ms / 60_000)} min`;
+}
+
+/**
+ * Format a timestamp as a time of day
+ */
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString();
+}
+
+function ApiStatus({ status }: { status: QueueApiStatus }) {
+  const { depth, totals, queueWait, rateLimit } = status;
+  const waiting = depth.interactive + depth.prefetch + depth.background;
+  const averageWait = queueWait.count > 0 ? queueWait.totalMs / queueWait.count : 0;
+
+  return (
+    <div className="flex flex-col gap-xs border-t border-borderSubtle pt-sm">
+      <Heading3>{status.api}</Heading3>
+      <Caption className="text-textPrimary">
+        {waiting} waiting ({depth.interactive} interactive, {depth.prefetch} prefetch, {depth.background} background)
+        {status.processing && ' · processing'}
+      </Caption>
+      {rateLimit && (
+        <Caption>
+          Rate limit: {rateLimit.used}/{rateLimit.maxRequests} used per {formatDuration(rateLimit.windowMs)}, {rateLimit.remaining} left
+          {rateLimit.shared ? ' · shared through Redis' : ' · this server only'}
+          {rateLimit.report && ` · API reported ${rateLimit.report.remaining}/${rateLimit.report.limit} left at ${formatTime(rateLimit.report.reportedAt)}`}
+        </Caption>
+      )}
+      {status.waitingForSlotUntil && (
+        <Caption className="text-warning">
+          Waiting for a rate limit slot until {formatTime(status.waitingForSlotUntil)}
+        </Caption>
+      )}
+      <Caption>
+        {totals.completed} completed, {totals.failed} failed, {totals.dead} dead letters, {totals.deduplicated} deduplicated
+        {' · '}average wait {formatDuration(averageWait)} (longest {formatDuration(queueWait.maxMs)}),
+        {' '}{formatDuration(status.rateLimitWaitMs)} waiting for rate limit slots
+      </Caption>
+      {status.backingOff.length > 0 && (
+        <ul className="flex flex-col gap-xs">
+          {status.backingOff.map((request) => (
+            <li key={request.id}>
+              <Caption className="text-warning">
+                Retry {request.retryCount} at {formatTime(request.runAfter)}: {request.dedupeKey ?? request.id}
+              </Caption>
+            </li>
+          ))}
+        </ul>
+      )}
+      {status.inFlight.length > 0 && (
+        <details>
+          <summary className="cursor-pointer">
+            <Caption>{status.inFlight.length} in flight</Caption>
+          </summary>
+          <ul className="flex flex-col gap-xs mt-xs">
+            {status.inFlight.map((request) => (
+              <li key={request.dedupeKey} className="break-all">
+                <Caption>{formatDuration(request.ageMs)} · {request.dedupeKey}</Caption>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export function QueuePanel() {
+  const [status, setStatus] = useState<QueueStatusResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const data = await fetchQueueStatus();
+        if (!cancelled) {
+          setStatus(data);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load queue status');
+        }
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  return (
+    <Card className="my-md flex flex-col gap-sm">
+      <div className="flex flex-wrap items-baseline justify-between gap-sm">
+        <Heading2>Request queue</Heading2>
+        {status && <Caption>Updated {formatTime(status.generatedAt)}</Caption>}
+      </div>
+
+      {error && (
+        <div className="bg-destructiveSoft text-errorText p-sm rounded-md" role="alert">
+          <Caption>{error}</Caption>
+        </div>
+      )}
+
+      {status?.apis.map((api) => <ApiStatus key={api.api} status={api} />)}
+
+      {status && (
+        <div className="flex flex-col gap-xs border-t border-borderSubtle pt-sm">
+          <Heading3>Recent 429 responses</Heading3>
+          {status.recentRateLimits.length === 0 ? (
+            <Caption>None since the server started</Caption>
+          ) : (
+            <ul className="flex flex-col gap-xs">
+              {status.recentRateLimits.map((event, index) => (
+                <li key={`${event.at}-${index}`} className="break-all">
+                  <Caption className={event.outcome === 'dead' ? 'text-errorText' : ''}>
+                    {formatTime(event.at)} · {event.api} · attempt {event.retryCount + 1}
+                    {event.retryAfter !== undefined && ` · Retry-After ${event.retryAfter} s`}
+                    {event.outcome === 'dead'
+                      ? ' · moved to dead letters'
+                      : event.backoffMs !== undefined && ` · backing off ${formatDuration(event.backoffMs)}`}
+                    {event.dedupeKey && ` · ${event.dedupeKey}`}
+                  </Caption>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+import type { VinylRecord } from '../types';
+import { Caption } from './Caption';
+
+interface RecordDetailsProps {
+  record: VinylRecord;
+  // Notes field names by field id
+  noteFields: Record<number, string>;
+  className?: string;
+}
+
+/**
+ * Display a nominal playback speed, e.g. 33 -> "33⅓ RPM"
+ */
+export function formatRpm(rpm: number): string {
+  switch (rpm) {
+    case 33:
+      return '33⅓ RPM';
+    case 16:
+      return '16⅔ RPM';
+    default:
+      return `${rpm} RPM`;
+  }
+}
+
+/**
+ * Summarize a record's formats, e.g. "2 × Vinyl, 12", Single"
+ */
+function formatSummary(record: VinylRecord): string | undefined {
+  if (!record.formatDetails?.length) {
+    return record.formats?.join(', ') || undefined;
+  }
+  return record.formatDetails
+    .map((format) => {
+      const name = format.qty > 1 ? `${format.qty} × ${format.name}` : format.name;
+      // The speed is shown as its own badge
+      const descriptions = format.descriptions.filter((description) => !/RPM$/i.test(description));
+      return [name, ...descriptions, format.text].filter(Boolean).join(', ');
+    })
+    .join(' + ');
+}
+
+export function RecordDetails({ record, noteFields, className = '' }: RecordDetailsProps) {
+  const summary = formatSummary(record);
+  const genres = [...(record.genres ?? []), ...(record.styles ?? [])];
+  const otherLabels = (record.labels ?? []).slice(1);
+
+  return (
+    <div className={`flex flex-col gap-xs ${className}`}>
+      <div className="flex flex-wrap items-center gap-xs">
+        {record.rpm && (
+          <Caption className="px-xs rounded-md bg-primarySoft text-primary font-semibold">{formatRpm(record.rpm)}</Caption>
+        )}
+        {record.catno && <Caption className="text-textMuted">{record.catno}</Caption>}
+        {record.rating && (
+          <Caption className="text-warning">
+            <span role="img" aria-label={`Rated ${record.rating} of 5`}>
+              {'★'.repeat(record.rating)}
+              {'☆'.repeat(5 - record.rating)}
+            </span>
+          </Caption>
+        )}
+      </div>
+      {summary && <Caption className="text-textMuted">{summary}</Caption>}
+      {otherLabels.length > 0 && (
+        <Caption className="text-textMuted">
+          Also on {otherLabels.map((label) => (label.catno ? `${label.name} (${label.catno})` : label.name)).join(', ')}
+        </Caption>
+      )}
+      {genres.length > 0 && <Caption className="text-textMuted">{genres.join(' • ')}</Caption>}
+      {record.dateAdded && (
+        <Caption className="text-textMuted">Added {new Date(record.dateAdded).toLocaleDateString()}</Caption>
+      )}
+      {record.notes?.map((note) => (
+        <Caption key={note.fieldId} className="text-textSecondary">
+          <span className="font-semibold">{noteFields[note.fieldId] ?? 'Notes'}:</span> {note.value}
+        </Caption>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect, useRef, type KeyboardEvent } from 'react';
+import { searchLibrary } from '../api';
+import type { SearchField, SearchResult, SearchScope } from '../types';
+import { TextInput } from './TextInput';
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGESTION_DELAY_MS = 150;
+
+const fieldLabels: Record<SearchField, string> = {
+  title: 'Release',
+  track: 'Track',
+  artist: 'Artist',
+  label: 'Label',
+  catno: 'Catalog number',
+};
+
+interface SearchBoxProps {
+  value: string;
+  scope: SearchScope;
+  placeholder?: string;
+  className?: string;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Text a suggestion puts in the box: whatever it matched on
+ * The wantlist is filtered on release fields only, so a track suggestion there uses its release's title.
+ */
+function suggestionText(result: SearchResult, scope: SearchScope): string {
+  switch (result.field) {
+    case 'track': return result.track && scope === 'collection' ? result.track.title : result.record.title;
+    case 'artist': return result.record.artist;
+    case 'label': return result.record.label;
+    case 'catno': return result.record.catno ?? result.record.title;
+    case 'title': return result.record.title;
+  }
+}
+
+/**
+ * The dashboard's filter box, with typeahead suggestions from the server's search index
+ * Suggestions cover track titles and catalog numbers too, and tolerate typos; picking one filters by it.
+ */
+export function SearchBox({ value, scope, placeholder, className = '', onChange }: SearchBoxProps) {
+  const [suggestions, setSuggestions] = useState<SearchResult[]>([]);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+  // Ignore responses for anything but the latest text
+  const request = useRef(0);
+
+  useEffect(() => {
+    const text = value.trim();
+    const requestId = ++request.current;
+    if (!text) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      searchLibrary(text, scope)
+        .then((response) => {
+          if (requestId === request.current) {
+            setSuggestions(response.results);
+            setActive(-1);
+          }
+        })
+        .catch(() => {
+          // Suggestions are a convenience; the filter still works without them
+          if (requestId === request.current) {
+            setSuggestions([]);
+          }
+        });
+    }, SUGGESTION_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [value, scope]);
+
+  const choose = (result: SearchResult) => {
+    onChange(suggestionText(result, scope));
+    setOpen(false);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      if (suggestions.length === 0) return;
+      event.preventDefault();
+      setOpen(true);
+      // Cycles through the suggestions and back to the typed text (-1)
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActive((current) => (current + 1 + step + suggestions.length + 1) % (suggestions.length + 1) - 1);
+    } else if (event.key === 'Enter' && open && active >= 0 && suggestions[active]) {
+      event.preventDefault();
+      choose(suggestions[active]);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const listId = 'search-suggestions';
+  const showList = open && suggestions.length > 0;
+
+  return (
+    <div className={`relative ${className}`}>
+      <TextInput
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && active >= 0 ? `${listId}-${active}` : undefined}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 z-10 mt-xs max-h-80 overflow-y-auto rounded-md border border-borderSubtle bg-surfaceElevated shadow-low"
+        >
+          {suggestions.map((result, index) => (
+            <li
+              key={`${result.record.id}-${result.track?.position ?? ''}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              className={`flex items-center gap-sm px-md py-sm cursor-pointer ${index === active ? 'bg-primarySoft' : 'hover:bg-surfaceSubtle'}`}
+              // Keep focus in the box, so it doesn't blur and close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(result)}
+            >
+              {result.record.coverImage ? (
+                <img src={result.record.coverImage} alt="" className="w-8 h-8 rounded-sm object-cover" />
+              ) : (
+                <div className="w-8 h-8 rounded-sm bg-surfaceSubtle" />
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="text-body text-textPrimary truncate">
+                  {result.track ? `${result.track.position} · ${result.track.title}` : result.record.title}
+                </p>
+                <p className="text-caption text-textMuted truncate">
+                  {result.record.artist}
+                  {result.track ? ` · ${result.record.title}` : result.record.catno ? ` · ${result.record.catno}` : ''}
+                </p>
+              </div>
+              <span className="text-caption text-textMuted shrink-0">{fieldLabels[result.field]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
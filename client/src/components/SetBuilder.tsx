@@ -0,0 +1,376 @@
+import { useState, useEffect, useCallback, type DragEvent, type FormEvent } from 'react';
+import { fetchSets, fetchSet, createSet, updateSet, deleteSet, fetchSetSuggestions } from '../api';
+import type { DjSet, DjSetSummary, SetTrackRef, TrackSuggestion } from '../types';
+import { formatKey, type KeyNotation } from '../harmonic';
+import { Heading2 } from './Heading2';
+import { BodyText } from './BodyText';
+import { Caption } from './Caption';
+import { Button } from './Button';
+import { Card } from './Card';
+import { Select } from './Select';
+import { TextInput } from './TextInput';
+import { ExportMenu } from './ExportMenu';
+
+// Drag payloads: a track dragged in from the collection, or an entry being moved within the set
+export const SET_TRACK_DRAG_TYPE = 'application/x-vinyl-dash-track';
+const SET_ENTRY_DRAG_TYPE = 'application/x-vinyl-dash-set-entry';
+
+interface SetBuilderProps {
+  keyNotation: KeyNotation;
+}
+
+/**
+ * Format a runtime in seconds as h:mm:ss or m:ss
+ */
+function formatRuntime(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+/**
+ * Format a tempo change between two tracks, e.g. "+2 BPM"
+ */
+function formatBpmDelta(delta: number | undefined): string {
+  if (delta === undefined) {
+    return '? BPM';
+  }
+  return `${delta > 0 ? '+' : ''}${delta} BPM`;
+}
+
+/**
+ * Strip a full set down to the summary shown in the set picker
+ */
+function toSummary(set: DjSet): DjSetSummary {
+  return {
+    id: set.id,
+    name: set.name,
+    trackCount: set.trackCount,
+    createdAt: set.createdAt,
+    updatedAt: set.updatedAt,
+  };
+}
+
+export function SetBuilder({ keyNotation }: SetBuilderProps) {
+  const [sets, setSets] = useState<DjSetSummary[]>([]);
+  const [activeSet, setActiveSet] = useState<DjSet | null>(null);
+  const [suggestions, setSuggestions] = useState<TrackSuggestion[]>([]);
+  const [newSetName, setNewSetName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSuggestions = useCallback(async (id: number) => {
+    try {
+      setSuggestions(await fetchSetSuggestions(id, 5));
+    } catch {
+      setSuggestions([]); // Already logged; suggestions are optional
+    }
+  }, []);
+
+  const openSet = useCallback(async (id: number) => {
+    try {
+      setError(null);
+      const set = await fetchSet(id);
+      setActiveSet(set);
+      setRenaming(null);
+      loadSuggestions(set.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load set');
+    }
+  }, [loadSuggestions]);
+
+  useEffect(() => {
+    fetchSets()
+      .then((loaded) => {
+        setSets(loaded);
+        if (loaded.length > 0) {
+          openSet(loaded[0]!.id);
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load sets'));
+  }, [openSet]);
+
+  // Keep the summary list in step with the open set
+  const applySet = (set: DjSet) => {
+    setActiveSet(set);
+    setSets((prev) => prev.map((summary) => (summary.id === set.id ? toSummary(set) : summary)));
+  };
+
+  async function saveTracks(tracks: SetTrackRef[]) {
+    if (!activeSet) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await updateSet(activeSet.id, { tracks });
+      applySet(updated);
+      loadSuggestions(updated.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update set');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCreate(event: FormEvent) {
+    event.preventDefault();
+    const name = newSetName.trim();
+    if (!name) return;
+    try {
+      setError(null);
+      const created = await createSet(name);
+      setSets((prev) => [toSummary(created), ...prev]);
+      setActiveSet(created);
+      setNewSetName('');
+      loadSuggestions(created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create set');
+    }
+  }
+
+  async function handleRename(event: FormEvent) {
+    event.preventDefault();
+    if (!activeSet || renaming === null || !renaming.trim()) return;
+    try {
+      setError(null);
+      applySet(await updateSet(activeSet.id, { name: renaming.trim() }));
+      setRenaming(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename set');
+    }
+  }
+
+  async function handleDelete() {
+    if (!activeSet || !window.confirm(`Delete the set "${activeSet.name}"?`)) return;
+    try {
+      setError(null);
+      await deleteSet(activeSet.id);
+      const remaining = sets.filter((summary) => summary.id !== activeSet.id);
+      setSets(remaining);
+      setActiveSet(null);
+      setSuggestions([]);
+      if (remaining.length > 0) {
+        openSet(remaining[0]!.id);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete set');
+    }
+  }
+
+  const currentRefs = (): SetTrackRef[] =>
+    (activeSet?.entries ?? []).map(({ releaseId, position }) => ({ releaseId, position }));
+
+  const handleDragOver = (event: DragEvent, index: number) => {
+    const types = event.dataTransfer.types;
+    if (types.includes(SET_TRACK_DRAG_TYPE) || types.includes(SET_ENTRY_DRAG_TYPE)) {
+      event.preventDefault();
+      setDropIndex(index);
+    }
+  };
+
+  // Insert a dragged-in track, or move an entry, so it lands before `index`
+  const handleDrop = (event: DragEvent, index: number) => {
+    event.preventDefault();
+    setDropIndex(null);
+    const refs = currentRefs();
+
+    const movedFrom = event.dataTransfer.getData(SET_ENTRY_DRAG_TYPE);
+    if (movedFrom !== '') {
+      const from = parseInt(movedFrom, 10);
+      const [moved] = refs.splice(from, 1);
+      refs.splice(from < index ? index - 1 : index, 0, moved!);
+      saveTracks(refs);
+      return;
+    }
+
+    const dragged = event.dataTransfer.getData(SET_TRACK_DRAG_TYPE);
+    if (dragged) {
+      refs.splice(index, 0, JSON.parse(dragged) as SetTrackRef);
+      saveTracks(refs);
+    }
+  };
+
+  const entries = activeSet?.entries ?? [];
+
+  return (
+    <Card className="flex flex-col gap-md">
+      <Heading2>Set builder</Heading2>
+
+      {error && (
+        <div className="bg-destructiveSoft text-errorText p-sm rounded-md" role="alert">
+          <Caption>{error}</Caption>
+        </div>
+      )}
+
+      {sets.length > 0 && (
+        <Select
+          label="Set"
+          value={activeSet?.id ?? ''}
+          onChange={(e) => openSet(Number(e.target.value))}
+        >
+          {sets.map((summary) => (
+            <option key={summary.id} value={summary.id}>
+              {summary.name} ({summary.trackCount})
+            </option>
+          ))}
+        </Select>
+      )}
+
+      <form onSubmit={handleCreate} className="flex gap-sm items-end">
+        <TextInput
+          label="New set"
+          placeholder="Set name"
+          value={newSetName}
+          onChange={(e) => setNewSetName(e.target.value)}
+        />
+        <Button type="submit" variant="secondary" disabled={!newSetName.trim()}>
+          Create
+        </Button>
+      </form>
+
+      {activeSet && (
+        <>
+          {renaming !== null ? (
+            <form onSubmit={handleRename} className="flex gap-sm items-end">
+              <TextInput label="Name" value={renaming} onChange={(e) => setRenaming(e.target.value)} />
+              <Button type="submit" variant="primary">Save</Button>
+              <Button type="button" variant="tertiary" onClick={() => setRenaming(null)}>Cancel</Button>
+            </form>
+          ) : (
+            <div className="flex gap-sm">
+              <Button variant="tertiary" onClick={() => setRenaming(activeSet.name)}>Rename</Button>
+              <Button variant="tertiary" onClick={handleDelete}>Delete</Button>
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <Caption className="text-textSecondary">
+              {activeSet.trackCount} tracks • {formatRuntime(activeSet.totalDuration)}
+              {activeSet.untimedTracks > 0 && ` + ${activeSet.untimedTracks} without duration`}
+            </Caption>
+            {saving && <Caption className="text-textMuted italic">Saving...</Caption>}
+          </div>
+
+          <ol
+            className="list-none p-0 m-0 min-h-24 rounded-md border border-dashed border-borderSubtle"
+            onDragOver={(e) => handleDragOver(e, entries.length)}
+            onDragLeave={() => setDropIndex(null)}
+            onDrop={(e) => handleDrop(e, entries.length)}
+          >
+            {entries.length === 0 && (
+              <li className="p-md text-center">
+                <Caption className="text-textMuted italic">Drag tracks here to build the set</Caption>
+              </li>
+            )}
+            {entries.map((entry, index) => {
+              const transition = index > 0 ? activeSet.transitions[index - 1] : undefined;
+              return (
+                <li
+                  key={`${entry.releaseId}-${entry.position}-${index}`}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData(SET_ENTRY_DRAG_TYPE, String(index))}
+                  onDragOver={(e) => {
+                    e.stopPropagation();
+                    handleDragOver(e, index);
+                  }}
+                  onDrop={(e) => {
+                    e.stopPropagation();
+                    handleDrop(e, index);
+                  }}
+                  className={`px-sm cursor-grab ${dropIndex === index ? 'border-t-2 border-primary' : ''}`}
+                >
+                  {transition && (
+                    <div className="py-xs text-center">
+                      <Caption className="text-textMuted">
+                        ↓ {formatBpmDelta(transition.bpmDelta)} •{' '}
+                      </Caption>
+                      <Caption
+                        className={
+                          transition.keyCompatible === undefined
+                            ? 'text-textMuted'
+                            : transition.keyCompatible
+                            ? 'text-success font-semibold'
+                            : 'text-warning font-semibold'
+                        }
+                      >
+                        {transition.keyCompatible === undefined
+                          ? 'key unknown'
+                          : transition.keyCompatible
+                          ? 'keys mix'
+                          : 'key clash'}
+                      </Caption>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-sm py-xs border-b border-borderSubtle">
+                    <div className="flex-1 min-w-0">
+                      <BodyText className="text-textPrimary truncate">{entry.title}</BodyText>
+                      <Caption className="block text-textMuted truncate">
+                        {entry.artist} • {entry.position}
+                        {entry.bpm?.tempo !== undefined && ` • ${entry.bpm.tempo} BPM`}
+                        {entry.bpm?.key && ` • ${formatKey(entry.bpm, keyNotation)}`}
+                        {entry.duration && ` • ${entry.duration}`}
+                      </Caption>
+                    </div>
+                    <Button
+                      variant="tertiary"
+                      onClick={() => saveTracks(currentRefs().filter((_, i) => i !== index))}
+                      disabled={saving}
+                      className="min-h-0 h-7 px-xs text-caption"
+                      title="Remove from set"
+                    >
+                      ✕
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          {entries.length > 0 && (
+            <ExportMenu scope={{ setId: activeSet.id }} label="Export set" />
+          )}
+
+          {suggestions.length > 0 && (
+            <div>
+              <Caption className="font-semibold text-textSecondary">
+                {entries.length > 0 ? 'Suggested next' : 'Suggested openers'}
+              </Caption>
+              <ul className="list-none p-0 m-0">
+                {suggestions.map((suggestion) => (
+                  <li
+                    key={`${suggestion.releaseId}-${suggestion.position}`}
+                    className="flex items-center gap-sm py-xs border-b border-borderSubtle last:border-b-0"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <BodyText className="text-textPrimary truncate">{suggestion.title}</BodyText>
+                      <Caption className="block text-textMuted truncate">
+                        {suggestion.artist}
+                        {suggestion.bpm?.tempo !== undefined && ` • ${suggestion.bpm.tempo} BPM`}
+                        {suggestion.bpm?.key && ` • ${formatKey(suggestion.bpm, keyNotation)}`}
+                        {entries.length > 0 && ` • ${formatBpmDelta(suggestion.bpmDelta)}`}
+                      </Caption>
+                    </div>
+                    <Button
+                      variant="tertiary"
+                      onClick={() => saveTracks([...currentRefs(), {
+                        releaseId: suggestion.releaseId,
+                        position: suggestion.position,
+                      }])}
+                      disabled={saving}
+                      className="min-h-0 h-7 px-xs text-caption"
+                    >
+                      Add
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState, type FormEvent } from 'react';
+import { login, register } from '../api';
+import type { Account } from '../types';
+import { Heading1 } from './Heading1';
+import { BodyText } from './BodyText';
+import { Button } from './Button';
+import { Card } from './Card';
+import { TextInput } from './TextInput';
+
+interface SignInFormProps {
+  onSignedIn: (account: Account) => void;
+}
+
+export function SignInForm({ onSignedIn }: SignInFormProps) {
+  const [mode, setMode] = useState<'signIn' | 'register'>('signIn');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const session = mode === 'signIn'
+        ? await login(username.trim(), password)
+        : await register(username.trim(), password);
+      onSignedIn(session.account);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="max-w-sm mx-auto px-xl py-2xl">
+      <Heading1 className="mb-lg">Vinyl Dashboard</Heading1>
+      <Card>
+        <form className="flex flex-col gap-md" onSubmit={handleSubmit}>
+          <TextInput
+            label="Username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            required
+          />
+          <TextInput
+            label="Password"
+            type="password"
+            autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+            helperText={mode === 'register' ? 'At least 8 characters' : undefined}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          {error && (
+            <div className="bg-destructiveSoft text-errorText p-md rounded-md" role="alert">
+              <BodyText className="font-medium">{error}</BodyText>
+            </div>
+          )}
+          <Button type="submit" disabled={submitting}>
+            {mode === 'signIn' ? 'Sign in' : 'Create account'}
+          </Button>
+          <Button
+            type="button"
+            variant="tertiary"
+            onClick={() => {
+              setMode((prev) => (prev === 'signIn' ? 'register' : 'signIn'));
+              setError(null);
+            }}
+          >
+            {mode === 'signIn' ? 'Create an account' : 'I already have an account'}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState, type FormEvent } from 'react';
+import type { BpmInfo } from '../types';
+import { Button } from './Button';
+import { TextInput } from './TextInput';
+
+interface TrackBpmEditorProps {
+  bpm?: BpmInfo;
+  saving?: boolean;
+  onSave: (values: { tempo?: number; key?: string; notes?: string }) => void;
+  onReset: () => void;
+  onCancel: () => void;
+}
+
+export function TrackBpmEditor({ bpm, saving = false, onSave, onReset, onCancel }: TrackBpmEditorProps) {
+  const [tempo, setTempo] = useState(bpm?.tempo ? String(bpm.tempo) : '');
+  const [key, setKey] = useState(bpm?.key ?? '');
+  const [notes, setNotes] = useState(bpm?.notes ?? '');
+  const [error, setError] = useState<string | undefined>();
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+
+    const trimmedTempo = tempo.trim();
+    const parsedTempo = trimmedTempo ? Number(trimmedTempo) : undefined;
+    if (parsedTempo !== undefined && (!isFinite(parsedTempo) || parsedTempo <= 0 || parsedTempo > 400)) {
+      setError('Enter a BPM between 0 and 400');
+      return;
+    }
+    if (parsedTempo === undefined && !key.trim()) {
+      setError('Enter a BPM, a key, or both');
+      return;
+    }
+
+    setError(undefined);
+    onSave({
+      tempo: parsedTempo,
+      key: key.trim() || undefined,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-sm flex flex-col gap-sm w-full">
+      <div className="flex gap-sm">
+        <TextInput
+          label="BPM"
+          inputMode="decimal"
+          value={tempo}
+          onChange={(e) => setTempo(e.target.value)}
+          error={error}
+        />
+        <TextInput
+          label="Key"
+          placeholder="e.g. A minor or 8A"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+        />
+      </div>
+      <TextInput
+        label="Notes"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+      />
+      <div className="flex gap-sm flex-wrap">
+        <Button type="submit" variant="primary" disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+        {bpm?.overridden && (
+          <Button type="button" variant="secondary" onClick={onReset} disabled={saving}>
+            Use looked-up value
+          </Button>
+        )}
+        <Button type="button" variant="tertiary" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,278 @@
+import { useState, useMemo, type MouseEvent } from 'react';
+import type { BpmInfo, Track, VinylRecord } from '../types';
+import { formatKey, type KeyNotation } from '../harmonic';
+import { Button } from './Button';
+import { Caption } from './Caption';
+import { SET_TRACK_DRAG_TYPE } from './SetBuilder';
+import { formatRpm } from './RecordDetails';
+
+// Fixed row height lets the table render only the rows in view
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN_ROWS = 10;
+
+type SortColumn = 'artist' | 'release' | 'position' | 'title' | 'duration' | 'bpm' | 'key' | 'rpm' | 'label' | 'year';
+
+interface SortKey {
+  column: SortColumn;
+  direction: 'asc' | 'desc';
+}
+
+interface TableRow {
+  id: string;
+  record: VinylRecord;
+  // Missing when the release's tracklist hasn't been loaded; the row then stands for the whole release
+  track?: Track;
+  bpm?: BpmInfo;
+  loadingBpm: boolean;
+}
+
+interface TrackTableProps {
+  records: VinylRecord[];
+  tracklists: Record<number, Track[]>;
+  bpmMap: Record<number, BpmInfo>;
+  trackBpmMap: Record<string, BpmInfo>;
+  loadingTracks: Record<number, boolean>;
+  loadingTrackBpm: Record<string, boolean>;
+  keyNotation: KeyNotation;
+  draggableTracks?: boolean;
+  onLoadTracks: (record: VinylRecord) => void;
+  onLoadTrackBpm: (record: VinylRecord, track: Track) => void;
+}
+
+const columns: { id: SortColumn; label: string; className: string }[] = [
+  { id: 'artist', label: 'Artist', className: 'w-40' },
+  { id: 'release', label: 'Release', className: 'w-40' },
+  { id: 'position', label: 'Pos', className: 'w-14' },
+  { id: 'title', label: 'Title', className: 'flex-1 min-w-40' },
+  { id: 'duration', label: 'Time', className: 'w-16' },
+  { id: 'bpm', label: 'BPM', className: 'w-20' },
+  { id: 'key', label: 'Key', className: 'w-24' },
+  { id: 'rpm', label: 'Speed', className: 'w-24' },
+  { id: 'label', label: 'Label', className: 'w-32' },
+  { id: 'year', label: 'Year', className: 'w-14' },
+];
+
+/**
+ * Convert "m:ss" or "h:mm:ss" to seconds
+ */
+function durationSeconds(duration: string | undefined): number | undefined {
+  if (!duration) return undefined;
+  const parts = duration.split(':').map((part) => parseInt(part, 10));
+  if (parts.some((part) => isNaN(part))) return undefined;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Sortable value of a row's column; undefined values always sort last
+ */
+function sortValue(row: TableRow, column: SortColumn): string | number | undefined {
+  switch (column) {
+    case 'artist':
+      return row.record.artist;
+    case 'release':
+      return row.record.title;
+    case 'position':
+      return row.track?.position;
+    case 'title':
+      return row.track?.title;
+    case 'duration':
+      return durationSeconds(row.track?.duration);
+    case 'bpm':
+      return Number(row.bpm?.tempo) || undefined;
+    case 'key': {
+      // Wheel order: 1A, 1B, 2A, 2B, ...
+      const camelot = row.bpm?.parsedKey?.camelot;
+      return camelot ? parseInt(camelot, 10) * 2 + (camelot.endsWith('B') ? 1 : 0) : undefined;
+    }
+    case 'rpm':
+      return row.record.rpm;
+    case 'label':
+      return row.record.label;
+    case 'year':
+      return row.record.year ?? undefined;
+  }
+}
+
+/**
+ * Compare two rows by a list of sort keys, falling through to the next key on ties
+ */
+function compareRows(a: TableRow, b: TableRow, sortKeys: SortKey[]): number {
+  for (const { column, direction } of sortKeys) {
+    const first = sortValue(a, column);
+    const second = sortValue(b, column);
+    if (first === second) continue;
+    if (first === undefined) return 1;
+    if (second === undefined) return -1;
+
+    const result = typeof first === 'number' && typeof second === 'number'
+      ? first - second
+      : String(first).localeCompare(String(second), undefined, { numeric: true, sensitivity: 'base' });
+    if (result !== 0) {
+      return direction === 'asc' ? result : -result;
+    }
+  }
+  return 0;
+}
+
+export function TrackTable({
+  records,
+  tracklists,
+  bpmMap,
+  trackBpmMap,
+  loadingTracks,
+  loadingTrackBpm,
+  keyNotation,
+  draggableTracks = false,
+  onLoadTracks,
+  onLoadTrackBpm,
+}: TrackTableProps) {
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const rows = useMemo(() => {
+    const built = records.flatMap((record): TableRow[] => {
+      const tracks = tracklists[record.id];
+      if (!tracks || tracks.length === 0) {
+        return [{ id: `${record.id}`, record, bpm: bpmMap[record.id], loadingBpm: false }];
+      }
+      return tracks.map((track) => {
+        const trackKey = `${record.id}-${track.title}`;
+        return {
+          id: trackKey,
+          record,
+          track,
+          bpm: trackBpmMap[trackKey],
+          loadingBpm: !!loadingTrackBpm[trackKey],
+        };
+      });
+    });
+    return sortKeys.length > 0 ? built.sort((a, b) => compareRows(a, b, sortKeys)) : built;
+  }, [records, tracklists, bpmMap, trackBpmMap, loadingTrackBpm, sortKeys]);
+
+  // Click sorts by one column (again to reverse); shift-click adds or reverses a secondary sort
+  const handleSort = (event: MouseEvent, column: SortColumn) => {
+    setSortKeys((prev) => {
+      const existing = prev.find((key) => key.column === column);
+      const toggled: SortKey = {
+        column,
+        direction: existing?.direction === 'asc' ? 'desc' : 'asc',
+      };
+      if (!event.shiftKey) {
+        return [toggled];
+      }
+      return existing
+        ? prev.map((key) => (key.column === column ? toggled : key))
+        : [...prev, toggled];
+    });
+  };
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const visibleCount = Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT) + OVERSCAN_ROWS * 2;
+  const visibleRows = rows.slice(firstVisible, firstVisible + visibleCount);
+
+  return (
+    <div className="rounded-lg border border-borderSubtle bg-surfaceElevated overflow-hidden">
+      <div
+        className="overflow-auto"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="min-w-max" role="table" aria-rowcount={rows.length}>
+          <div className="flex sticky top-0 z-10 bg-surfaceSubtle border-b border-borderSubtle" role="row">
+            {columns.map((column) => {
+              const sortIndex = sortKeys.findIndex((key) => key.column === column.id);
+              const sortKey = sortKeys[sortIndex];
+              return (
+                <button
+                  key={column.id}
+                  type="button"
+                  role="columnheader"
+                  aria-sort={sortKey ? (sortKey.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  onClick={(e) => handleSort(e, column.id)}
+                  className={`${column.className} px-sm text-left text-caption font-semibold text-textSecondary hover:text-textPrimary focus:outline-none focus:ring-2 focus:ring-focusRing`}
+                  style={{ height: ROW_HEIGHT }}
+                  title="Click to sort, shift-click to add a secondary sort"
+                >
+                  {column.label}
+                  {sortKey && (
+                    <span className="ml-xs text-primary">
+                      {sortKey.direction === 'asc' ? '▲' : '▼'}
+                      {sortKeys.length > 1 && sortIndex + 1}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+            {visibleRows.map((row, index) => (
+              <div
+                key={row.id}
+                role="row"
+                className="flex items-center border-b border-borderSubtle absolute left-0 right-0"
+                style={{ top: (firstVisible + index) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                draggable={draggableTracks && !!row.track?.position}
+                onDragStart={(e) => row.track && e.dataTransfer.setData(
+                  SET_TRACK_DRAG_TYPE,
+                  JSON.stringify({ releaseId: row.record.id, position: row.track.position })
+                )}
+              >
+                <Caption className="w-40 px-sm truncate text-textPrimary">{row.record.artist}</Caption>
+                <Caption className="w-40 px-sm truncate text-textPrimary">{row.record.title}</Caption>
+                <Caption className="w-14 px-sm truncate text-textMuted">{row.track?.position}</Caption>
+                <div className="flex-1 min-w-40 px-sm truncate">
+                  {row.track ? (
+                    <Caption className="text-textPrimary">{row.track.title}</Caption>
+                  ) : (
+                    <Button
+                      variant="tertiary"
+                      onClick={() => onLoadTracks(row.record)}
+                      disabled={loadingTracks[row.record.id] || !!tracklists[row.record.id]}
+                      className="min-h-0 h-7 px-xs text-caption"
+                    >
+                      {loadingTracks[row.record.id]
+                        ? 'Loading tracks...'
+                        : tracklists[row.record.id]
+                        ? 'No tracks available'
+                        : 'Load tracks'}
+                    </Button>
+                  )}
+                </div>
+                <Caption className="w-16 px-sm text-textMuted">{row.track?.duration}</Caption>
+                <div className="w-20 px-sm">
+                  {row.bpm ? (
+                    <Caption className="text-primary font-semibold">
+                      {row.bpm.tempo}
+                      {row.bpm.lowConfidence && <span className="text-warning"> ?</span>}
+                    </Caption>
+                  ) : row.track && (
+                    <Button
+                      variant="tertiary"
+                      onClick={() => onLoadTrackBpm(row.record, row.track!)}
+                      disabled={row.loadingBpm}
+                      className="min-h-0 h-7 px-xs text-caption"
+                    >
+                      {row.loadingBpm ? '...' : 'Load'}
+                    </Button>
+                  )}
+                </div>
+                <Caption className="w-24 px-sm truncate text-textPrimary">
+                  {row.bpm && formatKey(row.bpm, keyNotation)}
+                </Caption>
+                <Caption className="w-24 px-sm text-textMuted">{row.record.rpm && formatRpm(row.record.rpm)}</Caption>
+                <Caption className="w-32 px-sm truncate text-textMuted">{row.record.label}</Caption>
+                <Caption className="w-14 px-sm text-textMuted">{row.record.year}</Caption>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+      <div className="px-sm py-xs border-t border-borderSubtle">
+        <Caption className="text-textMuted">
+          {rows.length} rows • Click a column to sort, shift-click to sort by several columns
+        </Caption>
+      </div>
+    </div>
+  );
+}
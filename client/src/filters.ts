@@ -0,0 +1,197 @@
+// Dashboard filters and their URL query-string encoding, so filtered views can be shared and bookmarked
+import type { BpmInfo, VinylRecord } from './types';
+
+export interface DashboardFilters {
+  text: string;
+  bpmMin?: number;
+  bpmMax?: number;
+  // Also match tracks at half or double the tempo (a 70 BPM track mixes into a 140 BPM set)
+  halfDouble: boolean;
+  // Camelot codes, e.g. "8A"
+  keys: string[];
+  yearMin?: number;
+  yearMax?: number;
+  labels: string[];
+  genres: string[];
+  styles: string[];
+  formats: string[];
+}
+
+export interface FilterOptions {
+  labels: string[];
+  genres: string[];
+  styles: string[];
+  formats: string[];
+}
+
+export const EMPTY_FILTERS: DashboardFilters = {
+  text: '',
+  halfDouble: false,
+  keys: [],
+  labels: [],
+  genres: [],
+  styles: [],
+  formats: [],
+};
+
+/**
+ * Parse an optional positive number from a query parameter
+ */
+function numberParam(params: URLSearchParams, name: string): number | undefined {
+  const value = Number(params.get(name));
+  return params.has(name) && isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Read filters from a query string such as window.location.search
+ */
+export function filtersFromQuery(search: string): DashboardFilters {
+  const params = new URLSearchParams(search);
+  return {
+    text: params.get('q') ?? '',
+    bpmMin: numberParam(params, 'bpm_min'),
+    bpmMax: numberParam(params, 'bpm_max'),
+    halfDouble: params.get('half_double') === '1',
+    keys: params.getAll('key'),
+    yearMin: numberParam(params, 'year_min'),
+    yearMax: numberParam(params, 'year_max'),
+    labels: params.getAll('label'),
+    genres: params.getAll('genre'),
+    styles: params.getAll('style'),
+    formats: params.getAll('format'),
+  };
+}
+
+/**
+ * Encode filters as a query string (without the leading "?"); empty filters are left out
+ */
+export function filtersToQuery(filters: DashboardFilters): string {
+  const params = new URLSearchParams();
+  if (filters.text) params.set('q', filters.text);
+  if (filters.bpmMin !== undefined) params.set('bpm_min', String(filters.bpmMin));
+  if (filters.bpmMax !== undefined) params.set('bpm_max', String(filters.bpmMax));
+  if (filters.halfDouble) params.set('half_double', '1');
+  filters.keys.forEach((key) => params.append('key', key));
+  if (filters.yearMin !== undefined) params.set('year_min', String(filters.yearMin));
+  if (filters.yearMax !== undefined) params.set('year_max', String(filters.yearMax));
+  filters.labels.forEach((label) => params.append('label', label));
+  filters.genres.forEach((genre) => params.append('genre', genre));
+  filters.styles.forEach((style) => params.append('style', style));
+  filters.formats.forEach((format) => params.append('format', format));
+  return params.toString();
+}
+
+/**
+ * Number of panel filters in use (the free-text box isn't counted)
+ */
+export function countActiveFilters(filters: DashboardFilters): number {
+  return [
+    filters.bpmMin !== undefined || filters.bpmMax !== undefined,
+    filters.keys.length > 0,
+    filters.yearMin !== undefined || filters.yearMax !== undefined,
+    filters.labels.length > 0,
+    filters.genres.length > 0,
+    filters.styles.length > 0,
+    filters.formats.length > 0,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Whether the filters look at BPM data, which only exists for records whose BPM was loaded
+ */
+export function hasBpmFilters(filters: DashboardFilters): boolean {
+  return filters.bpmMin !== undefined || filters.bpmMax !== undefined || filters.keys.length > 0;
+}
+
+/**
+ * Whether a tempo falls in the filter's BPM range, optionally at half or double time
+ */
+function matchesTempo(tempo: number, filters: DashboardFilters): boolean {
+  const inRange = (value: number) =>
+    (filters.bpmMin === undefined || value >= filters.bpmMin) &&
+    (filters.bpmMax === undefined || value <= filters.bpmMax);
+
+  return inRange(tempo) || (filters.halfDouble && (inRange(tempo * 2) || inRange(tempo / 2)));
+}
+
+/**
+ * Whether one BPM result satisfies both the tempo range and the key selection
+ */
+export function matchesBpmFilters(bpm: BpmInfo, filters: DashboardFilters): boolean {
+  if (filters.bpmMin !== undefined || filters.bpmMax !== undefined) {
+    const tempo = Number(bpm.tempo);
+    if (!tempo || !matchesTempo(tempo, filters)) {
+      return false;
+    }
+  }
+  if (filters.keys.length > 0) {
+    if (!bpm.parsedKey || !filters.keys.includes(bpm.parsedKey.camelot)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether a multi-select filter accepts a record's values (no selection accepts everything)
+ */
+function matchesAny(selected: string[], values: string[] | undefined): boolean {
+  return selected.length === 0 || (values ?? []).some((value) => selected.includes(value));
+}
+
+/**
+ * Names of every label a record was released on
+ * Records cached before labels were normalized only have the first label's name.
+ */
+function recordLabels(record: VinylRecord): string[] {
+  return record.labels?.length ? record.labels.map((label) => label.name) : [record.label];
+}
+
+/**
+ * Whether a record's own metadata passes the text, year, label, genre, style, and format filters
+ */
+export function matchesRecordFilters(record: VinylRecord, filters: DashboardFilters): boolean {
+  const searchText = filters.text.toLowerCase();
+  const matchesText = (
+    record.title.toLowerCase().includes(searchText) ||
+    record.artist.toLowerCase().includes(searchText) ||
+    record.label.toLowerCase().includes(searchText) ||
+    (record.catno !== undefined && record.catno.toLowerCase().includes(searchText)) ||
+    (record.year !== null && record.year.toString().includes(searchText))
+  );
+  if (!matchesText) {
+    return false;
+  }
+
+  if (filters.yearMin !== undefined || filters.yearMax !== undefined) {
+    if (!record.year) {
+      return false;
+    }
+    if ((filters.yearMin !== undefined && record.year < filters.yearMin) ||
+        (filters.yearMax !== undefined && record.year > filters.yearMax)) {
+      return false;
+    }
+  }
+
+  return (
+    matchesAny(filters.labels, recordLabels(record)) &&
+    matchesAny(filters.genres, record.genres) &&
+    matchesAny(filters.styles, record.styles) &&
+    matchesAny(filters.formats, record.formats)
+  );
+}
+
+/**
+ * Distinct, sorted values available for the multi-select filters
+ */
+export function collectFilterOptions(records: VinylRecord[]): FilterOptions {
+  const distinct = (values: (string | undefined)[]) =>
+    Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+  return {
+    labels: distinct(records.flatMap(recordLabels)),
+    genres: distinct(records.flatMap((record) => record.genres ?? [])),
+    styles: distinct(records.flatMap((record) => record.styles ?? [])),
+    formats: distinct(records.flatMap((record) => record.formats ?? [])),
+  };
+}
@@ -0,0 +1,148 @@
+// Key notation display and harmonic-mixing compatibility
+import type { BpmInfo, CoveragePoint, MusicalKey } from './types';
+
+export type KeyNotation = 'standard' | 'camelot' | 'openKey';
+
+export const KEY_NOTATION_LABELS: Record<KeyNotation, string> = {
+  standard: 'Standard (A minor)',
+  camelot: 'Camelot (8A)',
+  openKey: 'Open Key (1m)',
+};
+
+export const DEFAULT_BPM_RANGE = 6;
+
+const keyNotationStorageKey = 'vinyl-dash:key-notation';
+
+/**
+ * Read the saved key notation preference
+ */
+export function loadKeyNotation(): KeyNotation {
+  const saved = localStorage.getItem(keyNotationStorageKey);
+  return saved && saved in KEY_NOTATION_LABELS ? (saved as KeyNotation) : 'standard';
+}
+
+/**
+ * Persist the key notation preference
+ */
+export function saveKeyNotation(notation: KeyNotation): void {
+  localStorage.setItem(keyNotationStorageKey, notation);
+}
+
+// All 24 keys in Camelot wheel order (minor 1A-12A, then major 1B-12B)
+export const CAMELOT_KEYS: MusicalKey[] = [
+  { tonic: 'G#', mode: 'minor', camelot: '1A', openKey: '6m' },
+  { tonic: 'Eb', mode: 'minor', camelot: '2A', openKey: '7m' },
+  { tonic: 'Bb', mode: 'minor', camelot: '3A', openKey: '8m' },
+  { tonic: 'F', mode: 'minor', camelot: '4A', openKey: '9m' },
+  { tonic: 'C', mode: 'minor', camelot: '5A', openKey: '10m' },
+  { tonic: 'G', mode: 'minor', camelot: '6A', openKey: '11m' },
+  { tonic: 'D', mode: 'minor', camelot: '7A', openKey: '12m' },
+  { tonic: 'A', mode: 'minor', camelot: '8A', openKey: '1m' },
+  { tonic: 'E', mode: 'minor', camelot: '9A', openKey: '2m' },
+  { tonic: 'B', mode: 'minor', camelot: '10A', openKey: '3m' },
+  { tonic: 'F#', mode: 'minor', camelot: '11A', openKey: '4m' },
+  { tonic: 'C#', mode: 'minor', camelot: '12A', openKey: '5m' },
+  { tonic: 'B', mode: 'major', camelot: '1B', openKey: '6d' },
+  { tonic: 'F#', mode: 'major', camelot: '2B', openKey: '7d' },
+  { tonic: 'Db', mode: 'major', camelot: '3B', openKey: '8d' },
+  { tonic: 'Ab', mode: 'major', camelot: '4B', openKey: '9d' },
+  { tonic: 'Eb', mode: 'major', camelot: '5B', openKey: '10d' },
+  { tonic: 'Bb', mode: 'major', camelot: '6B', openKey: '11d' },
+  { tonic: 'F', mode: 'major', camelot: '7B', openKey: '12d' },
+  { tonic: 'C', mode: 'major', camelot: '8B', openKey: '1d' },
+  { tonic: 'G', mode: 'major', camelot: '9B', openKey: '2d' },
+  { tonic: 'D', mode: 'major', camelot: '10B', openKey: '3d' },
+  { tonic: 'A', mode: 'major', camelot: '11B', openKey: '4d' },
+  { tonic: 'E', mode: 'major', camelot: '12B', openKey: '5d' },
+];
+
+/**
+ * Format a parsed key in the chosen notation
+ */
+export function formatMusicalKey(key: MusicalKey, notation: KeyNotation): string {
+  switch (notation) {
+    case 'camelot':
+      return key.camelot;
+    case 'openKey':
+      return key.openKey;
+    default:
+      return `${key.tonic} ${key.mode}`;
+  }
+}
+
+/**
+ * Format a BPM result's key in the chosen notation
+ * Keys the server couldn't parse are shown as they came from the source.
+ */
+export function formatKey(bpm: BpmInfo, notation: KeyNotation): string | undefined {
+  return bpm.parsedKey ? formatMusicalKey(bpm.parsedKey, notation) : bpm.key;
+}
+
+/**
+ * Split a Camelot code like "8A" into its wheel number and letter
+ */
+function camelotParts(key: MusicalKey): { number: number; letter: string } {
+  return {
+    number: parseInt(key.camelot, 10),
+    letter: key.camelot.slice(-1),
+  };
+}
+
+/**
+ * Whether two keys mix harmonically: same key, one step around the wheel, or relative major/minor
+ */
+export function isKeyCompatible(a: MusicalKey, b: MusicalKey): boolean {
+  const first = camelotParts(a);
+  const second = camelotParts(b);
+
+  if (first.number === second.number) {
+    return true; // Same key, or its relative major/minor
+  }
+  if (first.letter !== second.letter) {
+    return false;
+  }
+
+  const distance = Math.abs(first.number - second.number);
+  return distance === 1 || distance === 11; // 12 and 1 are neighbours on the wheel
+}
+
+/**
+ * Whether two tempos are within the given BPM range of each other
+ * Missing tempos don't rule a track out; only the key is checked then.
+ */
+export function isTempoCompatible(a: BpmInfo, b: BpmInfo, range: number): boolean {
+  const first = Number(a.tempo);
+  const second = Number(b.tempo);
+  if (!first || !second) {
+    return true;
+  }
+  return Math.abs(first - second) <= range;
+}
+
+/**
+ * Whether a track can be mixed with the reference track
+ */
+export function isHarmonicMatch(reference: BpmInfo, candidate: BpmInfo, bpmRange: number): boolean {
+  if (!reference.parsedKey || !candidate.parsedKey) {
+    return false;
+  }
+  return isKeyCompatible(reference.parsedKey, candidate.parsedKey) && isTempoCompatible(reference, candidate, bpmRange);
+}
+
+/**
+ * Whether a track brings a tempo/key combination the collection doesn't have yet
+ * A collection track covers it when it has the same key and a tempo within the BPM range;
+ * when the track's tempo or key is unknown, only the known one is compared.
+ */
+export function fillsGap(candidate: BpmInfo, coverage: CoveragePoint[], bpmRange: number): boolean {
+  const tempo = Number(candidate.tempo) || undefined;
+  const camelot = candidate.parsedKey?.camelot;
+  if (tempo === undefined && camelot === undefined) {
+    return false;
+  }
+
+  return !coverage.some((point) =>
+    (camelot === undefined || point.camelot === camelot) &&
+    (tempo === undefined || (point.tempo !== undefined && Math.abs(point.tempo - tempo) <= bpmRange))
+  );
+}
@@ -4,23 +4,211 @@ export interface Track {
   duration?: string;
 }
 
+export interface RecordArtist {
+  id: number;
+  name: string;
+  // Artist name variation as credited on this release
+  anv?: string;
+  // Join string to the next artist, e.g. "&", "Feat.", ","
+  join?: string;
+}
+
+export interface RecordLabel {
+  id: number;
+  name: string;
+  catno?: string;
+}
+
+export interface RecordFormat {
+  name: string;
+  qty: number;
+  text?: string;
+  descriptions: string[];
+}
+
+export interface CollectionNote {
+  fieldId: number;
+  value: string;
+}
+
+// A Discogs collection folder; folder 0 ("All") holds every release
+export interface CollectionFolder {
+  id: number;
+  name: string;
+  count: number;
+}
+
+// A custom notes field defined in the user's Discogs collection settings
+export interface CollectionField {
+  id: number;
+  name: string;
+  type: string;
+}
+
 export interface VinylRecord {
   id: number;
   title: string;
+  // Display string built from `artists` with their ANVs and join strings
   artist: string;
+  // First label, kept for display; `labels` has all of them
   label: string;
   year: number | null;
   coverImage: string;
+  artists?: RecordArtist[];
+  labels?: RecordLabel[];
+  catno?: string;
+  genres?: string[];
+  styles?: string[];
+  // Format names and descriptions, e.g. ["Vinyl", "LP", "Album"]
+  formats?: string[];
+  formatDetails?: RecordFormat[];
+  // Nominal playback speed from the format descriptions: 16, 33 (33 1/3), 45, or 78
+  rpm?: number;
+  // Collection-item fields; only present on records read from a user's collection
+  instanceId?: number;
+  // Folder the collection item is filed in
+  folderId?: number;
+  dateAdded?: string;
+  rating?: number;
+  notes?: CollectionNote[];
   tracks?: Track[];
 }
 
-export interface BpmInfo {
+export interface BpmCandidate {
   id: string;
   title: string;
+  artist: string;
   tempo: number | string;
   key?: string;
+  confidence: number;
+}
+
+// Where a BPM result came from: a lookup provider, or a user override
+export type BpmProviderName = 'getsongbpm' | 'local' | 'analysis';
+export type BpmSource = BpmProviderName | 'manual';
+
+export type KeyMode = 'major' | 'minor';
+
+// A key parsed out of whatever notation the source used, with its DJ wheel positions
+export interface MusicalKey {
+  tonic: string;
+  mode: KeyMode;
+  camelot: string;
+  openKey: string;
+}
+
+export interface BpmInfo {
+  id: string;
+  title: string;
+  // Unset when only the key is known, e.g. from an override that sets just the key
+  tempo?: number | string;
+  key?: string;
+  parsedKey?: MusicalKey;
   danceability?: number;
   acousticness?: number;
+  confidence?: number;
+  lowConfidence?: boolean;
+  candidates?: BpmCandidate[];
+  // The provider whose match supplied the tempo, or 'manual' when a user override did
+  source?: BpmSource;
+  // A user override was applied, to the tempo, the key, or both
+  overridden?: boolean;
+  notes?: string;
+}
+
+export interface BpmOverride {
+  releaseId: number;
+  position: string;
+  tempo?: number;
+  key?: string;
+  notes?: string;
+  updatedAt: string;
+}
+
+export interface SetTrackRef {
+  releaseId: number;
+  position: string;
+}
+
+// A track in a set, resolved against the library; fields are missing if the release isn't stored yet
+export interface SetEntry extends SetTrackRef {
+  title: string;
+  artist: string;
+  recordTitle: string;
+  coverImage: string;
+  duration?: string;
+  bpm?: BpmInfo;
+}
+
+// Mix between entries[index] and entries[index + 1]; undefined when either side lacks the data
+export interface SetTransition {
+  index: number;
+  bpmDelta?: number;
+  keyCompatible?: boolean;
+}
+
+export interface DjSetSummary {
+  id: number;
+  name: string;
+  trackCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DjSet extends DjSetSummary {
+  entries: SetEntry[];
+  transitions: SetTransition[];
+  // Seconds; tracks without a duration are counted in untimedTracks instead
+  totalDuration: number;
+  untimedTracks: number;
+}
+
+export interface TrackSuggestion extends SetEntry {
+  score: number;
+  bpmDelta?: number;
+  keyCompatible: boolean;
+}
+
+// A tempo/key combination present among the collection's tracks
+export interface CoveragePoint {
+  tempo?: number;
+  // Camelot code, e.g. "8A"
+  camelot?: string;
+}
+
+export interface CollectionCoverage {
+  points: CoveragePoint[];
+  // Collection tracks with a stored tempo or key
+  tracks: number;
+}
+
+export type ExportFormat = 'csv' | 'json' | 'rekordbox' | 'm3u8';
+
+// A vinyl-dash account as shown to its owner; the Discogs token itself never leaves the server
+export interface Account {
+  id: number;
+  username: string;
+  discogsUsername: string | null;
+  discogsConnected: boolean;
+  // Listed in the server's ADMIN_USERS; can see and manage the request queue and rate limits
+  isAdmin: boolean;
+}
+
+export interface SessionResponse {
+  account: Account;
+  // Also set as an HttpOnly cookie; scripts can send it as "Authorization: Bearer <token>"
+  token: string;
+  expiresAt: string;
+}
+
+// Where a response's Discogs data was served from, and how old it is
+export interface CacheMetadata {
+  // When the data was fetched from Discogs
+  fetchedAt: string;
+  // cache: the Redis hot cache; store: the local library store; live: fetched for this request
+  source: 'cache' | 'store' | 'live';
+  // Older than its max age; a background refresh has been started
+  stale: boolean;
 }
 
 export interface CollectionResponse {
@@ -31,10 +219,140 @@ export interface CollectionResponse {
     pages: number;
     items: number;
   };
+  cache?: CacheMetadata;
+}
+
+export type LibrarySortField = 'added' | 'artist' | 'title' | 'year' | 'label' | 'bpm';
+
+// A track with its stored BPM data, the user's override applied; bpm is null until a lookup finds something
+export interface LibraryTrack extends Track {
+  bpm: BpmInfo | null;
+}
+
+/**
+ * A collection record with what the library store knows about it
+ */
+export interface LibraryRecord {
+  record: VinylRecord;
+  // Stored lookup for the record's own title and artist
+  bpm: BpmInfo | null;
+  // null until the release's tracklist has been fetched
+  tracks: LibraryTrack[] | null;
+}
+
+/**
+ * One page of the collection, filtered and sorted on the server
+ */
+export interface LibraryResponse {
+  records: LibraryRecord[];
+  // Pass as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+  // Records matching the filters, across all pages
+  total: number;
+  // Values the multi-select filters can take, across the whole collection (or folder)
+  filterOptions: {
+    labels: string[];
+    genres: string[];
+    styles: string[];
+    formats: string[];
+  };
+  cache: CacheMetadata;
+}
+
+export type SearchScope = 'collection' | 'wantlist';
+
+// The field a search result matched best on; 'track' is a track title
+export type SearchField = 'title' | 'track' | 'artist' | 'label' | 'catno';
+
+export interface SearchResult {
+  record: VinylRecord;
+  // Set when one of the record's tracks matched rather than the release itself
+  track?: Track;
+  field: SearchField;
+  // Higher is a better match; only comparable within one response
+  score: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  // Query words matched through a similarly spelled indexed word instead (typo tolerance)
+  corrections: { word: string; matches: string[] }[];
+  results: SearchResult[];
 }
 
 export interface ReleaseDetailsResponse {
   id: number;
   tracks: Track[];
+  cache?: CacheMetadata;
 }
 
+
+// interactive: a user is waiting on it; prefetch: refreshing data that is already shown;
+// background: bulk jobs such as enrichment
+export type RequestPriority = 'interactive' | 'prefetch' | 'background';
+
+// An upstream API's rate limit window
+export interface RateLimiterState {
+  name: string;
+  maxRequests: number;
+  windowMs: number;
+  // Requests made in the current window; by every server process when the window is shared
+  used: number;
+  remaining: number;
+  shared: boolean;
+  // Latest limit the API reported about itself (Discogs only)
+  report: {
+    limit: number;
+    used: number;
+    remaining: number;
+    reportedAt: string;
+  } | null;
+}
+
+// A 429 response from an upstream API
+export interface RateLimitEvent {
+  api: string;
+  at: string;
+  dedupeKey?: string;
+  // Retries the request had used before this response
+  retryCount: number;
+  // Seconds the API asked to wait (Retry-After)
+  retryAfter?: number;
+  // Retried after a backoff, or moved to the dead letters
+  outcome: 'retried' | 'dead';
+  backoffMs?: number;
+}
+
+export interface QueueApiStatus {
+  api: string;
+  depth: Record<RequestPriority, number>;
+  processing: boolean;
+  // Set while the queue waits for a free slot in the rate limit window
+  waitingForSlotUntil?: string;
+  // Dedupe keys of requests queued or running, which duplicate calls join instead of queueing again
+  inFlight: { dedupeKey: string; ageMs: number }[];
+  // Requests waiting out a backoff after a 429 before they rejoin their lane
+  backingOff: { id: string; dedupeKey?: string; retryCount: number; runAfter: string }[];
+  // Counted since the server started
+  totals: {
+    enqueued: number;
+    deduplicated: number;
+    completed: number;
+    failed: number;
+    dead: number;
+    retried: number;
+    rateLimited: number;
+  };
+  // Time requests waited in their lane before they started
+  queueWait: { count: number; totalMs: number; maxMs: number };
+  // Time spent waiting for slots in the rate limit window
+  rateLimitWaitMs: number;
+  rateLimit: RateLimiterState | null;
+}
+
+export interface QueueStatusResponse {
+  apis: QueueApiStatus[];
+  // Newest first
+  recentRateLimits: RateLimitEvent[];
+  generatedAt: string;
+}
@@ -0,0 +1,186 @@
+// Audio-analysis BPM provider: tempo and key measured from our own WAV/FLAC rips (see audioLibrary.ts)
+// Files linked to a Discogs track are found under that track's title and release artist;
+// unlinked files fall back to their tags or filename.
+
+import { db } from './db';
+import { normalizeTitle } from './bpmMatcher';
+import type { BpmProvider, BpmSearchResult } from './bpmProviders';
+import type { MatchQuery } from './bpmMatcher';
+
+// The Discogs track a file was matched to
+export interface TrackLink {
+  releaseId: number;
+  position: string;
+  title: string;
+  confidence: number;
+}
+
+export interface AnalyzedFile {
+  // Relative to MUSIC_DIR
+  path: string;
+  mtime: number;
+  size: number;
+  artist?: string;
+  title?: string;
+  album?: string;
+  // Seconds
+  duration?: number;
+  tempo?: number;
+  key?: string;
+  // Why decoding or analysis failed; the file is retried once it changes
+  error?: string;
+  link?: TrackLink;
+}
+
+interface AnalysisMatch {
+  path: string;
+  title: string;
+  artist: string;
+  duration?: number;
+  tempo: number;
+  key?: string;
+}
+
+const upsertAnalysis = db.query(`
+  INSERT INTO audio_analyses (
+    path, mtime, size, artist, title, album, duration, tempo, musical_key, error,
+    release_id, track_position, link_confidence, match_title, analyzed_at
+  )
+  VALUES (
+    $path, $mtime, $size, $artist, $title, $album, $duration, $tempo, $key, $error,
+    $releaseId, $position, $linkConfidence, $matchTitle, $analyzedAt
+  )
+  ON CONFLICT(path) DO UPDATE SET
+    mtime = excluded.mtime,
+    size = excluded.size,
+    artist = excluded.artist,
+    title = excluded.title,
+    album = excluded.album,
+    duration = excluded.duration,
+    tempo = excluded.tempo,
+    musical_key = excluded.musical_key,
+    error = excluded.error,
+    release_id = excluded.release_id,
+    track_position = excluded.track_position,
+    link_confidence = excluded.link_confidence,
+    match_title = excluded.match_title,
+    analyzed_at = excluded.analyzed_at
+`);
+
+/**
+ * Store a file's analysis and link, replacing any earlier one
+ */
+export function saveAnalyzedFile(file: AnalyzedFile): void {
+  upsertAnalysis.run({
+    path: file.path,
+    mtime: file.mtime,
+    size: file.size,
+    artist: file.artist ?? null,
+    title: file.title ?? null,
+    album: file.album ?? null,
+    duration: file.duration ?? null,
+    tempo: file.tempo ?? null,
+    key: file.key ?? null,
+    error: file.error ?? null,
+    releaseId: file.link?.releaseId ?? null,
+    position: file.link?.position ?? null,
+    linkConfidence: file.link?.confidence ?? null,
+    matchTitle: normalizeTitle(file.link?.title ?? file.title ?? ''),
+    analyzedAt: Date.now(),
+  });
+}
+
+// An audio_analyses row with the title of the track it's linked to, if any
+interface AnalysisRow {
+  path: string;
+  mtime: number;
+  size: number;
+  artist: string | null;
+  title: string | null;
+  album: string | null;
+  duration: number | null;
+  tempo: number | null;
+  musical_key: string | null;
+  error: string | null;
+  release_id: number | null;
+  track_position: string | null;
+  link_confidence: number | null;
+  track_title: string | null;
+}
+
+const selectAnalysis = db.query<AnalysisRow, { path: string }>(`
+  SELECT a.*, t.title AS track_title
+  FROM audio_analyses a
+  LEFT JOIN tracks t ON t.release_id = a.release_id AND t.position = a.track_position
+  WHERE a.path = $path
+`);
+
+/**
+ * Read a file's stored analysis, or null if it was never analyzed
+ */
+export function readAnalyzedFile(path: string): AnalyzedFile | null {
+  const row = selectAnalysis.get({ path });
+  if (!row) {
+    return null;
+  }
+
+  return {
+    path: row.path,
+    mtime: row.mtime,
+    size: row.size,
+    artist: row.artist ?? undefined,
+    title: row.title ?? undefined,
+    album: row.album ?? undefined,
+    duration: row.duration ?? undefined,
+    tempo: row.tempo ?? undefined,
+    key: row.musical_key ?? undefined,
+    error: row.error ?? undefined,
+    link: row.release_id !== null && row.track_title !== null ? {
+      releaseId: row.release_id,
+      position: row.track_position!,
+      title: row.track_title,
+      confidence: row.link_confidence ?? 0,
+    } : undefined,
+  };
+}
+
+// Linked files report the Discogs track and release artist, so scoring sees the names the dashboard uses
+const selectAnalysesByTitle = db.query<
+  { path: string; duration: number | null; tempo: number; musical_key: string | null; title: string | null; artist: string | null },
+  { matchTitle: string }
+>(`
+  SELECT
+    a.path, a.duration, a.tempo, a.musical_key,
+    COALESCE(t.title, a.title) AS title,
+    COALESCE(r.artist, a.artist) AS artist
+  FROM audio_analyses a
+  LEFT JOIN tracks t ON t.release_id = a.release_id AND t.position = a.track_position
+  LEFT JOIN releases r ON r.id = a.release_id
+  WHERE a.match_title = $matchTitle AND a.tempo IS NOT NULL
+`);
+
+export const analysisBpmProvider: BpmProvider<AnalysisMatch> = {
+  name: 'analysis',
+  isConfigured: () => !!process.env.MUSIC_DIR,
+  async search(query: MatchQuery): Promise<AnalysisMatch[]> {
+    const rows = selectAnalysesByTitle.all({ matchTitle: normalizeTitle(query.title) });
+    return rows.map((row) => ({
+      path: row.path,
+      title: row.title ?? '',
+      artist: row.artist ?? '',
+      duration: row.duration ?? undefined,
+      tempo: row.tempo,
+      key: row.musical_key ?? undefined,
+    }));
+  },
+  normalize(match: AnalysisMatch): BpmSearchResult {
+    return {
+      id: `analysis:${match.path}`,
+      title: match.title,
+      artist: match.artist,
+      tempo: match.tempo,
+      key: match.key,
+      duration: match.duration,
+    };
+  },
+};
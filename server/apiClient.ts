@@ -1,28 +1,32 @@
 // API client wrapper with rate limiting, queuing, and retry logic
 
-import { enqueueRequest, setRetryAfter } from './requestQueue';
+import { enqueueRequest, setRetryAfter, type EnqueueOptions } from './requestQueue';
+import { recordRateLimitHeaders } from './rateLimiter';
+import { logError } from './logger';
 
-type API = 'discogs' | 'getsongbpm';
+// 'discogs', or the name of a rate-limited BPM provider
+type API = string;
 
-// Logging utility
-function logError(level: 'error' | 'warn', message: string, context: Record<string, any> = {}, error?: Error | unknown) {
-  const logEntry = {
-    timestamp: new Date().toISOString(),
-    level,
-    message,
-    context,
-    error: error instanceof Error ? {
-      message: error.message,
-      stack: error.stack,
-      name: error.name,
-    } : error,
-  };
-  
-  if (level === 'error') {
-    console.error(JSON.stringify(logEntry));
-  } else {
-    console.warn(JSON.stringify(logEntry));
-  }
+/**
+ * Error carrying the HTTP status and error label a route should respond with
+ */
+export type ApiError = Error & { status: number; error: string };
+
+/**
+ * Create an error that routes can translate directly into an HTTP response
+ */
+export function createApiError(status: number, error: string, message: string): ApiError {
+  const apiError = new Error(message) as ApiError;
+  apiError.status = status;
+  apiError.error = error;
+  return apiError;
+}
+
+/**
+ * Check whether an error was created with createApiError
+ */
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof Error && typeof (error as ApiError).status === 'number' && typeof (error as ApiError).error === 'string';
 }
 
 /**
@@ -36,18 +40,24 @@ function generateDedupeKey(url: string, options?: RequestInit): string {
 
 /**
  * Fetch with rate limiting, queuing, and automatic retry
+ * `read` turns the response into the result inside the queued request: callers deduplicated onto it
+ * share what it returns, and a Response body can only be read once.
  */
-export async function fetchWithRateLimit(
+export async function fetchWithRateLimit<T>(
   url: string,
   options: RequestInit,
   api: API,
-  dedupeKey?: string
-): Promise<Response> {
+  read: (response: Response) => Promise<T>,
+  dedupeKey?: string,
+  queueOptions?: EnqueueOptions
+): Promise<T> {
   // Generate dedupe key if not provided
   const key = dedupeKey || generateDedupeKey(url, options);
 
   return enqueueRequest(api, async () => {
     const response = await fetch(url, options);
+    // Discogs reports the caller's limit and remaining requests; the limiter's budget follows them
+    await recordRateLimitHeaders(api, response.headers);
 
     // Handle 429 rate limit errors
     if (response.status === 429) {
@@ -67,21 +77,20 @@ export async function fetchWithRateLimit(
       throw error;
     }
 
-    return response;
-  }, key);
+    return read(response);
+  }, key, queueOptions);
 }
 
 /**
  * Fetch with rate limiting (simplified version for backward compatibility)
  */
-export async function fetchDiscogs(url: string, options: RequestInit, dedupeKey?: string): Promise<Response> {
-  return fetchWithRateLimit(url, options, 'discogs', dedupeKey);
-}
-
-/**
- * Fetch with rate limiting for GetSongBPM
- */
-export async function fetchGetSongBPM(url: string, options: RequestInit, dedupeKey?: string): Promise<Response> {
-  return fetchWithRateLimit(url, options, 'getsongbpm', dedupeKey);
+export async function fetchDiscogs<T>(
+  url: string,
+  options: RequestInit,
+  read: (response: Response) => Promise<T>,
+  dedupeKey?: string,
+  queueOptions?: EnqueueOptions
+): Promise<T> {
+  return fetchWithRateLimit(url, options, 'discogs', read, dedupeKey, queueOptions);
 }
 
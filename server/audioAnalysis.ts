@@ -0,0 +1,278 @@
+// Tempo and key estimation from decoded audio
+// Tempo: a spectral-flux onset envelope, autocorrelated over the 60-200 BPM range.
+// Key: a chroma profile (energy per pitch class) correlated with the Krumhansl-Kessler key profiles.
+
+import { formatMusicalKey } from './musicalKey';
+import type { KeyMode } from '../client/src/types';
+
+export interface AudioAnalysis {
+  // Beats per minute, one decimal place
+  tempo: number;
+  // e.g. "A minor"
+  key: string;
+}
+
+// Everything above ~5.5 kHz is irrelevant to beat and pitch, so audio is analyzed at about 11 kHz
+const ANALYSIS_SAMPLE_RATE = 11025;
+
+const ONSET_FRAME_SIZE = 1024;
+const ONSET_HOP_SIZE = 256;
+const CHROMA_FRAME_SIZE = 4096;
+const CHROMA_HOP_SIZE = 2048;
+
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Tempo prior: autocorrelation is weighted towards this, one octave either side, to pick
+// the felt tempo over its halves and doubles
+const PREFERRED_BPM = 120;
+
+// Pitches analyzed for chroma; below is too coarse at this resolution, above is mostly overtones
+const CHROMA_MIN_HZ = 55;
+const CHROMA_MAX_HZ = 2000;
+
+// Krumhansl-Kessler probe-tone profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * Average blocks of samples down to roughly the analysis rate
+ */
+function downsample(samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_SAMPLE_RATE));
+  if (factor === 1) {
+    return { samples, sampleRate };
+  }
+
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j]!;
+    output[i] = sum / factor;
+  }
+  return { samples: output, sampleRate: sampleRate / factor };
+}
+
+/**
+ * In-place iterative radix-2 FFT; size must be a power of two
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const size = real.length;
+
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j]!, real[i]!];
+      [imag[i], imag[j]] = [imag[j]!, imag[i]!];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tReal = real[b]! * wReal - imag[b]! * wImag;
+        const tImag = real[b]! * wImag + imag[b]! * wReal;
+        real[b] = real[a]! - tReal;
+        imag[b] = imag[a]! - tImag;
+        real[a]! += tReal;
+        imag[a]! += tImag;
+        [wReal, wImag] = [wReal * stepReal - wImag * stepImag, wReal * stepImag + wImag * stepReal];
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude spectrum of every Hann-windowed frame
+ */
+function* spectra(samples: Float32Array, frameSize: number, hopSize: number): Generator<Float64Array> {
+  const window = new Float64Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+  }
+
+  const real = new Float64Array(frameSize);
+  const imag = new Float64Array(frameSize);
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) {
+      real[i] = samples[start + i]! * window[i]!;
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    const magnitudes = new Float64Array(frameSize / 2);
+    for (let bin = 0; bin < magnitudes.length; bin++) {
+      magnitudes[bin] = Math.hypot(real[bin]!, imag[bin]!);
+    }
+    yield magnitudes;
+  }
+}
+
+/**
+ * Onset strength per frame: the summed increase in log-compressed spectral energy
+ * The local average is subtracted so only sharp rises (note attacks, drum hits) remain.
+ */
+function onsetEnvelope(samples: Float32Array): Float64Array {
+  const flux: number[] = [];
+  let previous: Float64Array | null = null;
+
+  for (const magnitudes of spectra(samples, ONSET_FRAME_SIZE, ONSET_HOP_SIZE)) {
+    const compressed = magnitudes.map((value) => Math.log1p(100 * value));
+    let sum = 0;
+    if (previous) {
+      for (let bin = 0; bin < compressed.length; bin++) {
+        sum += Math.max(0, compressed[bin]! - previous[bin]!);
+      }
+    }
+    flux.push(sum);
+    previous = compressed;
+  }
+
+  const envelope = new Float64Array(flux.length);
+  const radius = 8;
+  for (let i = 0; i < flux.length; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(flux.length - 1, i + radius); j++) {
+      sum += flux[j]!;
+      count++;
+    }
+    envelope[i] = Math.max(0, flux[i]! - sum / count);
+  }
+  return envelope;
+}
+
+/**
+ * Estimate tempo from the periodicity of the onset envelope
+ */
+function estimateTempo(samples: Float32Array, sampleRate: number): number {
+  const envelope = onsetEnvelope(samples);
+  const framesPerSecond = sampleRate / ONSET_HOP_SIZE;
+  const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+  const maxLag = Math.ceil((60 * framesPerSecond) / MIN_BPM);
+  if (envelope.length <= maxLag * 2) {
+    throw new Error('Audio is too short to estimate tempo');
+  }
+
+  let energy = 0;
+  for (const value of envelope) energy += value * value;
+  if (energy === 0) {
+    throw new Error('Audio has no detectable onsets');
+  }
+
+  // Normalized autocorrelation per lag, then the tempo prior
+  const correlation = new Float64Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < envelope.length; i++) sum += envelope[i]! * envelope[i + lag]!;
+    correlation[lag] = sum / energy;
+  }
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * framesPerSecond) / lag;
+    const prior = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+    const score = correlation[lag]! * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision
+  const before = correlation[bestLag - 1]!;
+  const peak = correlation[bestLag]!;
+  const after = correlation[bestLag + 1]!;
+  const curvature = before - 2 * peak + after;
+  const offset = curvature < 0 ? (0.5 * (before - after)) / curvature : 0;
+  const tempo = (60 * framesPerSecond) / (bestLag + offset);
+
+  return Math.round(tempo * 10) / 10;
+}
+
+/**
+ * Energy per pitch class (C = 0) across the whole clip
+ */
+function chromaProfile(samples: Float32Array, sampleRate: number): number[] {
+  const chroma = new Array<number>(12).fill(0);
+  const binHz = sampleRate / CHROMA_FRAME_SIZE;
+  const firstBin = Math.ceil(CHROMA_MIN_HZ / binHz);
+  const lastBin = Math.min(CHROMA_FRAME_SIZE / 2 - 1, Math.floor(CHROMA_MAX_HZ / binHz));
+
+  const pitchClasses: number[] = [];
+  for (let bin = 0; bin <= lastBin; bin++) {
+    const midiNote = 69 + 12 * Math.log2((bin * binHz) / 440);
+    pitchClasses[bin] = ((Math.round(midiNote) % 12) + 12) % 12;
+  }
+
+  for (const magnitudes of spectra(samples, CHROMA_FRAME_SIZE, CHROMA_HOP_SIZE)) {
+    // Each frame is normalized so loud passages don't dominate the profile
+    const frame = new Array<number>(12).fill(0);
+    let total = 0;
+    for (let bin = firstBin; bin <= lastBin; bin++) {
+      const energy = magnitudes[bin]! ** 2;
+      frame[pitchClasses[bin]!]! += energy;
+      total += energy;
+    }
+    if (total > 0) {
+      for (let pitchClass = 0; pitchClass < 12; pitchClass++) chroma[pitchClass]! += frame[pitchClass]! / total;
+    }
+  }
+  return chroma;
+}
+
+/**
+ * Pearson correlation of two equal-length vectors
+ */
+function correlate(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i]! - meanA) * (b[i]! - meanB);
+    varianceA += (a[i]! - meanA) ** 2;
+    varianceB += (b[i]! - meanB) ** 2;
+  }
+  return varianceA && varianceB ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+/**
+ * Pick the major or minor key whose profile best matches the chroma
+ */
+function estimateKey(samples: Float32Array, sampleRate: number): string {
+  const chroma = chromaProfile(samples, sampleRate);
+  const scores: { pitchClass: number; mode: KeyMode; score: number }[] = [];
+
+  for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+    // Rotate the chroma so this pitch class lines up with the profile's tonic
+    const rotated = chroma.map((_, i) => chroma[(i + pitchClass) % 12]!);
+    scores.push({ pitchClass, mode: 'major', score: correlate(rotated, MAJOR_PROFILE) });
+    scores.push({ pitchClass, mode: 'minor', score: correlate(rotated, MINOR_PROFILE) });
+  }
+  scores.sort((a, b) => b.score - a.score);
+
+  const best = scores[0]!;
+  return formatMusicalKey(best.pitchClass, best.mode);
+}
+
+/**
+ * Estimate a clip's tempo and key
+ */
+export function analyzeAudio(samples: Float32Array, sampleRate: number): AudioAnalysis {
+  const clip = downsample(samples, sampleRate);
+  return {
+    tempo: estimateTempo(clip.samples, clip.sampleRate),
+    key: estimateKey(clip.samples, clip.sampleRate),
+  };
+}
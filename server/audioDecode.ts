@@ -0,0 +1,482 @@
+// WAV and FLAC decoding for local audio analysis
+// Decodes to a mono Float32Array in [-1, 1], plus the file's tags (RIFF INFO or Vorbis comments).
+// Only as much audio as the analysis needs is decoded; the duration still covers the whole file.
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+
+export interface AudioTags {
+  artist?: string;
+  title?: string;
+  album?: string;
+  trackNumber?: string;
+}
+
+export interface DecodedAudio {
+  sampleRate: number;
+  // Channels averaged to mono
+  samples: Float32Array;
+  // Seconds, of the whole file
+  duration: number;
+  tags: AudioTags;
+}
+
+export const AUDIO_EXTENSIONS = ['.wav', '.flac'];
+
+/**
+ * Decode a WAV or FLAC file, stopping after `maxSeconds` of audio
+ */
+export async function decodeAudioFile(path: string, maxSeconds: number): Promise<DecodedAudio> {
+  const data = new Uint8Array(await readFile(path));
+  switch (extname(path).toLowerCase()) {
+    case '.wav':
+      return decodeWav(data, maxSeconds);
+    case '.flac':
+      return decodeFlac(data, maxSeconds);
+    default:
+      throw new Error(`Unsupported audio format: ${extname(path)}`);
+  }
+}
+
+/**
+ * Read a 4-character chunk ID
+ */
+function fourCC(data: Uint8Array, offset: number): string {
+  return String.fromCharCode(data[offset]!, data[offset + 1]!, data[offset + 2]!, data[offset + 3]!);
+}
+
+/**
+ * Read a NUL-padded text field
+ */
+function readText(data: Uint8Array, offset: number, length: number): string {
+  return new TextDecoder().decode(data.subarray(offset, offset + length)).replace(/\0+$/, '').trim();
+}
+
+/**
+ * Decode PCM (8/16/24/32-bit integer) or IEEE float WAV
+ */
+export function decodeWav(data: Uint8Array, maxSeconds: number): DecodedAudio {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (fourCC(data, 0) !== 'RIFF' || fourCC(data, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+  const tags: AudioTags = {};
+
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = fourCC(data, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (format === 0xfffe && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, data.length - body);
+    } else if (id === 'LIST' && fourCC(data, body) === 'INFO') {
+      let infoOffset = body + 4;
+      while (infoOffset + 8 <= body + size) {
+        const infoId = fourCC(data, infoOffset);
+        const infoSize = view.getUint32(infoOffset + 4, true);
+        const value = readText(data, infoOffset + 8, infoSize);
+        if (infoId === 'IART') tags.artist = value;
+        else if (infoId === 'INAM') tags.title = value;
+        else if (infoId === 'IPRD') tags.album = value;
+        else if (infoId === 'ITRK') tags.trackNumber = value;
+        infoOffset += 8 + infoSize + (infoSize % 2);
+      }
+    }
+
+    // Chunks are word-aligned
+    offset = body + size + (size % 2);
+  }
+
+  if (dataOffset < 0 || !channels || !sampleRate) {
+    throw new Error('WAV file has no audio data');
+  }
+  if (format !== 1 && format !== 3) {
+    throw new Error(`Unsupported WAV encoding ${format}`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameSize = bytesPerSample * channels;
+  const totalFrames = Math.floor(dataLength / frameSize);
+  const frames = Math.min(totalFrames, Math.floor(maxSeconds * sampleRate));
+  const samples = new Float32Array(frames);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      const at = dataOffset + frame * frameSize + channel * bytesPerSample;
+      if (format === 3) {
+        sum += bitsPerSample === 64 ? view.getFloat64(at, true) : view.getFloat32(at, true);
+      } else if (bitsPerSample === 8) {
+        sum += (data[at]! - 128) / 128;
+      } else if (bitsPerSample === 16) {
+        sum += view.getInt16(at, true) / 32768;
+      } else if (bitsPerSample === 24) {
+        const value = data[at]! | (data[at + 1]! << 8) | (data[at + 2]! << 16);
+        sum += ((value << 8) >> 8) / 8388608;
+      } else {
+        sum += view.getInt32(at, true) / 2147483648;
+      }
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return { sampleRate, samples, duration: totalFrames / sampleRate, tags };
+}
+
+/**
+ * MSB-first bit reader over a byte array
+ */
+class BitReader {
+  private bitPosition = 0;
+
+  constructor(private readonly data: Uint8Array, byteOffset: number) {
+    this.bitPosition = byteOffset * 8;
+  }
+
+  get bytePosition(): number {
+    return this.bitPosition >> 3;
+  }
+
+  get atEnd(): boolean {
+    return this.bitPosition >= this.data.length * 8;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    while (count > 0) {
+      const byte = this.data[this.bitPosition >> 3];
+      if (byte === undefined) {
+        throw new Error('Unexpected end of FLAC data');
+      }
+      const bitOffset = this.bitPosition & 7;
+      const available = 8 - bitOffset;
+      const take = Math.min(available, count);
+      const bits = (byte >> (available - take)) & ((1 << take) - 1);
+      // Multiplication rather than shifting keeps values above 31 bits exact
+      value = value * (1 << take) + bits;
+      count -= take;
+      this.bitPosition += take;
+    }
+    return value;
+  }
+
+  readSigned(count: number): number {
+    if (count === 0) return 0;
+    const value = this.readBits(count);
+    const sign = 2 ** (count - 1);
+    return value >= sign ? value - 2 * sign : value;
+  }
+
+  // Count zero bits up to and including the next 1 bit
+  readUnary(): number {
+    let zeros = 0;
+    for (;;) {
+      const byte = this.data[this.bitPosition >> 3];
+      if (byte === undefined) {
+        throw new Error('Unexpected end of FLAC data');
+      }
+      const bitOffset = this.bitPosition & 7;
+      const remaining = (byte << bitOffset) & 0xff;
+      if (remaining === 0) {
+        zeros += 8 - bitOffset;
+        this.bitPosition += 8 - bitOffset;
+        continue;
+      }
+      const leading = Math.clz32(remaining) - 24;
+      zeros += leading;
+      this.bitPosition += leading + 1;
+      return zeros;
+    }
+  }
+
+  alignToByte(): void {
+    this.bitPosition = (this.bitPosition + 7) & ~7;
+  }
+
+  seekToByte(byteOffset: number): void {
+    this.bitPosition = byteOffset * 8;
+  }
+}
+
+interface FlacStreamInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+}
+
+const FLAC_BLOCK_SIZES = [0, 192, 576, 1152, 2304, 4608, -8, -16, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768];
+const FLAC_SAMPLE_RATES = [0, 88200, 176400, 192000, 8000, 16000, 22050, 24000, 32000, 44100, 48000, 96000];
+const FLAC_SAMPLE_SIZES = [0, 8, 12, 0, 16, 20, 24, 32];
+
+/**
+ * Map Vorbis comment fields onto tags
+ */
+function readVorbisComments(data: Uint8Array, offset: number, tags: AudioTags): void {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const vendorLength = view.getUint32(offset, true);
+  let at = offset + 4 + vendorLength;
+  const count = view.getUint32(at, true);
+  at += 4;
+
+  for (let i = 0; i < count; i++) {
+    const length = view.getUint32(at, true);
+    const comment = decoder.decode(data.subarray(at + 4, at + 4 + length));
+    at += 4 + length;
+
+    const separator = comment.indexOf('=');
+    const name = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1).trim();
+    if (name === 'ARTIST') tags.artist ??= value;
+    else if (name === 'TITLE') tags.title ??= value;
+    else if (name === 'ALBUM') tags.album ??= value;
+    else if (name === 'TRACKNUMBER') tags.trackNumber ??= value;
+  }
+}
+
+/**
+ * Decode a residual block (partitioned Rice coding) into `output` after the warm-up samples
+ */
+function readResidual(reader: BitReader, blockSize: number, predictorOrder: number, output: Int32Array | Float64Array): void {
+  const method = reader.readBits(2);
+  if (method > 1) {
+    throw new Error('Reserved FLAC residual coding method');
+  }
+  const parameterBits = method === 0 ? 4 : 5;
+  const escapeCode = method === 0 ? 15 : 31;
+  const partitionOrder = reader.readBits(4);
+  const partitions = 1 << partitionOrder;
+  const partitionSize = blockSize >> partitionOrder;
+
+  let index = predictorOrder;
+  for (let partition = 0; partition < partitions; partition++) {
+    const count = partition === 0 ? partitionSize - predictorOrder : partitionSize;
+    const parameter = reader.readBits(parameterBits);
+
+    if (parameter === escapeCode) {
+      const rawBits = reader.readBits(5);
+      for (let i = 0; i < count; i++) {
+        output[index++] = reader.readSigned(rawBits);
+      }
+      continue;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const quotient = reader.readUnary();
+      const value = quotient * (1 << parameter) + (parameter ? reader.readBits(parameter) : 0);
+      // Zig-zag: even values are positive, odd negative
+      output[index++] = value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+    }
+  }
+}
+
+/**
+ * Decode one subframe (one channel of a frame)
+ */
+function readSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): Float64Array {
+  const output = new Float64Array(blockSize);
+  if (reader.readBits(1) !== 0) {
+    throw new Error('Invalid FLAC subframe padding');
+  }
+  const type = reader.readBits(6);
+
+  // Wasted bits: low-order zero bits shared by every sample, stripped before coding
+  let wastedBits = 0;
+  if (reader.readBits(1) === 1) {
+    wastedBits = reader.readUnary() + 1;
+  }
+  const sampleBits = bitsPerSample - wastedBits;
+
+  if (type === 0) {
+    output.fill(reader.readSigned(sampleBits));
+  } else if (type === 1) {
+    for (let i = 0; i < blockSize; i++) output[i] = reader.readSigned(sampleBits);
+  } else if (type >= 8 && type <= 12) {
+    const order = type - 8;
+    for (let i = 0; i < order; i++) output[i] = reader.readSigned(sampleBits);
+    readResidual(reader, blockSize, order, output);
+    for (let i = order; i < blockSize; i++) {
+      switch (order) {
+        case 1: output[i]! += output[i - 1]!; break;
+        case 2: output[i]! += 2 * output[i - 1]! - output[i - 2]!; break;
+        case 3: output[i]! += 3 * output[i - 1]! - 3 * output[i - 2]! + output[i - 3]!; break;
+        case 4: output[i]! += 4 * output[i - 1]! - 6 * output[i - 2]! + 4 * output[i - 3]! - output[i - 4]!; break;
+      }
+    }
+  } else if (type >= 32) {
+    const order = type - 31;
+    for (let i = 0; i < order; i++) output[i] = reader.readSigned(sampleBits);
+    const precision = reader.readBits(4) + 1;
+    const shift = reader.readSigned(5);
+    const coefficients: number[] = [];
+    for (let i = 0; i < order; i++) coefficients.push(reader.readSigned(precision));
+    readResidual(reader, blockSize, order, output);
+
+    const divisor = 2 ** shift;
+    for (let i = order; i < blockSize; i++) {
+      let prediction = 0;
+      for (let j = 0; j < order; j++) {
+        prediction += coefficients[j]! * output[i - j - 1]!;
+      }
+      output[i]! += Math.floor(prediction / divisor);
+    }
+  } else {
+    throw new Error(`Reserved FLAC subframe type ${type}`);
+  }
+
+  if (wastedBits) {
+    const scale = 2 ** wastedBits;
+    for (let i = 0; i < blockSize; i++) output[i]! *= scale;
+  }
+  return output;
+}
+
+/**
+ * Skip the UTF-8-style coded frame or sample number in a frame header
+ */
+function skipCodedNumber(reader: BitReader): void {
+  const first = reader.readBits(8);
+  let extraBytes = 0;
+  for (let mask = 0x80; first & mask && mask > 1; mask >>= 1) extraBytes++;
+  for (let i = 1; i < extraBytes; i++) reader.readBits(8);
+}
+
+/**
+ * Decode a FLAC stream: STREAMINFO and Vorbis comments, then frames until `maxSeconds`
+ */
+export function decodeFlac(data: Uint8Array, maxSeconds: number): DecodedAudio {
+  if (fourCC(data, 0) !== 'fLaC') {
+    throw new Error('Not a FLAC file');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tags: AudioTags = {};
+  let info: FlacStreamInfo | null = null;
+
+  // Metadata blocks
+  let offset = 4;
+  for (;;) {
+    const header = data[offset]!;
+    const isLast = (header & 0x80) !== 0;
+    const type = header & 0x7f;
+    const length = (data[offset + 1]! << 16) | (data[offset + 2]! << 8) | data[offset + 3]!;
+    const body = offset + 4;
+
+    if (type === 0) {
+      const reader = new BitReader(data, body + 10);
+      const sampleRate = reader.readBits(20);
+      const channels = reader.readBits(3) + 1;
+      const bitsPerSample = reader.readBits(5) + 1;
+      const totalSamples = reader.readBits(36);
+      info = { sampleRate, channels, bitsPerSample, totalSamples };
+    } else if (type === 4) {
+      readVorbisComments(data, body, tags);
+    }
+
+    offset = body + length;
+    if (isLast || offset >= data.length) break;
+  }
+
+  if (!info) {
+    throw new Error('FLAC file has no STREAMINFO');
+  }
+
+  const maxSamples = Math.floor(maxSeconds * info.sampleRate);
+  const targetSamples = info.totalSamples ? Math.min(info.totalSamples, maxSamples) : maxSamples;
+  const samples = new Float32Array(targetSamples);
+  let decoded = 0;
+  const reader = new BitReader(data, offset);
+
+  while (decoded < targetSamples && reader.bytePosition + 2 < data.length) {
+    // Frame sync code: 14 bits 11111111111110, then a reserved bit and the blocking strategy
+    const sync = view.getUint16(reader.bytePosition, false);
+    if ((sync & 0xfffe) !== 0xfff8) {
+      reader.seekToByte(reader.bytePosition + 1);
+      continue;
+    }
+    reader.readBits(16);
+
+    const blockSizeCode = reader.readBits(4);
+    const sampleRateCode = reader.readBits(4);
+    const channelAssignment = reader.readBits(4);
+    const sampleSizeCode = reader.readBits(3);
+    reader.readBits(1);
+    skipCodedNumber(reader);
+
+    let blockSize = FLAC_BLOCK_SIZES[blockSizeCode]!;
+    if (blockSizeCode === 1) blockSize = 192;
+    else if (blockSizeCode >= 2 && blockSizeCode <= 5) blockSize = 576 << (blockSizeCode - 2);
+    else if (blockSizeCode === 6) blockSize = reader.readBits(8) + 1;
+    else if (blockSizeCode === 7) blockSize = reader.readBits(16) + 1;
+    else if (blockSizeCode >= 8) blockSize = 256 << (blockSizeCode - 8);
+
+    // Sample rates coded at the end of the header are only needed to skip past them
+    if (sampleRateCode === 12) reader.readBits(8);
+    else if (sampleRateCode === 13 || sampleRateCode === 14) reader.readBits(16);
+    reader.readBits(8); // CRC-8
+
+    const bitsPerSample = FLAC_SAMPLE_SIZES[sampleSizeCode] || info.bitsPerSample;
+    const channelCount = channelAssignment < 8 ? channelAssignment + 1 : 2;
+    const channels: Float64Array[] = [];
+    for (let channel = 0; channel < channelCount; channel++) {
+      // The side channel of a stereo-decorrelated frame needs one more bit
+      const sideChannel =
+        (channelAssignment === 8 && channel === 1) ||
+        (channelAssignment === 9 && channel === 0) ||
+        (channelAssignment === 10 && channel === 1);
+      channels.push(readSubframe(reader, blockSize, bitsPerSample + (sideChannel ? 1 : 0)));
+    }
+
+    if (channelAssignment === 8) {
+      // Left/side
+      for (let i = 0; i < blockSize; i++) channels[1]![i] = channels[0]![i]! - channels[1]![i]!;
+    } else if (channelAssignment === 9) {
+      // Side/right
+      for (let i = 0; i < blockSize; i++) channels[0]![i] = channels[0]![i]! + channels[1]![i]!;
+    } else if (channelAssignment === 10) {
+      // Mid/side
+      for (let i = 0; i < blockSize; i++) {
+        const side = channels[1]![i]!;
+        const mid = channels[0]![i]! * 2 + (side % 2 !== 0 ? 1 : 0);
+        channels[0]![i] = (mid + side) / 2;
+        channels[1]![i] = (mid - side) / 2;
+      }
+    }
+
+    const scale = 2 ** (bitsPerSample - 1) * channelCount;
+    for (let i = 0; i < blockSize && decoded < targetSamples; i++) {
+      let sum = 0;
+      for (const channel of channels) sum += channel[i]!;
+      samples[decoded++] = sum / scale;
+    }
+
+    reader.alignToByte();
+    reader.readBits(16); // CRC-16
+  }
+
+  return {
+    sampleRate: info.sampleRate,
+    samples: decoded < targetSamples ? samples.subarray(0, decoded) : samples,
+    duration: (info.totalSamples || decoded) / info.sampleRate,
+    tags,
+  };
+}
@@ -0,0 +1,372 @@
+// Background analysis of the local music library (MUSIC_DIR)
+// Walks the directory for WAV/FLAC rips, measures tempo and key in a worker thread, and links each file
+// to a stored Discogs track by its tags or filename. Files unchanged since the last scan aren't re-analyzed.
+
+import { readdir, stat } from 'node:fs/promises';
+import { basename, dirname, extname, join, relative, sep } from 'node:path';
+import { AUDIO_EXTENSIONS } from './audioDecode';
+import { readStoredTracks } from './libraryStore';
+import { scoreResult, normalizeText, normalizeTitle, similarity, LOW_CONFIDENCE_THRESHOLD } from './bpmMatcher';
+import { readAnalyzedFile, saveAnalyzedFile, type AnalyzedFile } from './analysisBpm';
+import { refreshBpm } from './bpmLookup';
+import { runWithPriority } from './requestQueue';
+import { logError } from './logger';
+import type { AudioWorkerResult } from './audioWorker';
+import type { Track, VinylRecord } from '../client/src/types';
+
+export type AnalysisJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  createdAt: string;
+  finishedAt?: string;
+  progress: {
+    filesTotal: number;
+    filesProcessed: number;
+  };
+  counts: {
+    analyzed: number;
+    unchanged: number;
+    linked: number;
+    unlinked: number;
+    failed: number;
+  };
+  error?: string;
+}
+
+interface JobState {
+  job: AnalysisJob;
+  // The user who started the job
+  userId: number;
+  cancelRequested: boolean;
+}
+
+// Artist, title and album as far as the file's path tells them
+interface PathNames {
+  artist?: string;
+  title?: string;
+  album?: string;
+  // Vinyl side and track ("A1") from a filename like "A1 - Title"
+  position?: string;
+}
+
+interface StoredTrack {
+  record: VinylRecord;
+  track: Track;
+}
+
+type TrackLinker = (file: AnalyzedFile, position?: string) => (StoredTrack & { confidence: number }) | null;
+
+// Small nudges that pick the right pressing when the same track is on several releases
+const ALBUM_TIEBREAK_WEIGHT = 0.05;
+const POSITION_TIEBREAK_WEIGHT = 0.05;
+
+const jobs = new Map<string, JobState>();
+
+/**
+ * Return a snapshot of a job so callers can't mutate internal state
+ */
+function snapshot(job: AnalysisJob): AnalysisJob {
+  return {
+    ...job,
+    progress: { ...job.progress },
+    counts: { ...job.counts },
+  };
+}
+
+/**
+ * Every WAV/FLAC file under the music directory, as absolute paths in a stable order
+ */
+async function findAudioFiles(musicDir: string): Promise<string[]> {
+  const entries = await readdir(musicDir, { recursive: true });
+  return entries
+    // Skip dotfiles such as macOS "._" resource forks
+    .filter((entry) => !basename(entry).startsWith('.'))
+    .filter((entry) => AUDIO_EXTENSIONS.includes(extname(entry).toLowerCase()))
+    .sort()
+    .map((entry) => join(musicDir, entry));
+}
+
+/**
+ * Guess names from an "Artist/Album/A1 - Title.flac" or "Artist - Title.wav" style path
+ */
+function namesFromPath(relativePath: string): PathNames {
+  const folders = dirname(relativePath).split(sep).filter((folder) => folder && folder !== '.');
+  let rest = basename(relativePath, extname(relativePath)).replace(/_/g, ' ').trim();
+  const names: PathNames = { album: folders.at(-1) };
+
+  // Leading track number or vinyl position: "03 Title", "A1 - Title", "B2. Title"
+  const numbered = rest.match(/^([A-Z]?\d{1,3})(?:\s*[-.)]\s*|\s+)(.+)$/i);
+  if (numbered) {
+    if (/^[A-Z]/i.test(numbered[1]!)) {
+      names.position = numbered[1]!.toUpperCase();
+    }
+    rest = numbered[2]!;
+  }
+
+  const parts = rest.split(/\s+-\s+/);
+  if (parts.length >= 2) {
+    names.artist = parts[0];
+    names.title = parts.slice(1).join(' - ');
+  } else {
+    names.artist = folders.at(-2);
+    names.title = rest;
+  }
+  return names;
+}
+
+/**
+ * Build a matcher from files to stored Discogs tracks
+ * Tracks are indexed by title word, so each file is only scored against tracks sharing a word with it.
+ */
+function createTrackLinker(tracks: StoredTrack[]): TrackLinker {
+  const byWord = new Map<string, number[]>();
+  tracks.forEach(({ track }, index) => {
+    for (const word of new Set(normalizeTitle(track.title).split(' '))) {
+      byWord.set(word, [...(byWord.get(word) ?? []), index]);
+    }
+  });
+
+  return (file, position) => {
+    if (!file.title) {
+      return null;
+    }
+
+    const candidates = new Set<number>();
+    for (const word of normalizeTitle(file.title).split(' ')) {
+      for (const index of byWord.get(word) ?? []) candidates.add(index);
+    }
+
+    let best: (StoredTrack & { confidence: number }) | null = null;
+    let bestRank = -Infinity;
+    for (const index of candidates) {
+      const { record, track } = tracks[index]!;
+      const { confidence } = scoreResult(
+        { title: track.title, artist: record.artist, duration: track.duration },
+        { id: file.path, title: file.title, artist: file.artist ?? '', tempo: 0, duration: file.duration }
+      );
+
+      let rank = confidence;
+      if (file.album) {
+        rank += ALBUM_TIEBREAK_WEIGHT * similarity(normalizeText(file.album), normalizeText(record.title));
+      }
+      if (position && position === track.position.toUpperCase()) {
+        rank += POSITION_TIEBREAK_WEIGHT;
+      }
+
+      if (rank > bestRank) {
+        bestRank = rank;
+        best = { record, track, confidence };
+      }
+    }
+
+    return best && best.confidence >= LOW_CONFIDENCE_THRESHOLD ? best : null;
+  };
+}
+
+/**
+ * Decode and analyze one file in a fresh worker thread
+ * A worker per file keeps a crash or runaway decode from taking later files with it.
+ */
+function analyzeInWorker(path: string): Promise<AudioWorkerResult> {
+  const worker = new Worker(new URL('./audioWorker.ts', import.meta.url).href);
+  return new Promise<AudioWorkerResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<AudioWorkerResult>) => resolve(event.data);
+    worker.onerror = (event) => reject(new Error(event.message));
+    worker.postMessage(path);
+  }).finally(() => worker.terminate());
+}
+
+/**
+ * Analyze a file if it changed since the last scan, then (re)link it to a Discogs track
+ * Linked tracks get their BPM lookup redone so the analysis shows up on the dashboard.
+ */
+async function processFile(state: JobState, linkTrack: TrackLinker, musicDir: string, path: string): Promise<void> {
+  const { job } = state;
+  const relativePath = relative(musicDir, path);
+  const names = namesFromPath(relativePath);
+  const { mtimeMs, size } = await stat(path);
+  const mtime = Math.floor(mtimeMs);
+
+  let file: AnalyzedFile;
+  const stored = readAnalyzedFile(relativePath);
+  if (stored && stored.mtime === mtime && stored.size === size) {
+    job.counts.unchanged++;
+    // Tracklists fetched since the last scan may give a previously unlinked file a match
+    if (stored.link || stored.error) {
+      return;
+    }
+    file = stored;
+  } else {
+    const result = await analyzeInWorker(path);
+    file = { path: relativePath, mtime, size, artist: names.artist, title: names.title, album: names.album };
+    if (!result.ok) {
+      job.counts.failed++;
+      saveAnalyzedFile({ ...file, error: result.error });
+      logError('warn', 'Audio file analysis failed', {
+        operation: 'processFile',
+        jobId: job.id,
+        path: relativePath,
+        reason: result.error,
+      });
+      return;
+    }
+
+    // Tags beat names guessed from the path
+    file = {
+      ...file,
+      artist: result.tags.artist || file.artist,
+      title: result.tags.title || file.title,
+      album: result.tags.album || file.album,
+      duration: Math.round(result.duration * 10) / 10,
+      tempo: result.analysis.tempo,
+      key: result.analysis.key,
+    };
+    job.counts.analyzed++;
+  }
+
+  const match = linkTrack(file, names.position);
+  file.link = match ? {
+    releaseId: match.record.id,
+    position: match.track.position,
+    title: match.track.title,
+    confidence: match.confidence,
+  } : undefined;
+  saveAnalyzedFile(file);
+
+  if (!match) {
+    job.counts.unlinked++;
+    return;
+  }
+
+  job.counts.linked++;
+  try {
+    await refreshBpm(match.track.title, match.record.artist, match.track.duration);
+  } catch (error) {
+    logError('warn', 'BPM refresh failed for analyzed track', {
+      operation: 'processFile',
+      jobId: job.id,
+      path: relativePath,
+      releaseId: match.record.id,
+      trackPosition: match.track.position,
+    }, error);
+  }
+}
+
+/**
+ * Walk the music directory and process every audio file, one at a time
+ */
+async function runJob(state: JobState, musicDir: string): Promise<void> {
+  const { job } = state;
+  const files = await findAudioFiles(musicDir);
+  job.progress.filesTotal = files.length;
+  const linkTrack = createTrackLinker(readStoredTracks());
+
+  for (const path of files) {
+    if (state.cancelRequested) {
+      break;
+    }
+
+    try {
+      await processFile(state, linkTrack, musicDir, path);
+    } catch (error) {
+      job.counts.failed++;
+      logError('warn', 'Audio file processing failed', {
+        operation: 'runAnalysisJob',
+        jobId: job.id,
+        path,
+      }, error);
+    }
+    job.progress.filesProcessed++;
+  }
+}
+
+/**
+ * Start an analysis job for the music directory
+ * The library is shared, so only one job may run at a time; the running job and who started it are returned instead
+ */
+export function startAnalysisJob(userId: number, musicDir: string): { job: AnalysisJob; created: boolean; userId: number } {
+  const running = Array.from(jobs.values()).find((state) => state.job.status === 'running');
+  if (running) {
+    return { job: snapshot(running.job), created: false, userId: running.userId };
+  }
+
+  const job: AnalysisJob = {
+    id: crypto.randomUUID(),
+    status: 'running',
+    createdAt: new Date().toISOString(),
+    progress: {
+      filesTotal: 0,
+      filesProcessed: 0,
+    },
+    counts: {
+      analyzed: 0,
+      unchanged: 0,
+      linked: 0,
+      unlinked: 0,
+      failed: 0,
+    },
+  };
+  const state: JobState = { job, userId, cancelRequested: false };
+  jobs.set(job.id, state);
+
+  runWithPriority('background', () => runJob(state, musicDir))
+    .then(() => {
+      job.status = state.cancelRequested ? 'cancelled' : 'completed';
+    })
+    .catch((error) => {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      logError('error', 'Analysis job failed', {
+        operation: 'runAnalysisJob',
+        jobId: job.id,
+        musicDir,
+      }, error);
+    })
+    .finally(() => {
+      job.finishedAt = new Date().toISOString();
+    });
+
+  return { job: snapshot(job), created: true, userId };
+}
+
+/**
+ * Look up a job a user may see: their own, or any job for admins (userId null)
+ */
+function findJob(userId: number | null, id: string): JobState | null {
+  const state = jobs.get(id);
+  return state && (userId === null || state.userId === userId) ? state : null;
+}
+
+/**
+ * Get a job by ID; null if it doesn't exist or another user started it (unless userId is null)
+ */
+export function getAnalysisJob(userId: number | null, id: string): AnalysisJob | null {
+  const state = findJob(userId, id);
+  return state ? snapshot(state.job) : null;
+}
+
+/**
+ * List a user's jobs (every job for userId null), newest first
+ */
+export function listAnalysisJobs(userId: number | null): AnalysisJob[] {
+  return Array.from(jobs.values())
+    .filter((state) => userId === null || state.userId === userId)
+    .map((state) => snapshot(state.job))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Request cancellation of a running job; the file being analyzed is finished first
+ */
+export function cancelAnalysisJob(userId: number | null, id: string): AnalysisJob | null {
+  const state = findJob(userId, id);
+  if (!state) {
+    return null;
+  }
+  if (state.job.status === 'running') {
+    state.cancelRequested = true;
+  }
+  return snapshot(state.job);
+}
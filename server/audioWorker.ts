@@ -0,0 +1,30 @@
+// Worker thread for audio analysis, so decoding and FFTs don't block the API server
+// Receives an absolute file path, replies with its tags, duration, tempo and key (or the error)
+
+import { decodeAudioFile, type AudioTags } from './audioDecode';
+import { analyzeAudio, type AudioAnalysis } from './audioAnalysis';
+
+declare var self: Worker;
+
+// The first two minutes are plenty to settle on a tempo and key, and bound memory per file
+const ANALYSIS_MAX_SECONDS = 120;
+
+export type AudioWorkerResult =
+  | { ok: true; tags: AudioTags; duration: number; analysis: AudioAnalysis }
+  | { ok: false; error: string };
+
+self.onmessage = async (event: MessageEvent<string>) => {
+  let result: AudioWorkerResult;
+  try {
+    const audio = await decodeAudioFile(event.data, ANALYSIS_MAX_SECONDS);
+    result = {
+      ok: true,
+      tags: audio.tags,
+      duration: audio.duration,
+      analysis: analyzeAudio(audio.samples, audio.sampleRate),
+    };
+  } catch (error) {
+    result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(result);
+};
@@ -0,0 +1,123 @@
+// Request authentication: session cookies or bearer tokens resolved to the signed-in user
+// Routes read the user (and their Discogs credentials) from res.locals via the helpers below
+
+import type express from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import { getSessionUser, discogsAuthFor, type Session, type User } from './users';
+import type { DiscogsAuth } from './discogs';
+
+export const SESSION_COOKIE = 'vd_session';
+
+// Shared secret for Prometheus scrapers, which can't sign in
+const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+
+/**
+ * Read the session token from an "Authorization: Bearer" header or the session cookie
+ */
+export function sessionToken(req: express.Request): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  for (const cookie of (req.headers.cookie || '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('=')) || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Send the session cookie for a new session
+ */
+export function setSessionCookie(req: express.Request, res: express.Response, session: Session): void {
+  res.cookie(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+    path: '/',
+    expires: new Date(session.expiresAt),
+  });
+}
+
+/**
+ * Clear the session cookie
+ */
+export function clearSessionCookie(res: express.Response): void {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Middleware rejecting requests without a valid session; the user is kept in res.locals.user
+ * The WWW-Authenticate header tells a missing session apart from Discogs rejecting the user's token
+ */
+export function requireUser(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const token = sessionToken(req);
+  const user = token ? getSessionUser(token) : null;
+  if (!user) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({
+      error: 'Not signed in',
+      message: 'Sign in to use vinyl-dash'
+    });
+    return;
+  }
+
+  res.locals.user = user;
+  next();
+}
+
+/**
+ * Middleware for routes only admins (ADMIN_USERS) may use; must come after requireUser
+ */
+export function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  if (!currentUser(res).isAdmin) {
+    res.status(403).json({
+      error: 'Admins only',
+      message: 'Only admins can use this endpoint'
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * Middleware for /metrics: a bearer token matching METRICS_TOKEN, or else an admin's session
+ */
+export function requireMetricsAccess(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const token = sessionToken(req);
+  if (METRICS_TOKEN && token) {
+    const expected = Buffer.from(METRICS_TOKEN);
+    const actual = Buffer.from(token);
+    if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+      next();
+      return;
+    }
+  }
+  requireUser(req, res, () => requireAdmin(req, res, next));
+}
+
+/**
+ * The signed-in user of a request that passed requireUser
+ */
+export function currentUser(res: express.Response): User {
+  return res.locals.user as User;
+}
+
+/**
+ * The signed-in user's Discogs credentials; sends 400 and returns null if they haven't connected Discogs
+ */
+export function requireDiscogs(res: express.Response): { userId: number; username: string; auth: DiscogsAuth } | null {
+  const user = currentUser(res);
+  const auth = discogsAuthFor(user);
+  if (!user.discogsUsername || !auth) {
+    res.status(400).json({
+      error: 'Discogs account not connected',
+      message: 'Connect your Discogs account to load your collection'
+    });
+    return null;
+  }
+  return { userId: user.id, username: user.discogsUsername, auth };
+}
@@ -0,0 +1,253 @@
+// BPM data access shared by the HTTP routes and background jobs
+// Reads go Redis hot cache -> local library store -> provider chain; stale entries and rows are served while they refresh in the background
+
+import { getCache, setCache, generateCacheKey } from './redis';
+import { createApiError } from './apiClient';
+import {
+  readBpmResult,
+  saveBpmResult,
+  isStale,
+  refreshInBackground,
+  BPM_MAX_AGE_MS,
+  BPM_NOT_FOUND_MAX_AGE_MS,
+} from './libraryStore';
+import { rankResults, LOW_CONFIDENCE_THRESHOLD, MAX_CANDIDATES, type MatchQuery } from './bpmMatcher';
+import { registerBpmProvider, getBpmProviderChain, type BpmProvider, type BpmSearchResult } from './bpmProviders';
+import { getSongBpmProvider, BPM_LOOKUP_TASK } from './getSongBpm';
+import { localBpmProvider } from './localBpm';
+import { analysisBpmProvider } from './analysisBpm';
+import { parseMusicalKey } from './musicalKey';
+import { registerQueueTask } from './requestQueue';
+import { logError } from './logger';
+import type { BpmCandidate, BpmInfo } from '../client/src/types';
+
+registerBpmProvider(localBpmProvider);
+registerBpmProvider(analysisBpmProvider);
+registerBpmProvider(getSongBpmProvider);
+
+// A provider search left queued by a restart is redone as a full lookup, so its result gets stored
+registerQueueTask(BPM_LOOKUP_TASK, (query: MatchQuery) => refreshBpm(query.title, query.artist, query.duration));
+
+/**
+ * Look up BPM data for a song by a given artist
+ * The track duration, when known, improves match scoring but is not part of the lookup key.
+ * Returns null when no provider has a matching result (not-found results are stored too)
+ */
+export async function lookupBpm(songTitle: string, artistName: string, duration?: string): Promise<BpmInfo | null> {
+  // Check cache first (normalize to lowercase for consistent keys); a stale entry is served while it refreshes
+  const cacheKey = generateCacheKey('bpm', {
+    song: songTitle.toLowerCase(),
+    artist: artistName.toLowerCase()
+  });
+  try {
+    const cached = await getCache<BpmInfo>(cacheKey);
+    if (cached) {
+      if (cached.stale) {
+        refreshInBackground(cacheKey, () => fetchBpm(songTitle, artistName, duration));
+      }
+      return cached.value;
+    }
+  } catch (cacheError) {
+    logError('warn', 'Cache get error in BPM lookup', {
+      operation: 'lookupBpm',
+      cacheKey,
+      song: songTitle,
+      artist: artistName,
+    }, cacheError);
+    // Continue without cache
+  }
+
+  // Then the library store
+  try {
+    const stored = readBpmResult(songTitle.toLowerCase(), artistName.toLowerCase());
+    if (stored) {
+      const maxAge = stored.value ? BPM_MAX_AGE_MS : BPM_NOT_FOUND_MAX_AGE_MS;
+      if (isStale(stored.fetchedAt, maxAge)) {
+        refreshInBackground(cacheKey, () => fetchBpm(songTitle, artistName, duration));
+      }
+      return stored.value;
+    }
+  } catch (storeError) {
+    logError('warn', 'Library store read error in BPM lookup', {
+      operation: 'lookupBpm',
+      song: songTitle,
+      artist: artistName,
+    }, storeError);
+    // Continue with a live fetch
+  }
+
+  return fetchBpm(songTitle, artistName, duration);
+}
+
+/**
+ * Redo a BPM lookup now, replacing the stored and cached result
+ * Used when new local data (such as an analyzed audio file) should win over what was looked up before
+ */
+export async function refreshBpm(songTitle: string, artistName: string, duration?: string): Promise<BpmInfo | null> {
+  return fetchBpm(songTitle, artistName, duration);
+}
+
+/**
+ * Store a BPM result, logging rather than failing the lookup if the store is unavailable
+ */
+function persistBpmResult(songTitle: string, artistName: string, info: BpmInfo | null): void {
+  try {
+    saveBpmResult(songTitle.toLowerCase(), artistName.toLowerCase(), info);
+  } catch (storeError) {
+    logError('warn', 'Library store write error in BPM lookup', {
+      operation: 'fetchBpm',
+      song: songTitle,
+      artist: artistName,
+    }, storeError);
+    // Continue without persisting
+  }
+}
+
+interface ProviderResult {
+  info: BpmInfo;
+  // The match itself, offered as a candidate when another provider's result wins
+  best: BpmCandidate;
+}
+
+/**
+ * Search one provider and turn its best-scoring result into BpmInfo; null when it has no result
+ */
+async function lookupWithProvider(provider: BpmProvider, query: MatchQuery): Promise<ProviderResult | null> {
+  const results = (await provider.search(query))
+    .map((raw) => provider.normalize(raw))
+    .filter((result): result is BpmSearchResult => result !== null);
+
+  // Score every result on title, artist, and duration similarity; best match first
+  const ranked = rankResults(query, results);
+  const best = ranked[0];
+  if (!best) {
+    return null;
+  }
+
+  if (best.candidate.confidence < LOW_CONFIDENCE_THRESHOLD) {
+    logError('warn', 'Low-confidence BPM match', {
+      operation: 'lookupWithProvider',
+      provider: provider.name,
+      song: query.title,
+      artist: query.artist,
+      matchedTitle: best.candidate.title,
+      matchedArtist: best.candidate.artist,
+      confidence: best.candidate.confidence,
+    });
+  }
+
+  const info: BpmInfo = {
+    id: best.result.id,
+    title: best.result.title || query.title,
+    tempo: best.result.tempo || 0,
+    key: best.result.key,
+    parsedKey: parseMusicalKey(best.result.key) ?? undefined,
+    danceability: best.result.danceability,
+    acousticness: best.result.acousticness,
+    confidence: best.candidate.confidence,
+    lowConfidence: best.candidate.confidence < LOW_CONFIDENCE_THRESHOLD,
+    candidates: ranked.slice(1, MAX_CANDIDATES + 1).map((scored) => scored.candidate),
+    source: provider.name,
+  };
+  return { info, best: best.candidate };
+}
+
+/**
+ * Combine provider results, in chain order, into one
+ * The first confident result supplies the tempo (and its source); later confident results fill in
+ * a missing key or audio features, and every provider's best match is kept as a candidate.
+ */
+function mergeResults(results: ProviderResult[]): BpmInfo | null {
+  const primary = results.find(({ info }) => !info.lowConfidence) ?? results[0];
+  if (!primary) {
+    return null;
+  }
+
+  const merged: BpmInfo = { ...primary.info };
+  const candidates = [...(primary.info.candidates ?? [])];
+  for (const { info, best } of results) {
+    if (info === primary.info) continue;
+
+    if (!info.lowConfidence) {
+      if (!merged.key && info.key) {
+        merged.key = info.key;
+        merged.parsedKey = info.parsedKey;
+      }
+      merged.danceability ??= info.danceability;
+      merged.acousticness ??= info.acousticness;
+    }
+    candidates.push(best);
+  }
+  merged.candidates = candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+  return merged;
+}
+
+/**
+ * Query the provider chain, merge the results, and write them to the store and hot cache (24 hours)
+ * A provider that fails is skipped; the error is only thrown if no provider returned anything.
+ */
+async function fetchBpm(songTitle: string, artistName: string, duration?: string): Promise<BpmInfo | null> {
+  const cacheKey = generateCacheKey('bpm', {
+    song: songTitle.toLowerCase(),
+    artist: artistName.toLowerCase()
+  });
+  const query: MatchQuery = { title: songTitle, artist: artistName, duration };
+
+  const chain = getBpmProviderChain();
+  if (chain.length === 0) {
+    logError('error', 'No BPM provider configured', {
+      operation: 'fetchBpm',
+      song: songTitle,
+      artist: artistName,
+    });
+    throw createApiError(500, 'No BPM provider configured', 'Please set GETSONGBPM_API_KEY, LOCAL_BPM_FILE or MUSIC_DIR in your .env file');
+  }
+
+  const results: ProviderResult[] = [];
+  let firstError: unknown = null;
+  for (const provider of chain) {
+    try {
+      const result = await lookupWithProvider(provider, query);
+      if (result) {
+        results.push(result);
+        // Nothing left for later providers to add
+        if (!result.info.lowConfidence && result.info.key) break;
+      }
+    } catch (error) {
+      logError('warn', 'BPM provider lookup failed', {
+        operation: 'fetchBpm',
+        provider: provider.name,
+        song: songTitle,
+        artist: artistName,
+      }, error);
+      firstError ??= error;
+    }
+  }
+
+  if (results.length === 0 && firstError) {
+    throw firstError;
+  }
+
+  const merged = mergeResults(results);
+  persistBpmResult(songTitle, artistName, merged);
+  if (!merged) {
+    return null;
+  }
+
+  // Cache the response for 24 hours (86400 seconds)
+  try {
+    await setCache(cacheKey, merged, 86400);
+  } catch (cacheError) {
+    logError('warn', 'Cache set error in BPM lookup', {
+      operation: 'fetchBpm',
+      cacheKey,
+      song: songTitle,
+      artist: artistName,
+    }, cacheError);
+    // Continue without caching
+  }
+
+  return merged;
+}
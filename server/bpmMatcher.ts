@@ -0,0 +1,214 @@
+// Confidence-scored matching of BPM provider search results against a Discogs track
+// Titles and artists are normalized before comparison so that remaster tags, featured artists,
+// Discogs disambiguation suffixes, and diacritics don't hide an otherwise exact match.
+
+import type { BpmSearchResult } from './bpmProviders';
+import type { BpmCandidate } from '../client/src/types';
+
+// Matches scoring below this are returned flagged as low confidence
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Number of ranked candidates returned alongside the best match
+export const MAX_CANDIDATES = 5;
+
+// Relative weight of each signal; duration only counts when both sides have one
+const TITLE_WEIGHT = 0.5;
+const ARTIST_WEIGHT = 0.4;
+const DURATION_WEIGHT = 0.1;
+
+// Similarity below this is what unrelated strings typically score, so it counts as no match
+const SIMILARITY_NOISE_FLOOR = 0.3;
+
+// Durations further apart than this are considered unrelated
+const DURATION_TOLERANCE_SECONDS = 30;
+
+export interface MatchQuery {
+  title: string;
+  artist: string;
+  duration?: string;
+}
+
+export interface ScoredResult {
+  result: BpmSearchResult;
+  candidate: BpmCandidate;
+}
+
+/**
+ * Lowercase, fold diacritics, and strip punctuation
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a song title, removing remaster tags and featured artists
+ */
+export function normalizeTitle(title: string): string {
+  const stripped = title
+    // "(Remastered 2011)", "[feat. Someone]", "(Mono)" and friends
+    .replace(/[([][^)\]]*\b(remaster(ed)?|feat\.?|ft\.|featuring|mono|stereo|explicit|bonus track|album version|single version)\b[^)\]]*[)\]]/gi, ' ')
+    // "Song - Remastered 2009", "Song - 2011 Remaster"
+    .replace(/\s+-\s+[^-]*\bremaster(ed)?\b.*$/i, ' ')
+    // Trailing unbracketed "feat. Someone"
+    .replace(/\s+(feat\.?|ft\.|featuring)\s+.*$/i, ' ');
+
+  return normalizeText(stripped);
+}
+
+/**
+ * Normalize a single artist name, removing Discogs "(2)" disambiguation and "*" name variation markers
+ */
+export function normalizeArtist(artist: string): string {
+  const stripped = artist
+    .replace(/\s*\(\d+\)\s*$/, '')
+    .replace(/\*+$/, '');
+
+  return normalizeText(stripped).replace(/^the /, '');
+}
+
+/**
+ * Split a combined artist credit ("A, B & C feat. D") into normalized individual artists
+ */
+export function splitArtists(artist: string): string[] {
+  return artist
+    .split(/\s*(?:,|&|\/|\band\b|\bfeat\.?|\bft\.|\bfeaturing\b|\bvs\.?|\bwith\b|\bx\b)\s*/i)
+    .map(normalizeArtist)
+    .filter((part) => part.length > 0);
+}
+
+/**
+ * Parse "m:ss" / "h:mm:ss" / plain seconds into seconds
+ */
+export function parseDuration(duration: string | number | undefined | null): number | null {
+  if (duration === undefined || duration === null || duration === '') {
+    return null;
+  }
+  if (typeof duration === 'number') {
+    return duration > 0 ? duration : null;
+  }
+
+  const parts = duration.trim().split(':').map((part) => parseInt(part, 10));
+  if (parts.some((part) => isNaN(part))) {
+    return null;
+  }
+
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * Similarity between two normalized strings in [0, 1]
+ * Takes the better of character-level edit similarity and word-overlap (Dice) similarity,
+ * so both typos and reordered words score well.
+ */
+export function similarity(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+
+  const editSimilarity = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+  const tokensA = new Set(a.split(' '));
+  const tokensB = new Set(b.split(' '));
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) {
+      shared++;
+    }
+  }
+  const diceSimilarity = (2 * shared) / (tokensA.size + tokensB.size);
+
+  return Math.max(editSimilarity, diceSimilarity);
+}
+
+/**
+ * Rescale a raw similarity so the noise floor maps to 0 and an exact match stays 1
+ */
+function signal(rawSimilarity: number): number {
+  return Math.max(0, (rawSimilarity - SIMILARITY_NOISE_FLOOR) / (1 - SIMILARITY_NOISE_FLOOR));
+}
+
+/**
+ * Best similarity between any artist in the query credit and any artist in the candidate credit
+ */
+function artistSimilarity(queryArtist: string, candidateArtist: string): number {
+  const queryArtists = splitArtists(queryArtist);
+  const candidateArtists = splitArtists(candidateArtist);
+  let best = similarity(normalizeArtist(queryArtist), normalizeArtist(candidateArtist));
+
+  for (const a of queryArtists) {
+    for (const b of candidateArtists) {
+      best = Math.max(best, similarity(a, b));
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Score a single provider search result against the query
+ */
+export function scoreResult(query: MatchQuery, result: BpmSearchResult): BpmCandidate {
+  const candidateTitle = result.title || '';
+  const candidateArtist = result.artist || '';
+
+  const titleScore = signal(similarity(normalizeTitle(query.title), normalizeTitle(candidateTitle)));
+  const artistScore = signal(artistSimilarity(query.artist, candidateArtist));
+
+  let weighted = titleScore * TITLE_WEIGHT + artistScore * ARTIST_WEIGHT;
+  let totalWeight = TITLE_WEIGHT + ARTIST_WEIGHT;
+
+  const queryDuration = parseDuration(query.duration);
+  const candidateDuration = parseDuration(result.duration);
+  if (queryDuration !== null && candidateDuration !== null) {
+    const durationScore = Math.max(0, 1 - Math.abs(queryDuration - candidateDuration) / DURATION_TOLERANCE_SECONDS);
+    weighted += durationScore * DURATION_WEIGHT;
+    totalWeight += DURATION_WEIGHT;
+  }
+
+  return {
+    id: result.id || '',
+    title: candidateTitle,
+    artist: candidateArtist,
+    tempo: result.tempo || 0,
+    key: result.key || undefined,
+    confidence: Math.round((weighted / totalWeight) * 100) / 100,
+  };
+}
+
+/**
+ * Score and rank all search results, best first
+ */
+export function rankResults(query: MatchQuery, results: BpmSearchResult[]): ScoredResult[] {
+  return results
+    .map((result) => ({ result, candidate: scoreResult(query, result) }))
+    .sort((a, b) => b.candidate.confidence - a.candidate.confidence);
+}
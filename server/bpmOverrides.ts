@@ -0,0 +1,131 @@
+// User-supplied BPM/key corrections per track, kept per user
+// Overrides live in the library store, so they survive cache expiry and always win over lookups
+
+import { db } from './db';
+import { parseMusicalKey } from './musicalKey';
+import { readBpmResult } from './libraryStore';
+import type { BpmInfo, BpmOverride } from '../client/src/types';
+
+const upsertOverride = db.query(`
+  INSERT INTO bpm_overrides (user_id, release_id, position, tempo, musical_key, notes, updated_at)
+  VALUES ($userId, $releaseId, $position, $tempo, $key, $notes, $updatedAt)
+  ON CONFLICT(user_id, release_id, position) DO UPDATE SET
+    tempo = excluded.tempo,
+    musical_key = excluded.musical_key,
+    notes = excluded.notes,
+    updated_at = excluded.updated_at
+`);
+interface OverrideRow {
+  release_id: number;
+  position: string;
+  tempo: number | null;
+  musical_key: string | null;
+  notes: string | null;
+  updated_at: number;
+}
+
+const selectOverride = db.query<OverrideRow, { userId: number; releaseId: number; position: string }>(`
+  SELECT * FROM bpm_overrides WHERE user_id = $userId AND release_id = $releaseId AND position = $position
+`);
+const deleteOverride = db.query(`
+  DELETE FROM bpm_overrides WHERE user_id = $userId AND release_id = $releaseId AND position = $position
+`);
+
+/**
+ * Map a bpm_overrides row to its API shape
+ */
+function toOverride(row: OverrideRow): BpmOverride {
+  return {
+    releaseId: row.release_id,
+    position: row.position,
+    tempo: row.tempo ?? undefined,
+    key: row.musical_key ?? undefined,
+    notes: row.notes ?? undefined,
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Get a user's override for a track, if one was set
+ */
+export function getBpmOverride(userId: number, releaseId: number, position: string): BpmOverride | null {
+  const row = selectOverride.get({ userId, releaseId, position });
+  return row ? toOverride(row) : null;
+}
+
+/**
+ * Create or replace a user's override for a track
+ */
+export function saveBpmOverride(
+  userId: number,
+  releaseId: number,
+  position: string,
+  values: { tempo?: number; key?: string; notes?: string }
+): BpmOverride {
+  upsertOverride.run({
+    userId,
+    releaseId,
+    position,
+    tempo: values.tempo ?? null,
+    key: values.key ?? null,
+    notes: values.notes ?? null,
+    updatedAt: Date.now(),
+  });
+  return getBpmOverride(userId, releaseId, position)!;
+}
+
+/**
+ * Remove a user's override for a track; returns false if there was none
+ */
+export function deleteBpmOverride(userId: number, releaseId: number, position: string): boolean {
+  return deleteOverride.run({ userId, releaseId, position }).changes > 0;
+}
+
+/**
+ * Whether an override supplies both tempo and key, making a lookup unnecessary
+ */
+export function isCompleteOverride(override: BpmOverride): boolean {
+  return override.tempo !== undefined && override.key !== undefined;
+}
+
+/**
+ * Layer an override on top of a looked-up result (which may be missing)
+ * Fields the override leaves unset fall back to the lookup; without either, the tempo stays unset.
+ */
+export function applyBpmOverride(lookedUp: BpmInfo | null, override: BpmOverride, title: string): BpmInfo {
+  const key = override.key ?? lookedUp?.key;
+  const result: BpmInfo = {
+    ...lookedUp,
+    id: lookedUp?.id || `manual:${override.releaseId}:${override.position}`,
+    title: lookedUp?.title || title,
+    tempo: override.tempo ?? lookedUp?.tempo,
+    key,
+    parsedKey: parseMusicalKey(key) ?? undefined,
+    overridden: true,
+    notes: override.notes,
+  };
+  // source names whoever supplied the tempo; a corrected tempo is no longer a guess, so drop the match diagnostics
+  if (override.tempo !== undefined) {
+    result.source = 'manual';
+    result.confidence = undefined;
+    result.lowConfidence = undefined;
+    result.candidates = undefined;
+  }
+  return result;
+}
+
+/**
+ * Resolve a track's BPM from local data only: its override layered over the stored lookup
+ * Never calls GetSongBPM, so it is safe to run across many tracks at once.
+ */
+export function readTrackBpm(
+  userId: number,
+  releaseId: number,
+  position: string,
+  title: string,
+  artist: string
+): BpmInfo | null {
+  const stored = readBpmResult(title.toLowerCase(), artist.toLowerCase())?.value ?? null;
+  const override = getBpmOverride(userId, releaseId, position);
+  return override ? applyBpmOverride(stored, override, title) : stored;
+}
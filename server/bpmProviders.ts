@@ -0,0 +1,63 @@
+// BPM provider registry: each backend that can look up a track's tempo and key
+// Providers are tried in BPM_PROVIDERS order (default "local,analysis,getsongbpm"); unconfigured ones are skipped
+
+import { createRateLimiter } from './rateLimiter';
+import type { MatchQuery } from './bpmMatcher';
+import type { BpmProviderName } from '../client/src/types';
+
+const DEFAULT_PROVIDER_ORDER: BpmProviderName[] = ['local', 'analysis', 'getsongbpm'];
+
+/**
+ * A search result in the shape every provider normalizes to, ready for match scoring
+ */
+export interface BpmSearchResult {
+  id: string;
+  title: string;
+  artist: string;
+  tempo: number | string;
+  key?: string;
+  // "m:ss" or seconds
+  duration?: string | number;
+  danceability?: number;
+  acousticness?: number;
+}
+
+export interface BpmProvider<Raw = any> {
+  // Also the BpmInfo source of its results, and the name of its rate limiter
+  name: BpmProviderName;
+  // Registered with the rate limiter when set; local providers need none
+  rateLimit?: { maxRequests: number; windowMs: number };
+  // Whether the provider has what it needs (API key, data file) to be used
+  isConfigured(): boolean;
+  // Raw results that might match the query; scoring happens after normalize
+  search(query: MatchQuery): Promise<Raw[]>;
+  // Map a raw result to the common shape; null drops it
+  normalize(raw: Raw): BpmSearchResult | null;
+}
+
+const providers = new Map<BpmProviderName, BpmProvider>();
+
+/**
+ * Add a provider to the registry, creating its rate limiter
+ */
+export function registerBpmProvider(provider: BpmProvider): void {
+  providers.set(provider.name, provider);
+  if (provider.rateLimit) {
+    createRateLimiter(provider.name, provider.rateLimit.maxRequests, provider.rateLimit.windowMs);
+  }
+}
+
+/**
+ * Configured providers in fallback order
+ */
+export function getBpmProviderChain(): BpmProvider[] {
+  const configuredOrder = (process.env.BPM_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean) as BpmProviderName[];
+  const order = configuredOrder.length ? configuredOrder : DEFAULT_PROVIDER_ORDER;
+
+  return order
+    .map((name) => providers.get(name))
+    .filter((provider): provider is BpmProvider => !!provider && provider.isConfigured());
+}
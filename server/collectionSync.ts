@@ -0,0 +1,146 @@
+// Incremental collection sync
+// Walks a user's whole collection most recently added first and stops at the first item already stored, so
+// keeping up with new additions usually costs one request. Removals, and edits to older items (folder, rating,
+// notes), only show up in a full pass, which runs every few hours or as soon as the item counts disagree.
+
+import { fetchCollectionAddedPage, type DiscogsAuth } from './discogs';
+import {
+  readCollectionSync,
+  readCollectionInstanceIds,
+  saveCollectionSync,
+  refreshInBackground,
+  isStale,
+  isInvalidated,
+  type CollectionSyncState,
+} from './libraryStore';
+import { logError, logInfo } from './logger';
+import type { CacheMetadata, VinylRecord } from '../client/src/types';
+
+// New items are looked for at most this often; requests in between are answered from the store
+export const COLLECTION_SYNC_INTERVAL_MS = 60 * 1000; // 1 minute
+export const COLLECTION_RECONCILE_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const syncPageSize = 100;
+
+// One sync per user at a time; concurrent callers share it
+const syncsInProgress = new Map<number, Promise<CollectionSyncState>>();
+
+/**
+ * Fetch the items added since the last sync, newest first, until reaching one that's already stored
+ * Also reports whether stored and new items add up to the count Discogs reports; if not, something was removed.
+ */
+async function syncNewItems(userId: number, username: string, auth: DiscogsAuth): Promise<{ state: CollectionSyncState; countMatches: boolean }> {
+  const known = readCollectionInstanceIds(userId);
+  const added: VinylRecord[] = [];
+  let items = 0;
+
+  for (let page = 1; ; page++) {
+    const { records, pagination } = await fetchCollectionAddedPage(userId, username, auth, page, syncPageSize);
+    items = pagination.items;
+    const firstKnown = records.findIndex((record) => record.instanceId !== undefined && known.has(record.instanceId));
+    added.push(...(firstKnown === -1 ? records : records.slice(0, firstKnown)));
+    if (firstKnown !== -1 || page >= pagination.pages) {
+      break;
+    }
+  }
+
+  const { state } = saveCollectionSync(userId, added, false);
+  return { state, countMatches: known.size + added.length === items };
+}
+
+/**
+ * Fetch the whole collection and store it, marking stored items Discogs no longer lists as removed
+ * If the collection changes size mid-pass, items may have shifted between pages, so nothing is marked removed.
+ */
+async function reconcileCollection(userId: number, username: string, auth: DiscogsAuth): Promise<CollectionSyncState> {
+  const records: VinylRecord[] = [];
+  let items: number | null = null;
+  let consistent = true;
+
+  for (let page = 1; ; page++) {
+    const response = await fetchCollectionAddedPage(userId, username, auth, page, syncPageSize);
+    consistent = consistent && (items === null || items === response.pagination.items);
+    items = response.pagination.items;
+    records.push(...response.records);
+    if (page >= response.pagination.pages) {
+      break;
+    }
+  }
+
+  const { state, changed } = saveCollectionSync(userId, records, consistent);
+  logInfo('Collection reconciled', {
+    operation: 'reconcileCollection',
+    userId,
+    username,
+    items: records.length,
+    changed,
+    consistent,
+  });
+  return state;
+}
+
+async function runSync(userId: number, username: string, auth: DiscogsAuth): Promise<CollectionSyncState> {
+  if (!readCollectionSync(userId)) {
+    return reconcileCollection(userId, username, auth);
+  }
+
+  const { state, countMatches } = await syncNewItems(userId, username, auth);
+  if (!countMatches || isStale(state.reconciledAt, COLLECTION_RECONCILE_INTERVAL_MS)) {
+    refreshInBackground(`collection-reconcile:${userId}`, () => reconcileCollection(userId, username, auth));
+  }
+  return state;
+}
+
+/**
+ * Sync a user's collection with Discogs: everything the first time, then only items added since
+ * A full pass to find removals starts in the background when one is due.
+ */
+export function syncCollection(userId: number, username: string, auth: DiscogsAuth): Promise<CollectionSyncState> {
+  const inProgress = syncsInProgress.get(userId);
+  if (inProgress) {
+    return inProgress;
+  }
+
+  const sync = runSync(userId, username, auth).finally(() => {
+    syncsInProgress.delete(userId);
+  });
+  syncsInProgress.set(userId, sync);
+  return sync;
+}
+
+/**
+ * Sync a user's collection first if the last sync is over a minute old or was invalidated
+ * If that fails and items are stored, they are served as they are, with cache metadata marking them stale.
+ */
+export async function syncCollectionIfDue(
+  userId: number,
+  username: string,
+  auth: DiscogsAuth
+): Promise<{ state: CollectionSyncState; cache: CacheMetadata }> {
+  let state = readCollectionSync(userId);
+  let synced = false;
+
+  if (!state || isInvalidated(state.syncedAt) || isStale(state.syncedAt, COLLECTION_SYNC_INTERVAL_MS)) {
+    try {
+      state = await syncCollection(userId, username, auth);
+      synced = true;
+    } catch (error) {
+      if (!state) {
+        throw error;
+      }
+      logError('warn', 'Collection sync failed, serving stored items', {
+        operation: 'syncCollectionIfDue',
+        userId,
+        username,
+      }, error);
+    }
+  }
+
+  return {
+    state,
+    cache: {
+      fetchedAt: new Date(state.syncedAt).toISOString(),
+      source: synced ? 'live' : 'store',
+      stale: !synced && (isInvalidated(state.syncedAt) || isStale(state.syncedAt, COLLECTION_SYNC_INTERVAL_MS)),
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// Which tempos and keys the collection already covers, so wanted records that fill gaps can be spotted
+// Built from stored data only: tracklists and BPM results that have been fetched before
+
+import { readCollectionTracks } from './libraryStore';
+import { readTrackBpm } from './bpmOverrides';
+import type { CollectionCoverage, CoveragePoint } from '../client/src/types';
+
+/**
+ * Distinct tempo/key combinations of a user's collection tracks, with their own overrides applied
+ */
+export function collectionCoverage(userId: number): CollectionCoverage {
+  const points = new Map<string, CoveragePoint>();
+  let tracks = 0;
+
+  for (const { record, track } of readCollectionTracks(userId)) {
+    const bpm = readTrackBpm(userId, record.id, track.position, track.title, record.artist);
+    const tempo = bpm ? Math.round(Number(bpm.tempo) * 10) / 10 || undefined : undefined;
+    const camelot = bpm?.parsedKey?.camelot;
+    if (tempo === undefined && camelot === undefined) {
+      continue;
+    }
+
+    tracks++;
+    points.set(`${tempo ?? ''}:${camelot ?? ''}`, { tempo, camelot });
+  }
+
+  return { points: Array.from(points.values()), tracks };
+}
@@ -0,0 +1,436 @@
+// Local SQLite database (via bun:sqlite) holding the durable library store
+// Schema changes are applied as numbered migrations tracked in PRAGMA user_version
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { logError } from './logger';
+
+export const databasePath = process.env.DATABASE_PATH || 'data/vinyl-dash.sqlite';
+
+/**
+ * Ordered list of schema migrations; never edit an entry once released, append a new one instead
+ */
+const migrations: string[] = [
+  // 1: normalized Discogs library and BPM lookups
+  `
+  CREATE TABLE artists (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL
+  );
+
+  CREATE TABLE labels (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL
+  );
+
+  CREATE TABLE releases (
+    id INTEGER PRIMARY KEY,
+    title TEXT NOT NULL,
+    artist TEXT NOT NULL,
+    label TEXT NOT NULL,
+    year INTEGER,
+    cover_image TEXT NOT NULL DEFAULT '',
+    fetched_at INTEGER NOT NULL,
+    tracks_fetched_at INTEGER
+  );
+
+  CREATE TABLE release_artists (
+    release_id INTEGER NOT NULL REFERENCES releases(id) ON DELETE CASCADE,
+    artist_id INTEGER NOT NULL REFERENCES artists(id),
+    sort_order INTEGER NOT NULL,
+    PRIMARY KEY (release_id, sort_order)
+  );
+
+  CREATE TABLE release_labels (
+    release_id INTEGER NOT NULL REFERENCES releases(id) ON DELETE CASCADE,
+    label_id INTEGER NOT NULL REFERENCES labels(id),
+    catno TEXT,
+    sort_order INTEGER NOT NULL,
+    PRIMARY KEY (release_id, sort_order)
+  );
+
+  CREATE TABLE tracks (
+    release_id INTEGER NOT NULL REFERENCES releases(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL,
+    position TEXT NOT NULL,
+    title TEXT NOT NULL,
+    duration TEXT,
+    PRIMARY KEY (release_id, sort_order)
+  );
+
+  CREATE TABLE collection_items (
+    username TEXT NOT NULL,
+    sort_index INTEGER NOT NULL,
+    release_id INTEGER NOT NULL REFERENCES releases(id),
+    fetched_at INTEGER NOT NULL,
+    PRIMARY KEY (username, sort_index)
+  );
+
+  CREATE TABLE collections (
+    username TEXT PRIMARY KEY,
+    items INTEGER NOT NULL,
+    fetched_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE bpm_results (
+    song TEXT NOT NULL,
+    artist TEXT NOT NULL,
+    found INTEGER NOT NULL,
+    external_id TEXT,
+    title TEXT,
+    tempo REAL,
+    musical_key TEXT,
+    danceability REAL,
+    acousticness REAL,
+    fetched_at INTEGER NOT NULL,
+    PRIMARY KEY (song, artist)
+  );
+  `,
+  // 2: match confidence and alternative candidates for BPM lookups
+  `
+  ALTER TABLE bpm_results ADD COLUMN confidence REAL;
+  ALTER TABLE bpm_results ADD COLUMN low_confidence INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE bpm_results ADD COLUMN candidates TEXT;
+  `,
+  // 3: user-supplied BPM/key corrections per track
+  `
+  CREATE TABLE bpm_overrides (
+    release_id INTEGER NOT NULL,
+    position TEXT NOT NULL,
+    tempo REAL,
+    musical_key TEXT,
+    notes TEXT,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (release_id, position)
+  );
+  `,
+  // 4: DJ sets, as ordered lists of tracks
+  `
+  CREATE TABLE dj_sets (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE dj_set_tracks (
+    set_id INTEGER NOT NULL REFERENCES dj_sets(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL,
+    release_id INTEGER NOT NULL,
+    position TEXT NOT NULL,
+    PRIMARY KEY (set_id, sort_order)
+  );
+  `,
+  // 5: genres, styles, and formats for filtering (JSON arrays)
+  `
+  ALTER TABLE releases ADD COLUMN genres TEXT;
+  ALTER TABLE releases ADD COLUMN styles TEXT;
+  ALTER TABLE releases ADD COLUMN formats TEXT;
+  `,
+  // 6: artist credits, full format details, and per-user collection item fields (rating, notes)
+  `
+  ALTER TABLE release_artists ADD COLUMN anv TEXT;
+  ALTER TABLE release_artists ADD COLUMN join_string TEXT;
+  ALTER TABLE releases ADD COLUMN format_details TEXT;
+  ALTER TABLE releases ADD COLUMN rpm INTEGER;
+  ALTER TABLE collection_items ADD COLUMN instance_id INTEGER;
+  ALTER TABLE collection_items ADD COLUMN date_added TEXT;
+  ALTER TABLE collection_items ADD COLUMN rating INTEGER;
+  ALTER TABLE collection_items ADD COLUMN notes TEXT;
+  `,
+  // 7: collections are stored per Discogs folder (0 is the "All" folder), and belong to the app user who synced them
+  // The primary keys change, so rebuild. Rows so far were keyed by Discogs username and can't be attributed to
+  // an account, so they aren't carried over; each user's next load syncs their collection again.
+  `
+  DROP TABLE collection_items;
+  CREATE TABLE collection_items (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    folder_id INTEGER NOT NULL,
+    sort_index INTEGER NOT NULL,
+    release_id INTEGER NOT NULL REFERENCES releases(id),
+    instance_id INTEGER,
+    date_added TEXT,
+    rating INTEGER,
+    notes TEXT,
+    fetched_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, folder_id, sort_index)
+  );
+
+  DROP TABLE collections;
+  CREATE TABLE collections (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    folder_id INTEGER NOT NULL,
+    items INTEGER NOT NULL,
+    fetched_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, folder_id)
+  );
+  `,
+  // 8: wantlists, stored page by page like collections
+  `
+  CREATE TABLE wantlist_items (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    sort_index INTEGER NOT NULL,
+    release_id INTEGER NOT NULL REFERENCES releases(id),
+    date_added TEXT,
+    rating INTEGER,
+    notes TEXT,
+    fetched_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, sort_index)
+  );
+
+  CREATE TABLE wantlists (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    items INTEGER NOT NULL,
+    fetched_at INTEGER NOT NULL
+  );
+  `,
+  // 9: user accounts and sessions; sets and BPM overrides become per user
+  // Rows from before accounts existed get user_id 0 until the first account claims them
+  `
+  CREATE TABLE users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    discogs_username TEXT,
+    discogs_token TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  ALTER TABLE dj_sets ADD COLUMN user_id INTEGER NOT NULL DEFAULT 0;
+  CREATE INDEX dj_sets_user ON dj_sets (user_id);
+
+  CREATE TABLE bpm_overrides_by_user (
+    user_id INTEGER NOT NULL,
+    release_id INTEGER NOT NULL,
+    position TEXT NOT NULL,
+    tempo REAL,
+    musical_key TEXT,
+    notes TEXT,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (user_id, release_id, position)
+  );
+  INSERT INTO bpm_overrides_by_user
+    SELECT 0, release_id, position, tempo, musical_key, notes, updated_at FROM bpm_overrides;
+  DROP TABLE bpm_overrides;
+  ALTER TABLE bpm_overrides_by_user RENAME TO bpm_overrides;
+  `,
+  // 10: Discogs OAuth; an OAuth access token is stored with its secret (personal tokens have none)
+  // Request tokens wait in oauth_requests between the authorize redirect and the callback
+  `
+  ALTER TABLE users ADD COLUMN discogs_token_secret TEXT;
+
+  CREATE TABLE oauth_requests (
+    token TEXT PRIMARY KEY,
+    token_secret TEXT NOT NULL,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at INTEGER NOT NULL
+  );
+  `,
+  // 11: BPM results record which provider they came from; earlier lookups were all GetSongBPM
+  `
+  ALTER TABLE bpm_results ADD COLUMN source TEXT;
+  UPDATE bpm_results SET source = 'getsongbpm' WHERE found = 1;
+  `,
+  // 12: Tempo and key analyzed from local audio files, keyed by path relative to MUSIC_DIR
+  // mtime and size detect changed files; release_id and track_position link a file to a Discogs track,
+  // and match_title is the normalized title BPM lookups find it by
+  `
+  CREATE TABLE audio_analyses (
+    path TEXT PRIMARY KEY,
+    mtime INTEGER NOT NULL,
+    size INTEGER NOT NULL,
+    artist TEXT,
+    title TEXT,
+    album TEXT,
+    duration REAL,
+    tempo REAL,
+    musical_key TEXT,
+    error TEXT,
+    release_id INTEGER,
+    track_position TEXT,
+    link_confidence REAL,
+    match_title TEXT,
+    analyzed_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX idx_audio_analyses_match_title ON audio_analyses(match_title);
+  `,
+  // 13: Durable request queue; rows live from enqueue until success, and failed or dead-lettered
+  // requests stay for inspection. task_kind/task_payload describe how to redo a request after a restart
+  `
+  CREATE TABLE queue_requests (
+    id TEXT PRIMARY KEY,
+    api TEXT NOT NULL,
+    dedupe_key TEXT,
+    state TEXT NOT NULL,
+    task_kind TEXT,
+    task_payload TEXT,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    run_after INTEGER,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX queue_requests_state ON queue_requests (state, updated_at);
+  `,
+  // 14: priority lane each queued request waits in
+  `
+  ALTER TABLE queue_requests ADD COLUMN priority TEXT NOT NULL DEFAULT 'background';
+  `,
+  // 15: incrementally synced collections, one row per collection item (instance) in any folder
+  // version is the sync that last changed the row; removed items stay as tombstones (removed_at set)
+  `
+  CREATE TABLE collection_instances (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    instance_id INTEGER NOT NULL,
+    release_id INTEGER NOT NULL REFERENCES releases(id),
+    folder_id INTEGER NOT NULL,
+    date_added TEXT,
+    rating INTEGER,
+    notes TEXT,
+    version INTEGER NOT NULL,
+    removed_at INTEGER,
+    PRIMARY KEY (user_id, instance_id)
+  );
+
+  CREATE INDEX collection_instances_version ON collection_instances (user_id, version);
+
+  CREATE TABLE collection_syncs (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    synced_at INTEGER NOT NULL,
+    reconciled_at INTEGER NOT NULL
+  );
+  `,
+  // 16: full-text search over releases and their tracks
+  // One document per release (position NULL) and one per stored track, which carries its release's artist in
+  // release_artist; search_index is an FTS5 index over them kept in step by triggers, and search_terms lists
+  // its vocabulary for typo-tolerant matching.
+  // Catalog numbers are indexed as written and with spaces, dashes and dots removed ("WAP 123" also as "wap123").
+  `
+  CREATE TABLE search_documents (
+    id INTEGER PRIMARY KEY,
+    release_id INTEGER NOT NULL REFERENCES releases(id),
+    position TEXT,
+    title TEXT NOT NULL,
+    artists TEXT NOT NULL,
+    labels TEXT NOT NULL,
+    catnos TEXT NOT NULL,
+    release_artist TEXT NOT NULL
+  );
+
+  CREATE INDEX search_documents_release ON search_documents (release_id);
+
+  CREATE VIRTUAL TABLE search_index USING fts5(
+    title, artists, labels, catnos, release_artist,
+    content = 'search_documents', content_rowid = 'id',
+    tokenize = 'unicode61 remove_diacritics 2', prefix = '2 3'
+  );
+
+  CREATE VIRTUAL TABLE search_terms USING fts5vocab(search_index, 'row');
+
+  CREATE TRIGGER search_documents_insert AFTER INSERT ON search_documents BEGIN
+    INSERT INTO search_index (rowid, title, artists, labels, catnos, release_artist)
+    VALUES (new.id, new.title, new.artists, new.labels, new.catnos, new.release_artist);
+  END;
+
+  CREATE TRIGGER search_documents_delete AFTER DELETE ON search_documents BEGIN
+    INSERT INTO search_index (search_index, rowid, title, artists, labels, catnos, release_artist)
+    VALUES ('delete', old.id, old.title, old.artists, old.labels, old.catnos, old.release_artist);
+  END;
+
+  INSERT INTO search_documents (release_id, position, title, artists, labels, catnos, release_artist)
+  SELECT
+    r.id,
+    NULL,
+    r.title,
+    trim(r.artist || ' ' || COALESCE((
+      SELECT group_concat(a.name, ' ') FROM release_artists ra JOIN artists a ON a.id = ra.artist_id WHERE ra.release_id = r.id
+    ), '')),
+    trim(r.label || ' ' || COALESCE((
+      SELECT group_concat(l.name, ' ') FROM release_labels rl JOIN labels l ON l.id = rl.label_id WHERE rl.release_id = r.id
+    ), '')),
+    COALESCE((
+      SELECT group_concat(rl.catno || ' ' || replace(replace(replace(rl.catno, ' ', ''), '-', ''), '.', ''), ' ')
+      FROM release_labels rl WHERE rl.release_id = r.id AND rl.catno IS NOT NULL
+    ), ''),
+    ''
+  FROM releases r;
+
+  INSERT INTO search_documents (release_id, position, title, artists, labels, catnos, release_artist)
+  SELECT t.release_id, t.position, t.title, '', '', '', r.artist
+  FROM tracks t
+  JOIN releases r ON r.id = t.release_id
+  ORDER BY t.release_id, t.sort_order;
+  `,
+  // 17: BPM enrichment jobs, so their history survives a restart and running ones pick up where they stopped
+  // next_page/page_offset is the checkpoint: the collection page being walked and how many of its releases are done
+  `
+  CREATE TABLE enrichment_jobs (
+    id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    username TEXT NOT NULL,
+    status TEXT NOT NULL,
+    cancel_requested INTEGER NOT NULL DEFAULT 0,
+    next_page INTEGER NOT NULL DEFAULT 1,
+    page_offset INTEGER NOT NULL DEFAULT 0,
+    progress TEXT NOT NULL,
+    counts TEXT NOT NULL,
+    error TEXT,
+    created_at INTEGER NOT NULL,
+    finished_at INTEGER
+  );
+
+  CREATE INDEX enrichment_jobs_user ON enrichment_jobs (user_id, created_at);
+  CREATE INDEX enrichment_jobs_status ON enrichment_jobs (status);
+  `,
+];
+
+/**
+ * Apply any migrations newer than the database's user_version
+ */
+function migrate(database: Database): void {
+  const { user_version: currentVersion } = database.query('PRAGMA user_version').get() as { user_version: number };
+
+  for (let version = currentVersion; version < migrations.length; version++) {
+    try {
+      database.transaction(() => {
+        database.exec(migrations[version]!);
+        database.exec(`PRAGMA user_version = ${version + 1}`);
+      })();
+    } catch (error) {
+      logError('error', 'Database migration failed', {
+        operation: 'migrate',
+        databasePath,
+        version: version + 1,
+      }, error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Open the database, creating its directory and applying migrations
+ */
+function openDatabase(): Database {
+  if (databasePath !== ':memory:') {
+    mkdirSync(dirname(databasePath), { recursive: true });
+  }
+
+  const database = new Database(databasePath, { create: true, strict: true });
+  database.exec('PRAGMA journal_mode = WAL');
+  database.exec('PRAGMA foreign_keys = ON');
+  migrate(database);
+  return database;
+}
+
+export const db = openDatabase();
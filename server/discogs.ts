@@ -0,0 +1,976 @@
+// Discogs data access shared by the HTTP routes and background jobs
+// Reads go Redis hot cache -> local library store -> Discogs; stale entries and rows are served while they refresh in the background
+
+import { randomUUID } from 'node:crypto';
+import { getCache, setCache, generateCacheKey, deleteCacheKeys } from './redis';
+import { fetchDiscogs, createApiError } from './apiClient';
+import { registerQueueTask } from './requestQueue';
+import { getUser, discogsAuthFor } from './users';
+import { oauthHeader } from './oauth';
+import {
+  readCollectionPage,
+  saveCollectionPage,
+  readWantlistPage,
+  saveWantlistPage,
+  readReleaseDetails,
+  saveReleaseDetails,
+  invalidateCollection,
+  invalidateWantlist,
+  invalidateReleaseDetails,
+  clearUserLibrary,
+  isStale,
+  isInvalidated,
+  refreshInBackground,
+  COLLECTION_MAX_AGE_MS,
+  WANTLIST_MAX_AGE_MS,
+  TRACKS_MAX_AGE_MS,
+  ALL_FOLDER_ID,
+} from './libraryStore';
+import { logError } from './logger';
+import type {
+  CacheMetadata,
+  CollectionField,
+  CollectionFolder,
+  CollectionNote,
+  CollectionResponse,
+  RecordArtist,
+  RecordFormat,
+  RecordLabel,
+  ReleaseDetailsResponse,
+  Track,
+  VinylRecord,
+} from '../client/src/types';
+
+const USER_AGENT = 'VinylDash/1.0 +https://github.com/yourusername/vinyl-dash';
+
+// Overridable so the app can run against a local stub of the Discogs API and OAuth endpoints
+const DISCOGS_API_URL = process.env.DISCOGS_API_URL || 'https://api.discogs.com';
+const DISCOGS_AUTHORIZE_URL = process.env.DISCOGS_AUTHORIZE_URL || 'https://www.discogs.com/oauth/authorize';
+
+// Queue task for tracklist fetches, which bulk jobs make hundreds of
+const RELEASE_TASK = 'discogs-release';
+
+/**
+ * Credentials for a Discogs call: a personal access token, or an OAuth access token with its secret
+ */
+export interface DiscogsAuth {
+  token: string;
+  tokenSecret?: string;
+  // Account the credentials belong to; lets a queued call be redone with them after a restart
+  userId?: number;
+}
+
+export interface OAuthToken {
+  token: string;
+  tokenSecret: string;
+}
+
+/**
+ * The app's Discogs OAuth consumer key and secret; null when OAuth isn't configured
+ */
+function oauthConsumer(): { consumerKey: string; consumerSecret: string } | null {
+  const consumerKey = process.env.DISCOGS_CONSUMER_KEY;
+  const consumerSecret = process.env.DISCOGS_CONSUMER_SECRET;
+  return consumerKey && consumerSecret ? { consumerKey, consumerSecret } : null;
+}
+
+/**
+ * Whether users can connect Discogs with OAuth instead of pasting a personal access token
+ */
+export function isOAuthConfigured(): boolean {
+  return oauthConsumer() !== null;
+}
+
+/**
+ * Authorization header value: "Discogs token=..." for personal tokens, a signed OAuth header otherwise
+ */
+function discogsAuthorization(auth: DiscogsAuth, method: string, url: string): string {
+  if (auth.tokenSecret === undefined) {
+    return `Discogs token=${auth.token}`;
+  }
+
+  const consumer = oauthConsumer();
+  if (!consumer) {
+    throw createApiError(503, 'Discogs OAuth not configured', 'DISCOGS_CONSUMER_KEY and DISCOGS_CONSUMER_SECRET must be set to use an OAuth connection');
+  }
+  return oauthHeader(method, url, { ...consumer, token: auth.token, tokenSecret: auth.tokenSecret });
+}
+
+/**
+ * Build the request headers for an authenticated Discogs call
+ */
+function discogsHeaders(auth: DiscogsAuth, method: string, url: string): Record<string, string> {
+  return {
+    'Authorization': discogsAuthorization(auth, method, url),
+    'User-Agent': USER_AGENT,
+    'Accept': 'application/json',
+  };
+}
+
+/**
+ * Parse and validate a Discogs JSON response body
+ */
+async function parseDiscogsResponse(response: Response, context: Record<string, any>): Promise<any> {
+  let data: any;
+  try {
+    data = await response.json();
+  } catch (parseError) {
+    logError('error', 'JSON parsing error in Discogs response', context, parseError);
+    throw new Error('Failed to parse response from Discogs API');
+  }
+
+  // Validate response structure
+  if (!data || typeof data !== 'object') {
+    logError('error', 'Invalid response format from Discogs API', {
+      ...context,
+      dataType: typeof data,
+    });
+    throw new Error('Invalid response format from Discogs API');
+  }
+
+  return data;
+}
+
+/**
+ * Check a Discogs API response's status and parse its JSON body
+ * Pass `notFound` for the error a 404 means; without it a 404 is an upstream error like any other.
+ */
+async function readDiscogsResponse(
+  response: Response,
+  context: Record<string, any>,
+  notFound?: { error: string; message: string }
+): Promise<any> {
+  // Handle authentication errors
+  if (response.status === 401) {
+    throw createApiError(401, 'Authentication failed', 'Discogs rejected your credentials. Reconnect your Discogs account');
+  }
+
+  // Handle not found errors
+  if (notFound && response.status === 404) {
+    throw createApiError(404, notFound.error, notFound.message);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logError('error', 'Discogs API error response', {
+      ...context,
+      status: response.status,
+      statusText: response.statusText,
+      errorText,
+    });
+    throw new Error(`Discogs API error: ${response.status} ${response.statusText}`);
+  }
+
+  return parseDiscogsResponse(response, context);
+}
+
+/**
+ * Normalize Discogs formats, e.g. { name: "Vinyl", qty: "2", descriptions: ["LP", "Album", "33 ⅓ RPM"] }
+ */
+function normalizeFormatDetails(formats: any[]): RecordFormat[] {
+  return formats
+    .filter((format: any) => format && format.name)
+    .map((format: any) => ({
+      name: format.name,
+      qty: parseInt(format.qty, 10) || 1,
+      text: format.text || undefined,
+      descriptions: (format.descriptions || []).filter((description: any) => typeof description === 'string'),
+    }));
+}
+
+/**
+ * Flatten formats into unique names and descriptions, e.g. ["Vinyl", "LP", "Album"]
+ */
+function flattenFormats(formats: RecordFormat[]): string[] {
+  const names = formats.flatMap((format) => [format.name, ...format.descriptions]);
+  return Array.from(new Set(names.filter((name) => name)));
+}
+
+/**
+ * Nominal playback speed from format descriptions like "33 ⅓ RPM" or "45 RPM"
+ * Releases mixing speeds (e.g. a 12" at 45 with a bonus 33) report the first one listed.
+ */
+function parseRpm(formats: RecordFormat[]): number | undefined {
+  for (const description of formats.flatMap((format) => format.descriptions)) {
+    const match = description.match(/^(16|33|45|78)\b.*RPM$/i);
+    if (match) {
+      return parseInt(match[1]!, 10);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Strip the "(2)" suffix Discogs adds to tell apart artists and labels sharing a name
+ */
+function stripDisambiguation(name: string): string {
+  return name.replace(/\s\(\d+\)$/, '');
+}
+
+/**
+ * Build the display credit from the artists' name variations and join strings, e.g. "Kano & Giggs"
+ */
+function formatArtistCredit(artists: RecordArtist[]): string {
+  if (artists.length === 0) {
+    return 'Unknown Artist';
+  }
+
+  return artists
+    .map((artist, index) => {
+      const name = artist.anv || stripDisambiguation(artist.name);
+      if (index === artists.length - 1) {
+        return name;
+      }
+      // Discogs uses "," as a bare separator; other join strings read as words
+      const join = artist.join || ',';
+      return join === ',' ? `${name}, ` : `${name} ${join} `;
+    })
+    .join('');
+}
+
+/**
+ * Normalize Discogs release information (collection basic_information or a full release)
+ */
+function normalizeRelease(id: number, info: any): VinylRecord {
+  const artists: RecordArtist[] = (info.artists || []).map((a: any) => ({
+    id: a.id || 0,
+    name: a.name || 'Unknown Artist',
+    anv: a.anv || undefined,
+    join: a.join || undefined,
+  }));
+  const labels: RecordLabel[] = (info.labels || []).map((l: any) => ({
+    id: l.id || 0,
+    name: l.name || 'Unknown Label',
+    catno: l.catno && l.catno !== 'none' ? l.catno : undefined,
+  }));
+  const formatDetails = normalizeFormatDetails(info.formats || []);
+
+  return {
+    id,
+    title: info.title || 'Unknown Title',
+    artist: formatArtistCredit(artists),
+    // Use first label or fallback
+    label: labels.length > 0 ? labels[0]!.name : 'Unknown Label',
+    year: info.year || null,
+    coverImage: info.cover_image || info.images?.[0]?.uri || info.thumb || '',
+    artists,
+    labels,
+    catno: labels[0]?.catno,
+    genres: info.genres || [],
+    styles: info.styles || [],
+    formats: flattenFormats(formatDetails),
+    formatDetails,
+    rpm: parseRpm(formatDetails),
+  };
+}
+
+/**
+ * Normalize a Discogs collection release into our record format, including the user's rating and notes
+ */
+export function normalizeCollectionRelease(release: any): VinylRecord {
+  const basicInfo = release.basic_information || {};
+  const notes: CollectionNote[] = (release.notes || [])
+    .filter((note: any) => note.field_id && note.value)
+    .map((note: any) => ({ fieldId: note.field_id, value: String(note.value) }));
+
+  return {
+    ...normalizeRelease(release.id || basicInfo.id || 0, basicInfo),
+    instanceId: release.instance_id || undefined,
+    folderId: release.folder_id ?? undefined,
+    dateAdded: release.date_added || undefined,
+    // Discogs reports 0 for unrated items
+    rating: release.rating || undefined,
+    notes,
+  };
+}
+
+/**
+ * Normalize a Discogs wantlist item into our record format
+ * Wants carry a single free-text note rather than collection notes fields; it is kept under field id 0.
+ */
+export function normalizeWantlistItem(want: any): VinylRecord {
+  const basicInfo = want.basic_information || {};
+  return {
+    ...normalizeRelease(want.id || basicInfo.id || 0, basicInfo),
+    dateAdded: want.date_added || undefined,
+    rating: want.rating || undefined,
+    notes: want.notes ? [{ fieldId: 0, value: String(want.notes) }] : [],
+  };
+}
+
+/**
+ * Copy a response with where it was served from and when its data was fetched from Discogs
+ */
+function withCacheMetadata<T extends { cache?: CacheMetadata }>(
+  value: T,
+  source: CacheMetadata['source'],
+  fetchedAt: number,
+  stale = false
+): T {
+  return { ...value, cache: { fetchedAt: new Date(fetchedAt).toISOString(), source, stale } };
+}
+
+/**
+ * Normalize a Discogs tracklist entry into our track format
+ */
+export function normalizeTrack(track: any): Track {
+  return {
+    title: track.title || 'Unknown Track',
+    position: track.position || '',
+    duration: track.duration || undefined,
+  };
+}
+
+/**
+ * Get one page of a user's collection folder (the "All" folder unless given)
+ * Served from the hot cache or library store when possible, stale or not; stale pages refresh in the background
+ */
+export async function getCollectionPage(
+  userId: number,
+  username: string,
+  auth: DiscogsAuth,
+  page: number,
+  perPage: number,
+  folderId = ALL_FOLDER_ID
+): Promise<CollectionResponse> {
+  // Check cache first; a stale entry is served while it refreshes
+  const cacheKey = generateCacheKey('collection', { userId, folderId, page, perPage });
+  const refresh = () => fetchCollectionPage(userId, username, auth, page, perPage, folderId);
+  try {
+    const cached = await getCache<CollectionResponse>(cacheKey);
+    if (cached) {
+      if (cached.stale) {
+        refreshInBackground(cacheKey, refresh);
+      }
+      return withCacheMetadata(cached.value, 'cache', cached.fetchedAt, cached.stale);
+    }
+  } catch (cacheError) {
+    logError('warn', 'Cache get error in collection lookup', {
+      operation: 'getCollectionPage',
+      cacheKey,
+      username,
+      folderId,
+      page,
+      perPage,
+    }, cacheError);
+    // Continue without cache
+  }
+
+  // Then the library store, unless the page was invalidated
+  try {
+    const stored = readCollectionPage(userId, folderId, page, perPage);
+    if (stored && !isInvalidated(stored.fetchedAt)) {
+      const stale = isStale(stored.fetchedAt, COLLECTION_MAX_AGE_MS);
+      if (stale) {
+        refreshInBackground(cacheKey, refresh);
+      }
+      return withCacheMetadata(stored.value, 'store', stored.fetchedAt, stale);
+    }
+  } catch (storeError) {
+    logError('warn', 'Library store read error in collection lookup', {
+      operation: 'getCollectionPage',
+      username,
+      folderId,
+      page,
+      perPage,
+    }, storeError);
+    // Continue with a live fetch
+  }
+
+  return withCacheMetadata(await refresh(), 'live', Date.now());
+}
+
+/**
+ * Fetch one page of a user's collection folder from Discogs and write it to the store and hot cache (1 hour)
+ */
+async function fetchCollectionPage(
+  userId: number,
+  username: string,
+  auth: DiscogsAuth,
+  page: number,
+  perPage: number,
+  folderId: number
+): Promise<CollectionResponse> {
+  const cacheKey = generateCacheKey('collection', { userId, folderId, page, perPage });
+  const url = `${DISCOGS_API_URL}/users/${encodeURIComponent(username)}/collection/folders/${folderId}/releases?page=${page}&per_page=${perPage}`;
+  const dedupeKey = `collection:${userId}:${folderId}:${page}:${perPage}`;
+
+  const responseData = await fetchDiscogs(url, { headers: discogsHeaders(auth, 'GET', url) }, async (response): Promise<CollectionResponse> => {
+    const data = await readDiscogsResponse(response, {
+      operation: 'fetchCollectionPage',
+      username,
+      folderId,
+      page,
+      perPage,
+    }, { error: 'Collection not found', message: `User "${username}" or collection folder not found` });
+
+    // Normalize Discogs response to our format
+    return {
+      records: (data.releases || []).map(normalizeCollectionRelease),
+      pagination: {
+        page: data.pagination?.page || page,
+        perPage: data.pagination?.per_page || perPage,
+        pages: data.pagination?.pages || 1,
+        items: data.pagination?.items || 0,
+      },
+    };
+  }, dedupeKey);
+
+  try {
+    saveCollectionPage(userId, folderId, page, perPage, responseData.records, responseData.pagination.items);
+  } catch (storeError) {
+    logError('warn', 'Library store write error in collection lookup', {
+      operation: 'fetchCollectionPage',
+      username,
+      folderId,
+      page,
+      perPage,
+    }, storeError);
+    // Continue without persisting
+  }
+
+  // Cache the response for 1 hour (3600 seconds)
+  try {
+    await setCache(cacheKey, responseData, 3600);
+  } catch (cacheError) {
+    logError('warn', 'Cache set error in collection lookup', {
+      operation: 'fetchCollectionPage',
+      cacheKey,
+      username,
+      folderId,
+      page,
+      perPage,
+    }, cacheError);
+    // Continue without caching
+  }
+
+  return responseData;
+}
+
+/**
+ * Fetch one page of a user's whole collection from Discogs, most recently added first, for the incremental sync
+ * Not cached or stored by position: the sync stores items by instance instead.
+ */
+export async function fetchCollectionAddedPage(
+  userId: number,
+  username: string,
+  auth: DiscogsAuth,
+  page: number,
+  perPage: number
+): Promise<CollectionResponse> {
+  const url = `${DISCOGS_API_URL}/users/${encodeURIComponent(username)}/collection/folders/${ALL_FOLDER_ID}/releases?sort=added&sort_order=desc&page=${page}&per_page=${perPage}`;
+  const dedupeKey = `collection-sync:${userId}:${page}:${perPage}`;
+
+  return fetchDiscogs(url, { headers: discogsHeaders(auth, 'GET', url) }, async (response): Promise<CollectionResponse> => {
+    const data = await readDiscogsResponse(response, {
+      operation: 'fetchCollectionAddedPage',
+      username,
+      page,
+      perPage,
+    }, { error: 'Collection not found', message: `User "${username}" not found` });
+
+    return {
+      records: (data.releases || []).map(normalizeCollectionRelease),
+      pagination: {
+        page: data.pagination?.page || page,
+        perPage: data.pagination?.per_page || perPage,
+        pages: data.pagination?.pages || 1,
+        items: data.pagination?.items || 0,
+      },
+    };
+  }, dedupeKey);
+}
+
+/**
+ * Get one page of a user's wantlist
+ * Served from the hot cache or library store when possible, stale or not; stale pages refresh in the background
+ */
+export async function getWantlistPage(
+  userId: number,
+  username: string,
+  auth: DiscogsAuth,
+  page: number,
+  perPage: number
+): Promise<CollectionResponse> {
+  // Check cache first; a stale entry is served while it refreshes
+  const cacheKey = generateCacheKey('wantlist', { userId, page, perPage });
+  const refresh = () => fetchWantlistPage(userId, username, auth, page, perPage);
+  try {
+    const cached = await getCache<CollectionResponse>(cacheKey);
+    if (cached) {
+      if (cached.stale) {
+        refreshInBackground(cacheKey, refresh);
+      }
+      return withCacheMetadata(cached.value, 'cache', cached.fetchedAt, cached.stale);
+    }
+  } catch (cacheError) {
+    logError('warn', 'Cache get error in wantlist lookup', {
+      operation: 'getWantlistPage',
+      cacheKey,
+      username,
+      page,
+      perPage,
+    }, cacheError);
+    // Continue without cache
+  }
+
+  // Then the library store, unless the page was invalidated
+  try {
+    const stored = readWantlistPage(userId, page, perPage);
+    if (stored && !isInvalidated(stored.fetchedAt)) {
+      const stale = isStale(stored.fetchedAt, WANTLIST_MAX_AGE_MS);
+      if (stale) {
+        refreshInBackground(cacheKey, refresh);
+      }
+      return withCacheMetadata(stored.value, 'store', stored.fetchedAt, stale);
+    }
+  } catch (storeError) {
+    logError('warn', 'Library store read error in wantlist lookup', {
+      operation: 'getWantlistPage',
+      username,
+      page,
+      perPage,
+    }, storeError);
+    // Continue with a live fetch
+  }
+
+  return withCacheMetadata(await refresh(), 'live', Date.now());
+}
+
+/**
+ * Fetch one page of a user's wantlist from Discogs and write it to the store and hot cache (1 hour)
+ */
+async function fetchWantlistPage(
+  userId: number,
+  username: string,
+  auth: DiscogsAuth,
+  page: number,
+  perPage: number
+): Promise<CollectionResponse> {
+  const cacheKey = generateCacheKey('wantlist', { userId, page, perPage });
+  const url = `${DISCOGS_API_URL}/users/${encodeURIComponent(username)}/wants?page=${page}&per_page=${perPage}`;
+  const dedupeKey = `wantlist:${userId}:${page}:${perPage}`;
+
+  const responseData = await fetchDiscogs(url, { headers: discogsHeaders(auth, 'GET', url) }, async (response): Promise<CollectionResponse> => {
+    const data = await readDiscogsResponse(response, {
+      operation: 'fetchWantlistPage',
+      username,
+      page,
+      perPage,
+    }, { error: 'Wantlist not found', message: `User "${username}" not found` });
+
+    // Normalize Discogs response to our format
+    return {
+      records: (data.wants || []).map(normalizeWantlistItem),
+      pagination: {
+        page: data.pagination?.page || page,
+        perPage: data.pagination?.per_page || perPage,
+        pages: data.pagination?.pages || 1,
+        items: data.pagination?.items || 0,
+      },
+    };
+  }, dedupeKey);
+
+  try {
+    saveWantlistPage(userId, page, perPage, responseData.records, responseData.pagination.items);
+  } catch (storeError) {
+    logError('warn', 'Library store write error in wantlist lookup', {
+      operation: 'fetchWantlistPage',
+      username,
+      page,
+      perPage,
+    }, storeError);
+    // Continue without persisting
+  }
+
+  // Cache the response for 1 hour (3600 seconds)
+  try {
+    await setCache(cacheKey, responseData, 3600);
+  } catch (cacheError) {
+    logError('warn', 'Cache set error in wantlist lookup', {
+      operation: 'fetchWantlistPage',
+      cacheKey,
+      username,
+      page,
+      perPage,
+    }, cacheError);
+    // Continue without caching
+  }
+
+  return responseData;
+}
+
+/**
+ * Get a release's tracklist
+ * Served from the hot cache or library store when possible, stale or not; stale tracklists refresh in the background
+ */
+export async function getReleaseDetails(id: number, auth: DiscogsAuth): Promise<ReleaseDetailsResponse> {
+  // Check cache first; a stale entry is served while it refreshes
+  const cacheKey = generateCacheKey('release', { id });
+  const refresh = () => fetchReleaseDetails(id, auth);
+  try {
+    const cached = await getCache<ReleaseDetailsResponse>(cacheKey);
+    if (cached) {
+      if (cached.stale) {
+        refreshInBackground(cacheKey, refresh);
+      }
+      return withCacheMetadata(cached.value, 'cache', cached.fetchedAt, cached.stale);
+    }
+  } catch (cacheError) {
+    logError('warn', 'Cache get error in release lookup', {
+      operation: 'getReleaseDetails',
+      cacheKey,
+      releaseId: id,
+    }, cacheError);
+    // Continue without cache
+  }
+
+  // Then the library store, unless the tracklist was invalidated
+  try {
+    const stored = readReleaseDetails(id);
+    if (stored && !isInvalidated(stored.fetchedAt)) {
+      const stale = isStale(stored.fetchedAt, TRACKS_MAX_AGE_MS);
+      if (stale) {
+        refreshInBackground(cacheKey, refresh);
+      }
+      return withCacheMetadata(stored.value, 'store', stored.fetchedAt, stale);
+    }
+  } catch (storeError) {
+    logError('warn', 'Library store read error in release lookup', {
+      operation: 'getReleaseDetails',
+      releaseId: id,
+    }, storeError);
+    // Continue with a live fetch
+  }
+
+  return withCacheMetadata(await refresh(), 'live', Date.now());
+}
+
+/**
+ * Fetch a release from Discogs and write it to the store and hot cache (30 minutes)
+ */
+async function fetchReleaseDetails(id: number, auth: DiscogsAuth): Promise<ReleaseDetailsResponse> {
+  const cacheKey = generateCacheKey('release', { id });
+  const url = `${DISCOGS_API_URL}/releases/${id}`;
+  // Per account: callers with different credentials must not share one call's outcome, e.g. a revoked token's 401
+  const dedupeKey = `release:${id}:${auth.userId ?? randomUUID()}`;
+
+  // Only calls made with an account's credentials can be redone after a restart
+  const task = auth.userId !== undefined ? { kind: RELEASE_TASK, payload: { releaseId: id, userId: auth.userId } } : undefined;
+  // The release's details for the store, and its tracklist for the caller
+  const { release, responseData } = await fetchDiscogs(url, { headers: discogsHeaders(auth, 'GET', url) }, async (response) => {
+    const data = await readDiscogsResponse(response, {
+      operation: 'fetchReleaseDetails',
+      releaseId: id,
+    }, { error: 'Release not found', message: `Release with ID ${id} not found` });
+
+    // Extract and normalize tracklist
+    const responseData: ReleaseDetailsResponse = {
+      id: data.id || id,
+      tracks: (data.tracklist || []).map(normalizeTrack),
+    };
+    return { release: normalizeRelease(responseData.id, data), responseData };
+  }, dedupeKey, { task });
+
+  try {
+    saveReleaseDetails(release, responseData.tracks);
+  } catch (storeError) {
+    logError('warn', 'Library store write error in release lookup', {
+      operation: 'fetchReleaseDetails',
+      releaseId: id,
+    }, storeError);
+    // Continue without persisting
+  }
+
+  // Cache the response for 30 minutes (1800 seconds)
+  try {
+    await setCache(cacheKey, responseData, 1800);
+  } catch (cacheError) {
+    logError('warn', 'Cache set error in release lookup', {
+      operation: 'fetchReleaseDetails',
+      cacheKey,
+      releaseId: id,
+    }, cacheError);
+    // Continue without caching
+  }
+
+  return responseData;
+}
+
+// Redo a tracklist fetch left queued by a restart, with the account's current credentials
+registerQueueTask(RELEASE_TASK, async ({ releaseId, userId }: { releaseId: number; userId: number }) => {
+  const user = getUser(userId);
+  const auth = user && discogsAuthFor(user);
+  if (!auth) {
+    throw new Error(`User ${userId} no longer has Discogs connected`);
+  }
+  return getReleaseDetails(releaseId, auth);
+});
+
+/**
+ * Get the custom notes fields defined for a user's collection, so note values can be labelled
+ * Fields rarely change, so they're only kept in the hot cache (24 hours)
+ */
+export async function getCollectionFields(userId: number, username: string, auth: DiscogsAuth): Promise<CollectionField[]> {
+  const cacheKey = generateCacheKey('collection-fields', { userId });
+  try {
+    const cached = await getCache<CollectionField[]>(cacheKey);
+    if (cached) {
+      if (cached.stale) {
+        refreshInBackground(cacheKey, () => fetchCollectionFields(userId, username, auth));
+      }
+      return cached.value;
+    }
+  } catch (cacheError) {
+    logError('warn', 'Cache get error in collection fields lookup', {
+      operation: 'getCollectionFields',
+      cacheKey,
+      username,
+    }, cacheError);
+    // Continue without cache
+  }
+
+  return fetchCollectionFields(userId, username, auth);
+}
+
+/**
+ * Fetch a user's collection notes fields from Discogs and write them to the hot cache
+ */
+async function fetchCollectionFields(userId: number, username: string, auth: DiscogsAuth): Promise<CollectionField[]> {
+  const cacheKey = generateCacheKey('collection-fields', { userId });
+  const url = `${DISCOGS_API_URL}/users/${encodeURIComponent(username)}/collection/fields`;
+  const fields = await fetchDiscogs(url, { headers: discogsHeaders(auth, 'GET', url) }, async (response): Promise<CollectionField[]> => {
+    const data = await readDiscogsResponse(response, {
+      operation: 'fetchCollectionFields',
+      username,
+    }, { error: 'Collection not found', message: `User "${username}" not found` });
+
+    return (data.fields || [])
+      .filter((field: any) => field.id)
+      .map((field: any) => ({
+        id: field.id,
+        name: field.name || `Field ${field.id}`,
+        type: field.type || 'textarea',
+      }));
+  }, `collection-fields:${userId}`);
+
+  try {
+    await setCache(cacheKey, fields, 86400);
+  } catch (cacheError) {
+    logError('warn', 'Cache set error in collection fields lookup', {
+      operation: 'fetchCollectionFields',
+      cacheKey,
+      username,
+    }, cacheError);
+    // Continue without caching
+  }
+
+  return fields;
+}
+
+/**
+ * Get a user's collection folders with their item counts
+ * Only kept in the hot cache (10 minutes) so counts follow additions made on Discogs
+ */
+export async function getCollectionFolders(userId: number, username: string, auth: DiscogsAuth): Promise<CollectionFolder[]> {
+  const cacheKey = generateCacheKey('collection-folders', { userId });
+  try {
+    const cached = await getCache<CollectionFolder[]>(cacheKey);
+    if (cached) {
+      if (cached.stale) {
+        refreshInBackground(cacheKey, () => fetchCollectionFolders(userId, username, auth));
+      }
+      return cached.value;
+    }
+  } catch (cacheError) {
+    logError('warn', 'Cache get error in collection folders lookup', {
+      operation: 'getCollectionFolders',
+      cacheKey,
+      username,
+    }, cacheError);
+    // Continue without cache
+  }
+
+  return fetchCollectionFolders(userId, username, auth);
+}
+
+/**
+ * Fetch a user's collection folders from Discogs and write them to the hot cache
+ */
+async function fetchCollectionFolders(userId: number, username: string, auth: DiscogsAuth): Promise<CollectionFolder[]> {
+  const cacheKey = generateCacheKey('collection-folders', { userId });
+  const url = `${DISCOGS_API_URL}/users/${encodeURIComponent(username)}/collection/folders`;
+  const folders = await fetchDiscogs(url, { headers: discogsHeaders(auth, 'GET', url) }, async (response): Promise<CollectionFolder[]> => {
+    const data = await readDiscogsResponse(response, {
+      operation: 'fetchCollectionFolders',
+      username,
+    }, { error: 'Collection not found', message: `User "${username}" not found` });
+
+    return (data.folders || [])
+      .filter((folder: any) => typeof folder.id === 'number')
+      .map((folder: any) => ({
+        id: folder.id,
+        name: folder.name || `Folder ${folder.id}`,
+        count: folder.count || 0,
+      }));
+  }, `collection-folders:${userId}`);
+
+  try {
+    await setCache(cacheKey, folders, 600);
+  } catch (cacheError) {
+    logError('warn', 'Cache set error in collection folders lookup', {
+      operation: 'fetchCollectionFolders',
+      cacheKey,
+      username,
+    }, cacheError);
+    // Continue without caching
+  }
+
+  return folders;
+}
+
+/**
+ * Call an OAuth token endpoint and read the form-encoded token it returns
+ */
+async function fetchOAuthToken(
+  operation: string,
+  method: 'GET' | 'POST',
+  url: string,
+  credentials: { token?: string; tokenSecret?: string },
+  extraParams: Record<string, string>
+): Promise<OAuthToken> {
+  const consumer = oauthConsumer();
+  if (!consumer) {
+    throw createApiError(503, 'Discogs OAuth not configured', 'DISCOGS_CONSUMER_KEY and DISCOGS_CONSUMER_SECRET must be set to connect with Discogs');
+  }
+
+  return fetchDiscogs(url, {
+    method,
+    headers: {
+      'Authorization': oauthHeader(method, url, { ...consumer, ...credentials }, extraParams),
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'User-Agent': USER_AGENT,
+    },
+  }, async (response): Promise<OAuthToken> => {
+    if (response.status === 401) {
+      throw createApiError(401, 'Discogs authorization failed', 'Discogs refused the authorization. Try connecting again');
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logError('error', 'Discogs OAuth error response', {
+        operation,
+        status: response.status,
+        statusText: response.statusText,
+        errorText,
+      });
+      throw new Error(`Discogs API error: ${response.status} ${response.statusText}`);
+    }
+
+    const body = new URLSearchParams(await response.text());
+    const token = body.get('oauth_token');
+    const tokenSecret = body.get('oauth_token_secret');
+    if (!token || !tokenSecret) {
+      logError('error', 'Discogs OAuth response missing token', { operation });
+      throw new Error('Invalid OAuth response from Discogs API');
+    }
+    return { token, tokenSecret };
+  }, `${operation}:${randomUUID()}`);
+}
+
+/**
+ * Start the OAuth flow: get a request token that Discogs will send back to `callbackUrl` once authorized
+ */
+export function getRequestToken(callbackUrl: string): Promise<OAuthToken> {
+  return fetchOAuthToken('getRequestToken', 'GET', `${DISCOGS_API_URL}/oauth/request_token`, {}, {
+    oauth_callback: callbackUrl,
+  });
+}
+
+/**
+ * The Discogs page where the user approves a request token
+ */
+export function getAuthorizeUrl(requestToken: string): string {
+  return `${DISCOGS_AUTHORIZE_URL}?oauth_token=${encodeURIComponent(requestToken)}`;
+}
+
+/**
+ * Exchange an authorized request token and the callback's verifier for an access token
+ */
+export function getAccessToken(requestToken: OAuthToken, verifier: string): Promise<OAuthToken> {
+  return fetchOAuthToken('getAccessToken', 'POST', `${DISCOGS_API_URL}/oauth/access_token`, requestToken, {
+    oauth_verifier: verifier,
+  });
+}
+
+/**
+ * The Discogs username that a set of credentials belongs to
+ */
+export async function getIdentity(auth: DiscogsAuth): Promise<string> {
+  const url = `${DISCOGS_API_URL}/oauth/identity`;
+  return fetchDiscogs(url, { headers: discogsHeaders(auth, 'GET', url) }, async (response) => {
+    const data = await readDiscogsResponse(response, { operation: 'getIdentity' });
+    if (typeof data.username !== 'string' || !data.username) {
+      throw new Error('Invalid identity response from Discogs API');
+    }
+    return data.username as string;
+  }, `identity:${randomUUID()}`);
+}
+
+// Per-user cache namespaces that can be invalidated with "<namespace>:*"
+const USER_CACHE_NAMESPACES = ['collection', 'wantlist', 'collection-folders', 'collection-fields'] as const;
+
+export type CacheInvalidationTarget =
+  | { namespace: typeof USER_CACHE_NAMESPACES[number] }
+  | { releaseId: number };
+
+/**
+ * Parse a cache key pattern a client asked to invalidate: "<namespace>:*" for one of the user's
+ * namespaces (e.g. "collection:*"), or "release:<id>" for a single release. Returns null if unsupported.
+ */
+export function parseCacheInvalidationKey(key: string): CacheInvalidationTarget | null {
+  const release = key.match(/^release:(\d+)$/);
+  if (release) {
+    return { releaseId: Number(release[1]) };
+  }
+  const namespace = USER_CACHE_NAMESPACES.find((candidate) => key === `${candidate}:*`);
+  return namespace ? { namespace } : null;
+}
+
+/**
+ * Drop cached Discogs data so the next read fetches it again
+ * Namespaces only cover the given user's entries. Stored collection, wantlist and tracklist rows are
+ * marked invalidated rather than deleted, so exports and jobs keep working until the refetch.
+ */
+export async function invalidateDiscogsCache(
+  userId: number,
+  target: CacheInvalidationTarget
+): Promise<{ cacheEntries: number; storedItems: number }> {
+  if ('releaseId' in target) {
+    return {
+      cacheEntries: await deleteCacheKeys(generateCacheKey('release', { id: target.releaseId })),
+      storedItems: invalidateReleaseDetails(target.releaseId) ? 1 : 0,
+    };
+  }
+
+  // Keys end in the app user's ID (params are sorted), e.g. collection:folderId:0:page:1:perPage:50:userId:7
+  const cacheEntries = await deleteCacheKeys(`${target.namespace}:*userId:${userId}`);
+  let storedItems = 0;
+  if (target.namespace === 'collection') {
+    storedItems = invalidateCollection(userId);
+  } else if (target.namespace === 'wantlist') {
+    storedItems = invalidateWantlist(userId);
+  }
+  return { cacheEntries, storedItems };
+}
+
+/**
+ * Forget a user's cached and stored Discogs collection and wantlist, when they connect a different account or
+ * disconnect; none of it belongs to the new account
+ */
+export async function forgetDiscogsAccount(userId: number): Promise<void> {
+  for (const namespace of USER_CACHE_NAMESPACES) {
+    await deleteCacheKeys(`${namespace}:*userId:${userId}`);
+  }
+  clearUserLibrary(userId);
+}
@@ -0,0 +1,137 @@
+// Local stand-in for the Discogs OAuth endpoints and a tiny collection, for trying the OAuth flow offline
+// Every signed request is checked with the same HMAC-SHA1 signing the server uses
+//
+//   bun run server/discogsStub.ts
+//   DISCOGS_API_URL=http://localhost:4010 DISCOGS_AUTHORIZE_URL=http://localhost:4010/oauth/authorize \
+//   DISCOGS_CONSUMER_KEY=stub-key DISCOGS_CONSUMER_SECRET=stub-secret bun run server/index.ts
+
+import { randomBytes } from 'node:crypto';
+import { parseOAuthHeader, verifyOAuthSignature } from './oauth';
+
+const PORT = Number(process.env.STUB_PORT) || 4010;
+const CONSUMER_KEY = process.env.DISCOGS_CONSUMER_KEY || 'stub-key';
+const CONSUMER_SECRET = process.env.DISCOGS_CONSUMER_SECRET || 'stub-secret';
+const USERNAME = process.env.STUB_USERNAME || 'stub-collector';
+
+// Issued tokens by token value; request tokens become access tokens once exchanged
+const requestTokens = new Map<string, { secret: string; callback: string; verifier?: string }>();
+const accessTokens = new Map<string, string>();
+
+const sampleRelease = {
+  id: 249504,
+  instance_id: 1,
+  folder_id: 1,
+  rating: 0,
+  date_added: '2024-01-01T00:00:00-08:00',
+  basic_information: {
+    id: 249504,
+    title: 'Never Gonna Give You Up',
+    year: 1987,
+    thumb: '',
+    cover_image: '',
+    artists: [{ id: 72872, name: 'Rick Astley', anv: '', join: '' }],
+    labels: [{ id: 895, name: 'RCA', catno: 'PB 41447' }],
+    formats: [{ name: 'Vinyl', qty: '1', descriptions: ['7"', '45 RPM', 'Single'] }],
+    genres: ['Electronic', 'Pop'],
+    styles: ['Synth-pop'],
+  },
+};
+
+/**
+ * A random token or secret
+ */
+function newToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Check a request's OAuth signature; returns its oauth_* parameters, or null if it isn't validly signed
+ * `tokenSecret` looks up the secret for the oauth_token the request claims
+ */
+function verifyRequest(request: Request, tokenSecret: (token: string) => string | undefined): Record<string, string> | null {
+  const params = parseOAuthHeader(request.headers.get('Authorization') ?? undefined);
+  if (!params || params.oauth_consumer_key !== CONSUMER_KEY) {
+    return null;
+  }
+
+  const secret = params.oauth_token ? tokenSecret(params.oauth_token) : '';
+  if (secret === undefined) {
+    return null;
+  }
+  return verifyOAuthSignature(request.method, request.url, params, CONSUMER_SECRET, secret) ? params : null;
+}
+
+/**
+ * Form-encoded body, as the Discogs token endpoints respond
+ */
+function formResponse(values: Record<string, string>): Response {
+  return new Response(new URLSearchParams(values).toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+}
+
+function unauthorized(): Response {
+  return Response.json({ message: 'You must authenticate to access this resource.' }, { status: 401 });
+}
+
+function handle(request: Request): Response {
+  const url = new URL(request.url);
+  const path = url.pathname;
+
+  if (path === '/oauth/request_token') {
+    const params = verifyRequest(request, () => undefined);
+    if (!params?.oauth_callback) return unauthorized();
+    const token = newToken();
+    const secret = newToken();
+    requestTokens.set(token, { secret, callback: params.oauth_callback });
+    return formResponse({ oauth_token: token, oauth_token_secret: secret, oauth_callback_confirmed: 'true' });
+  }
+
+  // Stands in for the Discogs approval page: approves immediately and redirects to the callback
+  if (path === '/oauth/authorize') {
+    const token = url.searchParams.get('oauth_token') ?? '';
+    const pending = requestTokens.get(token);
+    if (!pending) return new Response('Unknown request token', { status: 400 });
+    pending.verifier = newToken();
+    const callback = new URL(pending.callback);
+    callback.searchParams.set('oauth_token', token);
+    callback.searchParams.set('oauth_verifier', pending.verifier);
+    return Response.redirect(callback.toString(), 302);
+  }
+
+  if (path === '/oauth/access_token' && request.method === 'POST') {
+    const params = verifyRequest(request, (token) => requestTokens.get(token)?.secret);
+    const pending = params && requestTokens.get(params.oauth_token!);
+    if (!pending || !pending.verifier || params.oauth_verifier !== pending.verifier) return unauthorized();
+    requestTokens.delete(params.oauth_token!);
+    const token = newToken();
+    const secret = newToken();
+    accessTokens.set(token, secret);
+    return formResponse({ oauth_token: token, oauth_token_secret: secret });
+  }
+
+  // Everything below is the API proper, which needs an access token
+  if (!verifyRequest(request, (token) => accessTokens.get(token))) {
+    return unauthorized();
+  }
+
+  if (path === '/oauth/identity') {
+    return Response.json({ id: 1, username: USERNAME, resource_url: `${url.origin}/users/${USERNAME}`, consumer_name: 'vinyl-dash' });
+  }
+  if (path === `/users/${USERNAME}/collection/folders`) {
+    return Response.json({ folders: [{ id: 0, name: 'All', count: 1 }, { id: 1, name: 'Uncategorized', count: 1 }] });
+  }
+  if (/^\/users\/[^/]+\/collection\/folders\/\d+\/releases$/.test(path)) {
+    return Response.json({ pagination: { page: 1, pages: 1, per_page: 50, items: 1 }, releases: [sampleRelease] });
+  }
+  if (path === `/users/${USERNAME}/collection/fields`) {
+    return Response.json({ fields: [] });
+  }
+  if (path === `/users/${USERNAME}/wants`) {
+    return Response.json({ pagination: { page: 1, pages: 1, per_page: 50, items: 0 }, wants: [] });
+  }
+  return Response.json({ message: 'The requested resource was not found.' }, { status: 404 });
+}
+
+Bun.serve({ port: PORT, fetch: handle });
+console.log(`Discogs stub listening on http://localhost:${PORT} (consumer key "${CONSUMER_KEY}", user "${USERNAME}")`);
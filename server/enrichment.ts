@@ -0,0 +1,383 @@
+// Background BPM enrichment jobs
+// Walks every release in a collection, loads its tracklist, and resolves per-track BPM.
+// All upstream calls go through the shared request queue, so jobs respect the rate limiters.
+// Jobs are stored with a checkpoint after every release, so running ones resume after a restart.
+
+import { db } from './db';
+import { getCollectionPage, getReleaseDetails, type DiscogsAuth } from './discogs';
+import { lookupBpm } from './bpmLookup';
+import { runWithPriority } from './requestQueue';
+import { discogsAuthFor, getUser } from './users';
+import { logError } from './logger';
+
+export type EnrichmentJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface EnrichmentJob {
+  id: string;
+  status: EnrichmentJobStatus;
+  username: string;
+  createdAt: string;
+  finishedAt?: string;
+  progress: {
+    releasesTotal: number;
+    releasesProcessed: number;
+    tracksProcessed: number;
+  };
+  counts: {
+    matched: number;
+    lowConfidence: number;
+    unmatched: number;
+    failed: number;
+    releasesFailed: number;
+  };
+  error?: string;
+}
+
+interface JobState {
+  job: EnrichmentJob;
+  // Account that started the job; only its owner can see or cancel it
+  userId: number;
+  cancelRequested: boolean;
+  // Checkpoint: the collection page being walked, and how many of its releases are done
+  nextPage: number;
+  pageOffset: number;
+}
+
+interface EnrichmentJobRow {
+  id: string;
+  user_id: number;
+  username: string;
+  status: EnrichmentJobStatus;
+  cancel_requested: number;
+  next_page: number;
+  page_offset: number;
+  progress: string;
+  counts: string;
+  error: string | null;
+  created_at: number;
+  finished_at: number | null;
+}
+
+// Jobs running in this process; the table has every job, including finished ones
+const jobs = new Map<string, JobState>();
+const collectionPageSize = 100;
+
+const insertJob = db.query(`
+  INSERT INTO enrichment_jobs (id, user_id, username, status, progress, counts, created_at)
+  VALUES ($id, $userId, $username, $status, $progress, $counts, $createdAt)
+`);
+
+const updateJob = db.query(`
+  UPDATE enrichment_jobs
+  SET status = $status, cancel_requested = $cancelRequested, next_page = $nextPage, page_offset = $pageOffset,
+      progress = $progress, counts = $counts, error = $error, finished_at = $finishedAt
+  WHERE id = $id
+`);
+
+const selectJob = db.query<EnrichmentJobRow, { id: string; userId: number }>(
+  'SELECT * FROM enrichment_jobs WHERE id = $id AND user_id = $userId'
+);
+
+const selectUserJobs = db.query<EnrichmentJobRow, { userId: number }>(
+  'SELECT * FROM enrichment_jobs WHERE user_id = $userId ORDER BY created_at DESC'
+);
+
+const selectRunningJobs = db.query<EnrichmentJobRow, []>(`SELECT * FROM enrichment_jobs WHERE status = 'running'`);
+
+const selectRunningUserJob = db.query<EnrichmentJobRow, { userId: number }>(
+  `SELECT * FROM enrichment_jobs WHERE user_id = $userId AND status = 'running' ORDER BY created_at DESC LIMIT 1`
+);
+
+/**
+ * Return a snapshot of a job so callers can't mutate internal state
+ */
+function snapshot(job: EnrichmentJob): EnrichmentJob {
+  return {
+    ...job,
+    progress: { ...job.progress },
+    counts: { ...job.counts },
+  };
+}
+
+/**
+ * Turn a stored job back into its live state
+ */
+function toJobState(row: EnrichmentJobRow): JobState {
+  return {
+    job: {
+      id: row.id,
+      status: row.status,
+      username: row.username,
+      createdAt: new Date(row.created_at).toISOString(),
+      finishedAt: row.finished_at ? new Date(row.finished_at).toISOString() : undefined,
+      progress: JSON.parse(row.progress),
+      counts: JSON.parse(row.counts),
+      error: row.error ?? undefined,
+    },
+    userId: row.user_id,
+    cancelRequested: !!row.cancel_requested,
+    nextPage: row.next_page,
+    pageOffset: row.page_offset,
+  };
+}
+
+/**
+ * Write a job's status, checkpoint and counts to the table
+ */
+function saveJob(state: JobState): void {
+  const { job } = state;
+  updateJob.run({
+    id: job.id,
+    status: job.status,
+    cancelRequested: state.cancelRequested ? 1 : 0,
+    nextPage: state.nextPage,
+    pageOffset: state.pageOffset,
+    progress: JSON.stringify(job.progress),
+    counts: JSON.stringify(job.counts),
+    error: job.error ?? null,
+    finishedAt: job.finishedAt ? Date.parse(job.finishedAt) : null,
+  });
+}
+
+/**
+ * Walk the collection page by page from the job's checkpoint and enrich every track
+ */
+async function runJob(state: JobState, auth: DiscogsAuth): Promise<void> {
+  const { job } = state;
+  let pages = state.nextPage;
+
+  while (state.nextPage <= pages && !state.cancelRequested) {
+    const collection = await getCollectionPage(state.userId, job.username, auth, state.nextPage, collectionPageSize);
+    pages = collection.pagination.pages;
+    job.progress.releasesTotal = collection.pagination.items;
+
+    // Releases before the checkpoint were done before a restart
+    for (const record of collection.records.slice(state.pageOffset)) {
+      if (state.cancelRequested) {
+        break;
+      }
+
+      // Counted here and added to the job with the checkpoint, so a release redone after a restart isn't counted twice
+      const counts = { matched: 0, lowConfidence: 0, unmatched: 0, failed: 0, releasesFailed: 0 };
+      let tracksProcessed = 0;
+      try {
+        const release = await getReleaseDetails(record.id, auth);
+
+        // Tracks of one release are enqueued together; the queue spaces them out
+        await Promise.all(release.tracks.map(async (track) => {
+          if (state.cancelRequested) {
+            return;
+          }
+          try {
+            const bpm = await lookupBpm(track.title, record.artist, track.duration);
+            if (bpm) {
+              counts.matched++;
+              if (bpm.lowConfidence) {
+                counts.lowConfidence++;
+              }
+            } else {
+              counts.unmatched++;
+            }
+          } catch (error) {
+            counts.failed++;
+            logError('warn', 'Track BPM lookup failed during enrichment', {
+              operation: 'runEnrichmentJob',
+              jobId: job.id,
+              releaseId: record.id,
+              trackPosition: track.position,
+              trackTitle: track.title,
+            }, error);
+          } finally {
+            tracksProcessed++;
+          }
+        }));
+      } catch (error) {
+        counts.releasesFailed++;
+        logError('warn', 'Release fetch failed during enrichment', {
+          operation: 'runEnrichmentJob',
+          jobId: job.id,
+          releaseId: record.id,
+        }, error);
+      }
+
+      for (const [name, count] of Object.entries(counts) as [keyof EnrichmentJob['counts'], number][]) {
+        job.counts[name] += count;
+      }
+      job.progress.tracksProcessed += tracksProcessed;
+      job.progress.releasesProcessed++;
+      state.pageOffset++;
+      saveJob(state);
+    }
+
+    if (!state.cancelRequested) {
+      state.nextPage++;
+      state.pageOffset = 0;
+      saveJob(state);
+    }
+  }
+}
+
+/**
+ * Run a job in the background and record how it ended
+ */
+function launchJob(state: JobState, auth: DiscogsAuth): void {
+  const { job } = state;
+  jobs.set(job.id, state);
+
+  // Started from a route or at startup, but nobody is waiting on the individual requests
+  runWithPriority('background', () => runJob(state, auth))
+    .then(() => {
+      job.status = state.cancelRequested ? 'cancelled' : 'completed';
+    })
+    .catch((error) => {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      logError('error', 'Enrichment job failed', {
+        operation: 'runEnrichmentJob',
+        jobId: job.id,
+        username: job.username,
+      }, error);
+    })
+    .finally(() => {
+      job.finishedAt = new Date().toISOString();
+      jobs.delete(job.id);
+      saveJob(state);
+    });
+}
+
+/**
+ * Start an enrichment job for a user's collection
+ * Only one job may run per user at a time; the running job is returned instead
+ */
+export function startEnrichmentJob(
+  userId: number,
+  username: string,
+  auth: DiscogsAuth
+): { job: EnrichmentJob; created: boolean } {
+  const running = findRunningJob(userId);
+  if (running) {
+    return { job: snapshot(running), created: false };
+  }
+
+  const job: EnrichmentJob = {
+    id: crypto.randomUUID(),
+    status: 'running',
+    username,
+    createdAt: new Date().toISOString(),
+    progress: {
+      releasesTotal: 0,
+      releasesProcessed: 0,
+      tracksProcessed: 0,
+    },
+    counts: {
+      matched: 0,
+      lowConfidence: 0,
+      unmatched: 0,
+      failed: 0,
+      releasesFailed: 0,
+    },
+  };
+  insertJob.run({
+    id: job.id,
+    userId,
+    username,
+    status: job.status,
+    progress: JSON.stringify(job.progress),
+    counts: JSON.stringify(job.counts),
+    createdAt: Date.parse(job.createdAt),
+  });
+  launchJob({ job, userId, cancelRequested: false, nextPage: 1, pageOffset: 0 }, auth);
+
+  return { job: snapshot(job), created: true };
+}
+
+/**
+ * A job as it is now: the live state if it runs in this process, else what the table has
+ */
+function currentJob(row: EnrichmentJobRow): JobState {
+  return jobs.get(row.id) ?? toJobState(row);
+}
+
+/**
+ * Get one of a user's jobs by ID
+ */
+export function getEnrichmentJob(userId: number, id: string): EnrichmentJob | null {
+  const row = selectJob.get({ id, userId });
+  return row ? snapshot(currentJob(row).job) : null;
+}
+
+/**
+ * List a user's jobs, newest first
+ */
+export function listEnrichmentJobs(userId: number): EnrichmentJob[] {
+  return selectUserJobs.all({ userId }).map((row) => snapshot(currentJob(row).job));
+}
+
+/**
+ * Request cancellation of a running job
+ * Requests already handed to the queue still complete, but no new ones are started
+ */
+export function cancelEnrichmentJob(userId: number, id: string): EnrichmentJob | null {
+  const row = selectJob.get({ id, userId });
+  if (!row) {
+    return null;
+  }
+  const state = currentJob(row);
+  if (state.job.status === 'running') {
+    state.cancelRequested = true;
+    // Not running here (yet): nothing will pick the request up, so the job ends now
+    if (!jobs.has(id)) {
+      state.job.status = 'cancelled';
+      state.job.finishedAt = new Date().toISOString();
+    }
+    saveJob(state);
+  }
+  return snapshot(state.job);
+}
+
+/**
+ * Find the running job for a user, if any
+ */
+function findRunningJob(userId: number): EnrichmentJob | null {
+  const row = selectRunningUserJob.get({ userId });
+  return row ? currentJob(row).job : null;
+}
+
+/**
+ * Mark a stored job that can't be resumed as finished
+ */
+function endJob(state: JobState, status: EnrichmentJobStatus, error?: string): void {
+  state.job.status = status;
+  state.job.error = error;
+  state.job.finishedAt = new Date().toISOString();
+  saveJob(state);
+}
+
+/**
+ * Pick up jobs left running by the previous server process, from their checkpoints
+ * Jobs whose owner has since disconnected or switched Discogs accounts can't be, and are marked failed.
+ * Call once at startup.
+ */
+export function resumeEnrichmentJobs(): { resumed: number; failed: number } {
+  let resumed = 0;
+  let failed = 0;
+  for (const row of selectRunningJobs.all()) {
+    const state = toJobState(row);
+    if (state.cancelRequested) {
+      endJob(state, 'cancelled');
+      continue;
+    }
+
+    const user = getUser(state.userId);
+    const auth = user ? discogsAuthFor(user) : null;
+    if (!user || !auth || user.discogsUsername?.toLowerCase() !== state.job.username.toLowerCase()) {
+      endJob(state, 'failed', 'Interrupted by a server restart, and the Discogs account it ran for is no longer connected');
+      failed++;
+      continue;
+    }
+
+    launchJob(state, auth);
+    resumed++;
+  }
+  return { resumed, failed };
+}
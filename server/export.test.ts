@@ -0,0 +1,121 @@
+// Route test for /api/export: runs the server against the local Discogs stub, connects an account through
+// the stub's OAuth flow, syncs its one-record collection, and downloads exports of it
+
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+const STUB_PORT = 4310;
+const SERVER_PORT = 4311;
+const server = `http://localhost:${SERVER_PORT}`;
+const dataDir = mkdtempSync(join(tmpdir(), 'vinyl-dash-export-'));
+
+const env = {
+  ...process.env,
+  STUB_PORT: String(STUB_PORT),
+  PORT: String(SERVER_PORT),
+  DATABASE_PATH: join(dataDir, 'test.sqlite'),
+  // Nothing listens there, so the cache runs on its in-memory tier
+  REDIS_URL: 'redis://127.0.0.1:1',
+  DISCOGS_API_URL: `http://localhost:${STUB_PORT}`,
+  DISCOGS_AUTHORIZE_URL: `http://localhost:${STUB_PORT}/oauth/authorize`,
+  DISCOGS_CONSUMER_KEY: 'stub-key',
+  DISCOGS_CONSUMER_SECRET: 'stub-secret',
+  APP_URL: server,
+};
+const processes = [
+  Bun.spawn(['bun', join(import.meta.dir, 'discogsStub.ts')], { env, stdout: 'ignore', stderr: 'ignore' }),
+  Bun.spawn(['bun', join(import.meta.dir, 'index.ts')], { env, stdout: 'ignore', stderr: 'ignore' }),
+];
+
+let cookie = '';
+
+/**
+ * Call the server as the test account
+ */
+function request(path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${server}${path}`, { ...init, redirect: 'manual', headers: { ...init.headers, Cookie: cookie } });
+}
+
+/**
+ * Wait until a URL answers, for processes that were just started
+ */
+async function waitFor(url: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    try {
+      await fetch(url);
+      return;
+    } catch {
+      await Bun.sleep(100);
+    }
+  }
+  throw new Error(`${url} never answered`);
+}
+
+beforeAll(async () => {
+  await waitFor(`http://localhost:${STUB_PORT}/`);
+  await waitFor(`${server}/api/health`);
+
+  const registered = await request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: 'exporter', password: 'password123' }),
+  });
+  expect(registered.status).toBe(201);
+  cookie = registered.headers.get('set-cookie')!.split(';')[0]!;
+
+  // The stub approves at once and redirects straight to the callback
+  const started = await request('/api/auth/discogs/oauth', { method: 'POST' });
+  const { authorizeUrl } = await started.json() as { authorizeUrl: string };
+  const approved = await fetch(authorizeUrl, { redirect: 'manual' });
+  const callbackUrl = new URL(approved.headers.get('location')!);
+  // Without the session cookie, as when Discogs sends the browser back from another site
+  const callback = await fetch(`${server}${callbackUrl.pathname}${callbackUrl.search}`, { redirect: 'manual' });
+  expect(callback.headers.get('location')).toEndWith('/?discogs=connected');
+
+  const library = await request('/api/library');
+  expect(library.status).toBe(200);
+  expect((await library.json() as { total: number }).total).toBe(1);
+}, 30_000);
+
+afterAll(() => {
+  processes.forEach((child) => child.kill());
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('exports the synced collection as CSV', async () => {
+  const response = await request('/api/export?as=csv');
+  expect(response.status).toBe(200);
+  expect(response.headers.get('content-disposition')).toBe('attachment; filename="vinyl-dash-collection.csv"');
+
+  const lines = (await response.text()).trim().split(/\r?\n/);
+  expect(lines).toHaveLength(2);
+  expect(lines[1]).toContain('Never Gonna Give You Up');
+});
+
+test('applies the dashboard\'s record-format filter alongside the export type', async () => {
+  const matching = await request('/api/export?as=json&format=Vinyl');
+  expect((await matching.json() as { records: unknown[] }).records).toHaveLength(1);
+
+  const other = await request('/api/export?as=json&format=CD');
+  expect((await other.json() as { records: unknown[] }).records).toHaveLength(0);
+});
+
+test('names set exports from the numeric set ID', async () => {
+  const created = await request('/api/sets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: 'Warm-up' }),
+  });
+  const { id } = await created.json() as { id: number };
+
+  const response = await request(`/api/export?as=m3u8&set=${id}${encodeURIComponent('"x')}`);
+  expect(response.status).toBe(200);
+  expect(response.headers.get('content-disposition')).toBe(`attachment; filename="vinyl-dash-set-${id}.m3u8"`);
+});
+
+test('rejects an unknown export type', async () => {
+  const response = await request('/api/export?as=xlsx');
+  expect(response.status).toBe(400);
+});
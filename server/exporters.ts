@@ -0,0 +1,292 @@
+// Export enriched collection data to DJ tools and spreadsheets (CSV, JSON, Rekordbox XML, M3U8)
+// Exports read from the library store only; run an enrichment job first to fill in missing tracklists and BPM
+
+import { readCollectionSync, readRelease, readReleaseDetails } from './libraryStore';
+import { readTrackBpm } from './bpmOverrides';
+import { parseDuration } from './bpmMatcher';
+import { getSet } from './sets';
+import { listLibrary, type LibraryQuery } from './library';
+import type { BpmInfo, ExportFormat, Track, VinylRecord } from '../client/src/types';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'rekordbox', 'm3u8'];
+
+export interface ExportTrack {
+  track: Track;
+  bpm: BpmInfo | null;
+}
+
+export interface ExportRecord {
+  record: VinylRecord;
+  // null when the release's tracklist hasn't been fetched yet
+  tracks: ExportTrack[] | null;
+}
+
+export interface ExportData {
+  name: string;
+  records: ExportRecord[];
+}
+
+export interface ExportOptions {
+  // Where rips live, used to build file locations for M3U8 and Rekordbox; relative paths when empty
+  libraryPath: string;
+  fileExtension: string;
+}
+
+export interface SerializedExport {
+  body: string;
+  contentType: string;
+  fileExtension: string;
+}
+
+const rekordboxKinds: Record<string, string> = {
+  flac: 'FLAC File',
+  wav: 'WAV File',
+  aiff: 'AIFF File',
+  aif: 'AIFF File',
+  mp3: 'MP3 File',
+  m4a: 'M4A File',
+};
+
+/**
+ * Attach stored BPM data (with the user's overrides) to a track
+ */
+function toExportTrack(userId: number, record: VinylRecord, track: Track): ExportTrack {
+  return {
+    track,
+    bpm: track.position ? readTrackBpm(userId, record.id, track.position, track.title, record.artist) : null,
+  };
+}
+
+/**
+ * Gather the stored collection as the dashboard shows it: the same folder, filters and order
+ */
+export function collectCollectionExport(userId: number, query: LibraryQuery): ExportData {
+  // Never synced: nothing is stored to export
+  const sync = readCollectionSync(userId);
+  const records = sync ? listLibrary(userId, query, sync) : [];
+
+  return {
+    name: query.text ? `Collection matching "${query.text}"` : 'Collection',
+    records: records.map(({ record, tracks }) => ({
+      record,
+      tracks: tracks ? tracks.map(({ bpm, ...track }) => ({ track, bpm })) : null,
+    })),
+  };
+}
+
+/**
+ * Gather a saved set in play order; each entry becomes a record carrying just that track
+ * Returns null if the user has no such set
+ */
+export function collectSetExport(userId: number, setId: number): ExportData | null {
+  const set = getSet(userId, setId);
+  if (!set) {
+    return null;
+  }
+
+  const records: ExportRecord[] = [];
+  for (const entry of set.entries) {
+    const record = readRelease(entry.releaseId);
+    const track = readReleaseDetails(entry.releaseId)?.value.tracks.find((t) => t.position === entry.position);
+    if (record && track) {
+      records.push({ record, tracks: [toExportTrack(userId, record, track)] });
+    }
+  }
+
+  return { name: set.name, records };
+}
+
+/**
+ * Format a key the way most DJ software writes it: "Am", "F#", "C"
+ */
+function formatTonality(bpm: BpmInfo | null): string {
+  if (bpm?.parsedKey) {
+    return `${bpm.parsedKey.tonic}${bpm.parsedKey.mode === 'minor' ? 'm' : ''}`;
+  }
+  return bpm?.key ?? '';
+}
+
+/**
+ * Replace characters that aren't allowed in file names
+ */
+function safePathSegment(value: string): string {
+  return value.replace(/[\\/:*?"<>|]/g, '_').trim() || '_';
+}
+
+/**
+ * File location of a track's rip: <library>/<artist>/<release>/<position> - <title>.<ext>
+ */
+function trackFilePath(record: VinylRecord, track: Track, options: ExportOptions): string {
+  const relativePath = [
+    safePathSegment(record.artist),
+    safePathSegment(record.title),
+    `${safePathSegment(track.position)} - ${safePathSegment(track.title)}.${options.fileExtension}`,
+  ].join('/');
+  return options.libraryPath ? `${options.libraryPath.replace(/\/+$/, '')}/${relativePath}` : relativePath;
+}
+
+/**
+ * Every track in export order, skipping records without a stored tracklist
+ */
+function flattenTracks(data: ExportData): { record: VinylRecord; track: Track; bpm: BpmInfo | null }[] {
+  return data.records.flatMap(({ record, tracks }) =>
+    (tracks ?? []).map(({ track, bpm }) => ({ record, track, bpm }))
+  );
+}
+
+/**
+ * Quote a CSV field when needed
+ */
+function csvField(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Escape text for an XML attribute value
+ */
+function xmlAttribute(value: string | number | undefined | null): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * One row per track; records without a stored tracklist get a single row with empty track fields
+ */
+function toCsv(data: ExportData): string {
+  const header = [
+    'release_id', 'artist', 'release_title', 'label', 'year',
+    'position', 'track_title', 'duration',
+    'bpm', 'key', 'camelot', 'open_key', 'danceability', 'acousticness', 'bpm_source',
+  ];
+  const rows = [header.join(',')];
+
+  for (const { record, tracks } of data.records) {
+    const recordFields = [record.id, record.artist, record.title, record.label, record.year];
+    if (!tracks || tracks.length === 0) {
+      rows.push([...recordFields, ...Array(header.length - recordFields.length).fill('')].map(csvField).join(','));
+      continue;
+    }
+
+    for (const { track, bpm } of tracks) {
+      rows.push([
+        ...recordFields,
+        track.position,
+        track.title,
+        track.duration,
+        bpm?.tempo,
+        bpm?.key,
+        bpm?.parsedKey?.camelot,
+        bpm?.parsedKey?.openKey,
+        bpm?.danceability,
+        bpm?.acousticness,
+        bpm ? bpm.source ?? 'lookup' : '',
+      ].map(csvField).join(','));
+    }
+  }
+
+  return rows.join('\r\n') + '\r\n';
+}
+
+/**
+ * Records with their tracklists and BPM data, in the API's own shapes
+ */
+function toJson(data: ExportData): string {
+  return JSON.stringify({
+    name: data.name,
+    exportedAt: new Date().toISOString(),
+    records: data.records.map(({ record, tracks }) => ({
+      ...record,
+      tracks: tracks?.map(({ track, bpm }) => ({ ...track, bpm })),
+    })),
+  }, null, 2);
+}
+
+/**
+ * Extended M3U playlist pointing at where each track's rip is expected to be
+ */
+function toM3u8(data: ExportData, options: ExportOptions): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${data.name}`];
+
+  for (const { record, track } of flattenTracks(data)) {
+    const seconds = parseDuration(track.duration) ?? -1;
+    lines.push(`#EXTINF:${seconds},${record.artist} - ${track.title}`);
+    lines.push(trackFilePath(record, track, options));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Rekordbox collection XML with tempo and tonality, plus a playlist in export order
+ */
+function toRekordbox(data: ExportData, options: ExportOptions): string {
+  const tracks = flattenTracks(data);
+  const kind = rekordboxKinds[options.fileExtension.toLowerCase()] ?? `${options.fileExtension.toUpperCase()} File`;
+
+  const trackElements = tracks.map(({ record, track, bpm }, index) => {
+    const tempo = Number(bpm?.tempo) || 0;
+    const attributes = [
+      `TrackID="${index + 1}"`,
+      `Name="${xmlAttribute(track.title)}"`,
+      `Artist="${xmlAttribute(record.artist)}"`,
+      `Album="${xmlAttribute(record.title)}"`,
+      `Label="${xmlAttribute(record.label)}"`,
+      `Year="${xmlAttribute(record.year)}"`,
+      `Kind="${xmlAttribute(kind)}"`,
+      `TotalTime="${parseDuration(track.duration) ?? 0}"`,
+      `AverageBpm="${tempo.toFixed(2)}"`,
+      `Tonality="${xmlAttribute(formatTonality(bpm))}"`,
+      `Comments="${xmlAttribute(bpm?.notes ? `${track.position} - ${bpm.notes}` : track.position)}"`,
+      `Location="${xmlAttribute(`file://localhost/${encodeURI(trackFilePath(record, track, options).replace(/^\/+/, ''))}`)}"`,
+    ];
+    // A TEMPO element marks the grid so Rekordbox uses our BPM instead of re-analyzing
+    const tempoElement = tempo > 0
+      ? `\n      <TEMPO Inizio="0.000" Bpm="${tempo.toFixed(2)}" Metro="4/4" Battito="1"/>\n    `
+      : '';
+    return `    <TRACK ${attributes.join(' ')}>${tempoElement}</TRACK>`;
+  });
+
+  const playlistEntries = tracks.map((_, index) => `        <TRACK Key="${index + 1}"/>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<DJ_PLAYLISTS Version="1.0.0">',
+    '  <PRODUCT Name="vinyl-dash" Version="1.0.0" Company=""/>',
+    `  <COLLECTION Entries="${tracks.length}">`,
+    ...trackElements,
+    '  </COLLECTION>',
+    '  <PLAYLISTS>',
+    '    <NODE Type="0" Name="ROOT" Count="1">',
+    `      <NODE Name="${xmlAttribute(data.name)}" Type="1" KeyType="0" Entries="${tracks.length}">`,
+    ...playlistEntries,
+    '      </NODE>',
+    '    </NODE>',
+    '  </PLAYLISTS>',
+    '</DJ_PLAYLISTS>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialize gathered export data in the requested format
+ */
+export function serializeExport(data: ExportData, format: ExportFormat, options: ExportOptions): SerializedExport {
+  switch (format) {
+    case 'csv':
+      return { body: toCsv(data), contentType: 'text/csv; charset=utf-8', fileExtension: 'csv' };
+    case 'json':
+      return { body: toJson(data), contentType: 'application/json; charset=utf-8', fileExtension: 'json' };
+    case 'm3u8':
+      return { body: toM3u8(data, options), contentType: 'audio/x-mpegurl; charset=utf-8', fileExtension: 'm3u8' };
+    case 'rekordbox':
+      return { body: toRekordbox(data, options), contentType: 'application/xml; charset=utf-8', fileExtension: 'xml' };
+  }
+}
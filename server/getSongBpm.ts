@@ -0,0 +1,112 @@
+// GetSongBPM provider: searches api.getsong.co by song title
+// Needs GETSONGBPM_API_KEY; GetSongBPM allows 3000 requests an hour
+
+import { fetchWithRateLimit, createApiError } from './apiClient';
+import { logError } from './logger';
+import type { BpmProvider, BpmSearchResult } from './bpmProviders';
+import type { MatchQuery } from './bpmMatcher';
+
+// Queue task a search is redone under after a restart; bpmLookup handles it by redoing the whole lookup
+export const BPM_LOOKUP_TASK = 'bpm-lookup';
+
+/**
+ * Search GetSongBPM by song title; artist and duration are left to match scoring
+ */
+async function searchGetSongBpm(query: MatchQuery): Promise<any[]> {
+  const apiKey = process.env.GETSONGBPM_API_KEY;
+
+  if (!apiKey) {
+    logError('error', 'GetSongBPM API key not configured', {
+      operation: 'searchGetSongBpm',
+      hasApiKey: !!apiKey,
+      song: query.title,
+      artist: query.artist,
+    });
+    throw createApiError(500, 'GetSongBPM API key not configured', 'Please set GETSONGBPM_API_KEY in your .env file');
+  }
+
+  // Use the correct GetSongBPM API endpoint
+  // Search by song title, then filter by artist
+  const lookup = encodeURIComponent(query.title);
+  const url = `https://api.getsong.co/search/?type=song&lookup=${lookup}&api_key=${apiKey}`;
+  const dedupeKey = `bpm:${query.title.toLowerCase()}:${query.artist.toLowerCase()}`;
+
+  return fetchWithRateLimit(url, {
+    headers: {
+      'User-Agent': 'VinylDash/1.0 +https://github.com/yourusername/vinyl-dash',
+      'Accept': 'application/json',
+    },
+  }, getSongBpmProvider.name, async (response) => {
+    // Handle authentication errors
+    if (response.status === 401) {
+      throw createApiError(401, 'Authentication failed', 'Invalid GetSongBPM API key. Please check your GETSONGBPM_API_KEY in .env');
+    }
+
+    // Handle bad request
+    if (response.status === 400) {
+      throw createApiError(400, 'Bad request', 'Invalid search parameters');
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logError('error', 'GetSongBPM API error response', {
+        operation: 'searchGetSongBpm',
+        status: response.status,
+        statusText: response.statusText,
+        song: query.title,
+        artist: query.artist,
+        errorText,
+      });
+      throw new Error(`GetSongBPM API error: ${response.status} ${response.statusText}`);
+    }
+
+    let data: any;
+    try {
+      data = await response.json();
+    } catch (parseError) {
+      logError('error', 'JSON parsing error in BPM lookup', {
+        operation: 'searchGetSongBpm',
+        song: query.title,
+        artist: query.artist,
+      }, parseError);
+      throw new Error('Failed to parse response from GetSongBPM API');
+    }
+
+    // Validate response structure
+    if (!data || typeof data !== 'object') {
+      logError('error', 'Invalid response format from GetSongBPM API', {
+        operation: 'searchGetSongBpm',
+        song: query.title,
+        artist: query.artist,
+        dataType: typeof data,
+      });
+      throw new Error('Invalid response format from GetSongBPM API');
+    }
+
+    // Handle case where API returns {"search": {"error": "no result"}} instead of {"search": []}
+    return Array.isArray(data.search) ? data.search : [];
+  }, dedupeKey, { task: { kind: BPM_LOOKUP_TASK, payload: query } });
+}
+
+export const getSongBpmProvider: BpmProvider = {
+  name: 'getsongbpm',
+  // 3000/hour = 50/min
+  rateLimit: { maxRequests: 50, windowMs: 60 * 1000 },
+  isConfigured: () => !!process.env.GETSONGBPM_API_KEY,
+  search: searchGetSongBpm,
+  normalize(result: any): BpmSearchResult | null {
+    if (!result || typeof result !== 'object') {
+      return null;
+    }
+    return {
+      id: result.id || '',
+      title: result.title || '',
+      artist: result.artist?.name || '',
+      tempo: result.tempo || 0,
+      key: result.key || undefined,
+      duration: result.duration,
+      danceability: result.danceability || undefined,
+      acousticness: result.acousticness || undefined,
+    };
+  },
+};
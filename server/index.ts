@@ -1,35 +1,67 @@
 import express from 'express';
 import cors from 'cors';
-import { getCache, setCache, generateCacheKey } from './redis';
-import { fetchDiscogs, fetchGetSongBPM } from './apiClient';
+import { isApiError, createApiError } from './apiClient';
+import {
+  getCollectionPage,
+  getCollectionFields,
+  getCollectionFolders,
+  getWantlistPage,
+  getReleaseDetails,
+  getRequestToken,
+  getAuthorizeUrl,
+  getAccessToken,
+  getIdentity,
+  parseCacheInvalidationKey,
+  invalidateDiscogsCache,
+  forgetDiscogsAccount,
+  type CacheInvalidationTarget,
+} from './discogs';
+import { lookupBpm } from './bpmLookup';
+import { getBpmOverride, saveBpmOverride, deleteBpmOverride, isCompleteOverride, applyBpmOverride } from './bpmOverrides';
+import { startEnrichmentJob, getEnrichmentJob, listEnrichmentJobs, cancelEnrichmentJob, resumeEnrichmentJobs } from './enrichment';
+import { startAnalysisJob, getAnalysisJob, listAnalysisJobs, cancelAnalysisJob } from './audioLibrary';
+import {
+  resumeQueue,
+  inspectQueue,
+  retryQueueRequest,
+  deleteQueueRequest,
+  runWithPriority,
+  type QueueRequestState,
+} from './requestQueue';
+import { getRateLimiterStates } from './rateLimiter';
+import { getQueueStatus, renderMetrics } from './metrics';
+import { collectionCoverage } from './coverage';
+import { syncCollectionIfDue } from './collectionSync';
+import { parseLibraryQuery, queryLibrary } from './library';
+import { parseSearchQuery, search } from './search';
+import { listSets, getSet, createSet, updateSet, deleteSet, suggestNextTracks } from './sets';
+import { collectCollectionExport, collectSetExport, serializeExport, EXPORT_FORMATS, type ExportData } from './exporters';
+import { requireUser, requireAdmin, requireMetricsAccess, currentUser, requireDiscogs, sessionToken, setSessionCookie, clearSessionCookie } from './auth';
+import {
+  createUser,
+  verifyCredentials,
+  setDiscogsCredentials,
+  saveOAuthRequest,
+  takeOAuthRequest,
+  getUser,
+  createSession,
+  deleteSession,
+  toAccount,
+  type User,
+} from './users';
+import { logError } from './logger';
+import type { ExportFormat, SetTrackRef, SessionResponse } from '../client/src/types';
 
 const app = express();
 const PORT = process.env.PORT || 4000;
-
-// Logging utility function
-function logError(level: 'error' | 'warn', message: string, context: Record<string, any> = {}, error?: Error | unknown) {
-  const logEntry = {
-    timestamp: new Date().toISOString(),
-    level,
-    message,
-    context,
-    error: error instanceof Error ? {
-      message: error.message,
-      stack: error.stack,
-      name: error.name,
-    } : error,
-  };
-  
-  if (level === 'error') {
-    console.error(JSON.stringify(logEntry));
-  } else {
-    console.warn(JSON.stringify(logEntry));
-  }
-}
+// Where the client is served; the Discogs OAuth callback comes back here (defaults to the page that started it)
+const APP_URL = process.env.APP_URL;
 
 // Request logging middleware
 app.use((req, res, next) => {
   const startTime = Date.now();
+  // Read before routing; middleware mounted on '/api' strips the prefix from req.path
+  const path = req.path;
   
   res.on('finish', () => {
     const duration = Date.now() - startTime;
@@ -40,7 +72,7 @@ app.use((req, res, next) => {
       level = 'error';
     } else if (res.statusCode >= 400) {
       // For 404s on BPM endpoint, treat as warning (expected when no data found)
-      if (res.statusCode === 404 && req.path === '/api/bpm' && res.locals.noDataFound) {
+      if (res.statusCode === 404 && path === '/api/bpm' && res.locals.noDataFound) {
         level = 'warn';
       } else {
         level = 'error';
@@ -53,7 +85,7 @@ app.use((req, res, next) => {
       message: 'HTTP Request',
       context: {
         method: req.method,
-        path: req.path,
+        path,
         query: req.query,
         statusCode: res.statusCode,
         duration: `${duration}ms`,
@@ -75,45 +107,257 @@ app.use((req, res, next) => {
 app.use(cors());
 app.use(express.json());
 
-// Unhandled error middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  logError('error', 'Unhandled error in request handler', {
-    method: req.method,
-    path: req.path,
-    query: req.query,
-    body: req.body,
-  }, err);
-  
-  res.status(500).json({
-    error: 'Internal server error',
-    message: 'An unexpected error occurred',
-  });
-});
+// Someone is waiting on every API call, so their upstream requests skip ahead of background jobs
+app.use('/api', (req, res, next) => runWithPriority('interactive', next));
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok' });
 });
 
+// Prometheus scrape endpoint; outside /api so scrapers can use METRICS_TOKEN instead of a session
+app.get('/metrics', requireMetricsAccess, async (req, res) => {
+  res.type('text/plain; version=0.0.4').send(await renderMetrics());
+});
+
+/**
+ * Read optional Discogs credentials from a request body; both fields or neither
+ */
+function parseDiscogsCredentials(body: any): { username: string; token: string } | null | undefined {
+  const username = typeof body?.discogsUsername === 'string' ? body.discogsUsername.trim() : '';
+  const token = typeof body?.discogsToken === 'string' ? body.discogsToken.trim() : '';
+  if (!username && !token) return null;
+  if (!username || !token) return undefined;
+  return { username, token };
+}
+
+/**
+ * Check Discogs credentials from a request body with Discogs before they're saved
+ * Throws a 400 error if Discogs rejects the token or it belongs to a different account than the username given.
+ */
+async function verifyDiscogsCredentials(discogs: { username: string; token: string }): Promise<{ username: string; token: string }> {
+  let identity: string;
+  try {
+    identity = await getIdentity({ token: discogs.token });
+  } catch (error) {
+    if (isApiError(error) && error.status === 401) {
+      throw createApiError(400, 'Invalid Discogs credentials', 'Discogs rejected the token');
+    }
+    throw error;
+  }
+
+  if (identity.toLowerCase() !== discogs.username.toLowerCase()) {
+    throw createApiError(400, 'Invalid Discogs credentials', `The token belongs to a different Discogs account than "${discogs.username}"`);
+  }
+  // Discogs' spelling of the username, so it matches in Discogs URLs
+  return { username: identity, token: discogs.token };
+}
+
+/**
+ * Whether new Discogs credentials are for a different account than a user's current ones
+ */
+function isDifferentDiscogsAccount(user: User, username: string | null): boolean {
+  return (user.discogsUsername?.toLowerCase() ?? null) !== (username?.toLowerCase() ?? null);
+}
+
+/**
+ * Start a session for a user and send it as both a cookie and a bearer token
+ */
+function sendSession(req: express.Request, res: express.Response, status: number, user: User) {
+  const session = createSession(user.id);
+  setSessionCookie(req, res, session);
+  const body: SessionResponse = {
+    account: toAccount(user),
+    token: session.token,
+    expiresAt: new Date(session.expiresAt).toISOString(),
+  };
+  res.status(status).json(body);
+}
+
+// Create an account (optionally with Discogs credentials) and sign in
+app.post('/api/auth/register', async (req, res) => {
+  const { username, password } = req.body ?? {};
+  if (typeof username !== 'string' || !/^[a-z0-9_.-]{3,32}$/i.test(username.trim())) {
+    return res.status(400).json({
+      error: 'Invalid username',
+      message: 'Username must be 3-32 letters, digits, dots, dashes or underscores'
+    });
+  }
+  if (typeof password !== 'string' || password.length < 8) {
+    return res.status(400).json({ error: 'Invalid password', message: 'Password must be at least 8 characters' });
+  }
+  const discogs = parseDiscogsCredentials(req.body);
+  if (discogs === undefined) {
+    return res.status(400).json({
+      error: 'Invalid Discogs credentials',
+      message: 'Provide both a Discogs username and token, or neither'
+    });
+  }
+
+  try {
+    const verified = discogs && await verifyDiscogsCredentials(discogs);
+    sendSession(req, res, 201, await createUser(username.trim(), password, verified));
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
+    }
+    logError('error', 'Error creating account', { endpoint: '/api/auth/register', username }, error);
+    res.status(500).json({
+      error: 'Failed to create account',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Sign in with a username and password
+app.post('/api/auth/login', async (req, res) => {
+  const { username, password } = req.body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Invalid credentials', message: 'Username and password are required' });
+  }
+
+  try {
+    const user = await verifyCredentials(username.trim(), password);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid credentials', message: 'Wrong username or password' });
+    }
+    sendSession(req, res, 200, user);
+  } catch (error) {
+    logError('error', 'Error signing in', { endpoint: '/api/auth/login', username }, error);
+    res.status(500).json({
+      error: 'Failed to sign in',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Sign out, ending the current session
+app.post('/api/auth/logout', (req, res) => {
+  const token = sessionToken(req);
+  if (token) {
+    deleteSession(token);
+  }
+  clearSessionCookie(res);
+  res.status(204).end();
+});
+
+// Discogs sends the browser back here after the user approves (or denies) access
+// Always redirects to the client, with ?discogs=connected or ?discogs=failed. No session needed: the request
+// token, which only this user's browser was sent to Discogs with, says whose it is.
+app.get('/api/auth/discogs/callback', async (req, res) => {
+  const { oauth_token: requestToken, oauth_verifier: verifier } = req.query;
+  // Without APP_URL, the callback URL was built from the client's origin, so the browser is already there
+  const done = (outcome: 'connected' | 'failed') => res.redirect(`${APP_URL ? appUrl(req) : ''}/?discogs=${outcome}`);
+
+  if (typeof requestToken !== 'string' || typeof verifier !== 'string') {
+    // Discogs sends ?denied=<token> when the user declines
+    return done('failed');
+  }
+
+  const request = takeOAuthRequest(requestToken);
+  const user = request && getUser(request.userId);
+  if (!request || !user) {
+    logError('warn', 'Unknown or expired Discogs OAuth request token', {
+      endpoint: '/api/auth/discogs/callback',
+      userId: request?.userId,
+    });
+    return done('failed');
+  }
+
+  try {
+    const accessToken = await getAccessToken({ token: requestToken, tokenSecret: request.tokenSecret }, verifier);
+    const username = await getIdentity(accessToken);
+    setDiscogsCredentials(user.id, { username, ...accessToken });
+    if (isDifferentDiscogsAccount(user, username)) {
+      await forgetDiscogsAccount(user.id);
+    }
+    done('connected');
+  } catch (error) {
+    logError('error', 'Error completing Discogs OAuth', {
+      endpoint: '/api/auth/discogs/callback',
+      userId: user.id,
+    }, error);
+    done('failed');
+  }
+});
+
+// Every other API route needs a signed-in user
+app.use('/api', requireUser);
+
+// The signed-in account
+app.get('/api/auth/me', (req, res) => {
+  res.json(toAccount(currentUser(res)));
+});
+
+// Connect (or disconnect, with empty fields) the signed-in user's Discogs account
+app.put('/api/auth/discogs', async (req, res) => {
+  const discogs = parseDiscogsCredentials(req.body);
+  if (discogs === undefined) {
+    return res.status(400).json({
+      error: 'Invalid Discogs credentials',
+      message: 'Provide both a Discogs username and token, or neither'
+    });
+  }
+
+  const user = currentUser(res);
+  try {
+    const verified = discogs && await verifyDiscogsCredentials(discogs);
+    const updated = setDiscogsCredentials(user.id, verified);
+    if (!updated) {
+      return res.status(404).json({ error: 'Account not found', message: 'Your account no longer exists' });
+    }
+    if (isDifferentDiscogsAccount(user, verified?.username ?? null)) {
+      await forgetDiscogsAccount(user.id);
+    }
+    res.json(toAccount(updated));
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
+    }
+    logError('error', 'Error connecting Discogs', { endpoint: '/api/auth/discogs', userId: user.id }, error);
+    res.status(500).json({
+      error: 'Failed to connect Discogs',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+/**
+ * Base URL of the client as seen by the user's browser: APP_URL, else the origin the request came from
+ * Host isn't enough: a dev proxy (Vite's changeOrigin) rewrites it to this server's address.
+ */
+function appUrl(req: express.Request): string {
+  return (APP_URL || req.get('origin') || `${req.protocol}://${req.get('host')}`).replace(/\/+$/, '');
+}
+
+// Start connecting Discogs with OAuth; the client sends the user to the returned Discogs page
+app.post('/api/auth/discogs/oauth', async (req, res) => {
+  try {
+    const requestToken = await getRequestToken(`${appUrl(req)}/api/auth/discogs/callback`);
+    saveOAuthRequest(currentUser(res).id, requestToken.token, requestToken.tokenSecret);
+    res.json({ authorizeUrl: getAuthorizeUrl(requestToken.token) });
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
+    }
+    logError('error', 'Error starting Discogs OAuth', { endpoint: '/api/auth/discogs/oauth' }, error);
+    res.status(500).json({
+      error: 'Failed to connect Discogs',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
 // Collection endpoint
 app.get('/api/collection', async (req, res) => {
   try {
-    const token = process.env.DISCOGS_TOKEN;
-    const username = process.env.DISCOGS_USERNAME;
     const page = req.query.page ? parseInt(req.query.page as string) : 1;
     const perPage = req.query.per_page ? parseInt(req.query.per_page as string) : 50;
+    const folderId = req.query.folder ? parseInt(req.query.folder as string) : 0;
 
-    if (!token || !username) {
-      logError('error', 'Discogs API credentials not configured', {
-        endpoint: '/api/collection',
-        hasToken: !!token,
-        hasUsername: !!username,
-      });
-      return res.status(500).json({ 
-        error: 'Discogs API credentials not configured',
-        message: 'Please set DISCOGS_TOKEN and DISCOGS_USERNAME in your .env file'
-      });
-    }
+    const discogs = requireDiscogs(res);
+    if (!discogs) return;
+    const { userId, username, auth } = discogs;
 
     // Validate pagination parameters
     if (page < 1) {
@@ -132,141 +376,23 @@ app.get('/api/collection', async (req, res) => {
       });
       return res.status(400).json({ error: 'per_page must be between 1 and 100' });
     }
-
-    // Check cache first
-    const cacheKey = generateCacheKey('collection', { username, page, perPage });
-    try {
-      const cached = await getCache<{ records: any[]; pagination: any }>(cacheKey);
-      if (cached) {
-        return res.json(cached);
-      }
-    } catch (cacheError) {
-      logError('warn', 'Cache get error in collection endpoint', {
-        endpoint: '/api/collection',
-        cacheKey,
-        username,
-        page,
-        perPage,
-      }, cacheError);
-      // Continue without cache
-    }
-
-    const url = `https://api.discogs.com/users/${encodeURIComponent(username)}/collection/folders/0/releases?page=${page}&per_page=${perPage}`;
-    const dedupeKey = `collection:${username}:${page}:${perPage}`;
-    
-    const response = await fetchDiscogs(url, {
-      headers: {
-        'Authorization': `Discogs token=${token}`,
-        'User-Agent': 'VinylDash/1.0 +https://github.com/yourusername/vinyl-dash',
-        'Accept': 'application/json',
-      },
-    }, dedupeKey);
-
-    // Handle authentication errors
-    if (response.status === 401) {
-      return res.status(401).json({ 
-        error: 'Authentication failed',
-        message: 'Invalid Discogs token. Please check your DISCOGS_TOKEN in .env'
-      });
-    }
-
-    // Handle not found errors
-    if (response.status === 404) {
-      return res.status(404).json({ 
-        error: 'Collection not found',
-        message: `User "${username}" or collection folder not found`
-      });
-    }
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      logError('error', 'Discogs API error response', {
+    if (isNaN(folderId) || folderId < 0) {
+      logError('warn', 'Invalid folder parameter', {
         endpoint: '/api/collection',
-        status: response.status,
-        statusText: response.statusText,
+        folder: req.query.folder,
         username,
-        page,
-        perPage,
-        errorText,
       });
-      throw new Error(`Discogs API error: ${response.status} ${response.statusText}`);
-    }
-
-    let data;
-    try {
-      data = await response.json();
-    } catch (parseError) {
-      logError('error', 'JSON parsing error in collection endpoint', {
-        endpoint: '/api/collection',
-        username,
-        page,
-        perPage,
-      }, parseError);
-      throw new Error('Failed to parse response from Discogs API');
+      return res.status(400).json({ error: 'folder must be a folder ID (0 for all releases)' });
     }
 
-    // Validate response structure
-    if (!data || typeof data !== 'object') {
-      logError('error', 'Invalid response format from Discogs API', {
-        endpoint: '/api/collection',
-        username,
-        page,
-        perPage,
-        dataType: typeof data,
-      });
-      throw new Error('Invalid response format from Discogs API');
-    }
-
-    // Normalize Discogs response to our format
-    const records = (data.releases || []).map((release: any) => {
-      const basicInfo = release.basic_information || {};
-      const artists = basicInfo.artists || [];
-      const labels = basicInfo.labels || [];
-      
-      // Handle multiple artists (join with ", " or use first)
-      const artist = artists.length > 0 
-        ? artists.map((a: any) => a.name).join(', ')
-        : 'Unknown Artist';
-      
-      // Use first label or fallback
-      const label = labels.length > 0 ? labels[0].name : 'Unknown Label';
-      
-      return {
-        id: release.id || basicInfo.id || 0,
-        title: basicInfo.title || 'Unknown Title',
-        artist: artist,
-        label: label,
-        year: basicInfo.year || null,
-        coverImage: basicInfo.cover_image || basicInfo.thumb || '',
-      };
-    });
-
-    const responseData = {
-      records,
-      pagination: {
-        page: data.pagination?.page || page,
-        perPage: data.pagination?.per_page || perPage,
-        pages: data.pagination?.pages || 1,
-        items: data.pagination?.items || 0,
-      },
-    };
-
-    // Cache the response for 1 hour (3600 seconds)
-    try {
-      await setCache(cacheKey, responseData, 3600);
-    } catch (cacheError) {
-      logError('warn', 'Cache set error in collection endpoint', {
-        endpoint: '/api/collection',
-        cacheKey,
-        username,
-        page,
-        perPage,
-      }, cacheError);
-      // Continue without caching
-    }
+    const responseData = await getCollectionPage(userId, username, auth, page, perPage, folderId);
 
     res.json(responseData);
   } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
+    }
+
     logError('error', 'Error fetching collection', {
       endpoint: '/api/collection',
       query: req.query,
@@ -289,169 +415,287 @@ app.get('/api/collection', async (req, res) => {
   }
 });
 
-// Release details endpoint
-app.get('/api/release/:id', async (req, res) => {
+// Collection tempo/key coverage endpoint (stored data only, never calls Discogs)
+app.get('/api/collection/coverage', (req, res) => {
+  const discogs = requireDiscogs(res);
+  if (!discogs) return;
+
   try {
-    const releaseId = req.params.id;
-    const token = process.env.DISCOGS_TOKEN;
+    res.json(collectionCoverage(discogs.userId));
+  } catch (error) {
+    logError('error', 'Error reading collection coverage', {
+      endpoint: '/api/collection/coverage',
+    }, error);
+    res.status(500).json({
+      error: 'Failed to read collection coverage',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
 
-    if (!token) {
-      logError('error', 'Discogs API credentials not configured', {
-        endpoint: '/api/release/:id',
-        releaseId,
-        hasToken: !!token,
-      });
-      return res.status(500).json({ 
-        error: 'Discogs API credentials not configured',
-        message: 'Please set DISCOGS_TOKEN in your .env file'
-      });
+// Collection filtered, sorted and paged on the server, with stored tracklists and BPM data inlined
+app.get('/api/library', async (req, res) => {
+  try {
+    const query = parseLibraryQuery(req.query);
+
+    const discogs = requireDiscogs(res);
+    if (!discogs) return;
+    const { userId, username, auth } = discogs;
+
+    const { state, cache } = await syncCollectionIfDue(userId, username, auth);
+    res.json(queryLibrary(userId, query, state, cache));
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
     }
 
-    // Validate release ID
-    const id = parseInt(releaseId);
-    if (isNaN(id) || id <= 0) {
-      logError('warn', 'Invalid release ID parameter', {
-        endpoint: '/api/release/:id',
-        releaseId,
-        parsedId: id,
+    logError('error', 'Error fetching library', {
+      endpoint: '/api/library',
+      query: req.query,
+    }, error);
+
+    if (error instanceof Error && error.message.includes('fetch')) {
+      return res.status(503).json({
+        error: 'Service unavailable',
+        message: 'Unable to reach Discogs API. Please check your internet connection.'
       });
-      return res.status(400).json({ error: 'Invalid release ID' });
     }
 
-    // Check cache first
-    const cacheKey = generateCacheKey('release', { id });
-    try {
-      const cached = await getCache<{ id: number; tracks: any[] }>(cacheKey);
-      if (cached) {
-        return res.json(cached);
-      }
-    } catch (cacheError) {
-      logError('warn', 'Cache get error in release endpoint', {
-        endpoint: '/api/release/:id',
-        cacheKey,
-        releaseId: id,
-      }, cacheError);
-      // Continue without cache
-    }
+    res.status(500).json({
+      error: 'Failed to fetch library',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
 
-    const url = `https://api.discogs.com/releases/${id}`;
-    const dedupeKey = `release:${id}`;
-    
-    const response = await fetchDiscogs(url, {
-      headers: {
-        'Authorization': `Discogs token=${token}`,
-        'User-Agent': 'VinylDash/1.0 +https://github.com/yourusername/vinyl-dash',
-        'Accept': 'application/json',
-      },
-    }, dedupeKey);
+// Full-text search over the stored collection or wantlist, for the filter box's suggestions
+app.get('/api/search', (req, res) => {
+  try {
+    const query = parseSearchQuery(req.query);
 
-    // Handle authentication errors
-    if (response.status === 401) {
-      return res.status(401).json({ 
-        error: 'Authentication failed',
-        message: 'Invalid Discogs token. Please check your DISCOGS_TOKEN in .env'
-      });
+    const discogs = requireDiscogs(res);
+    if (!discogs) return;
+
+    res.json(search(discogs.userId, query));
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
     }
 
-    // Handle not found errors
-    if (response.status === 404) {
-      return res.status(404).json({ 
-        error: 'Release not found',
-        message: `Release with ID ${releaseId} not found`
+    logError('error', 'Error searching library', {
+      endpoint: '/api/search',
+      query: req.query,
+    }, error);
+    res.status(500).json({
+      error: 'Failed to search',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Wantlist endpoint
+app.get('/api/wantlist', async (req, res) => {
+  try {
+    const page = req.query.page ? parseInt(req.query.page as string) : 1;
+    const perPage = req.query.per_page ? parseInt(req.query.per_page as string) : 50;
+
+    const discogs = requireDiscogs(res);
+    if (!discogs) return;
+    const { userId, username, auth } = discogs;
+
+    // Validate pagination parameters
+    if (isNaN(page) || page < 1) {
+      logError('warn', 'Invalid pagination parameter: page', {
+        endpoint: '/api/wantlist',
+        page,
+        username,
       });
+      return res.status(400).json({ error: 'Page must be greater than 0' });
     }
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      logError('error', 'Discogs API error response', {
-        endpoint: '/api/release/:id',
-        status: response.status,
-        statusText: response.statusText,
-        releaseId: id,
-        errorText,
+    if (isNaN(perPage) || perPage < 1 || perPage > 100) {
+      logError('warn', 'Invalid pagination parameter: per_page', {
+        endpoint: '/api/wantlist',
+        perPage,
+        username,
       });
-      throw new Error(`Discogs API error: ${response.status} ${response.statusText}`);
+      return res.status(400).json({ error: 'per_page must be between 1 and 100' });
     }
 
-    let data;
-    try {
-      data = await response.json();
-    } catch (parseError) {
-      logError('error', 'JSON parsing error in release endpoint', {
-        endpoint: '/api/release/:id',
-        releaseId: id,
-      }, parseError);
-      throw new Error('Failed to parse response from Discogs API');
+    res.json(await getWantlistPage(userId, username, auth, page, perPage));
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
     }
 
-    // Validate response structure
-    if (!data || typeof data !== 'object') {
-      logError('error', 'Invalid response format from Discogs API', {
-        endpoint: '/api/release/:id',
-        releaseId: id,
-        dataType: typeof data,
+    logError('error', 'Error fetching wantlist', {
+      endpoint: '/api/wantlist',
+      query: req.query,
+    }, error);
+
+    if (error instanceof Error && error.message.includes('fetch')) {
+      return res.status(503).json({
+        error: 'Service unavailable',
+        message: 'Unable to reach Discogs API. Please check your internet connection.'
       });
-      throw new Error('Invalid response format from Discogs API');
     }
 
-    // Extract and normalize tracklist
-    const tracklist = (data.tracklist || []).map((track: any) => {
-      return {
-        title: track.title || 'Unknown Track',
-        position: track.position || '',
-        duration: track.duration || undefined,
-      };
+    res.status(500).json({
+      error: 'Failed to fetch wantlist',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
     });
+  }
+});
 
-    const responseData = {
-      id: data.id || id,
-      tracks: tracklist,
-    };
+// Collection folders endpoint
+app.get('/api/folders', async (req, res) => {
+  try {
 
-    // Cache the response for 30 minutes (1800 seconds)
-    try {
-      await setCache(cacheKey, responseData, 1800);
-    } catch (cacheError) {
-      logError('warn', 'Cache set error in release endpoint', {
-        endpoint: '/api/release/:id',
-        cacheKey,
-        releaseId: id,
-      }, cacheError);
-      // Continue without caching
-    }
+    const discogs = requireDiscogs(res);
+    if (!discogs) return;
+    const { userId, username, auth } = discogs;
 
-    res.json(responseData);
+    res.json({ folders: await getCollectionFolders(userId, username, auth) });
   } catch (error) {
-    logError('error', 'Error fetching release details', {
-      endpoint: '/api/release/:id',
-      releaseId: req.params.id,
-    }, error);
-    
-    // Provide more specific error messages
-    if (error instanceof Error) {
-      if (error.message.includes('fetch')) {
-        return res.status(503).json({ 
-          error: 'Service unavailable',
-          message: 'Unable to reach Discogs API. Please check your internet connection.'
-        });
-      }
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
     }
-    
-    res.status(500).json({ 
-      error: 'Failed to fetch release details',
+
+    logError('error', 'Error fetching collection folders', {
+      endpoint: '/api/folders',
+    }, error);
+    res.status(500).json({
+      error: 'Failed to fetch collection folders',
       message: error instanceof Error ? error.message : 'Unknown error occurred'
     });
   }
 });
 
-// BPM endpoint
-app.get('/api/bpm', async (req, res) => {
+// Collection notes fields endpoint
+app.get('/api/collection/fields', async (req, res) => {
   try {
-    const { song, artist } = req.query;
-    
-    // Validate required parameters
-    if (!song || !artist) {
-      logError('warn', 'Missing required parameters in BPM endpoint', {
+
+    const discogs = requireDiscogs(res);
+    if (!discogs) return;
+    const { userId, username, auth } = discogs;
+
+    res.json({ fields: await getCollectionFields(userId, username, auth) });
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
+    }
+
+    logError('error', 'Error fetching collection fields', {
+      endpoint: '/api/collection/fields',
+    }, error);
+    res.status(500).json({
+      error: 'Failed to fetch collection fields',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Release details endpoint
+app.get('/api/release/:id', async (req, res) => {
+  try {
+    const releaseId = req.params.id;
+    const discogs = requireDiscogs(res);
+    if (!discogs) return;
+
+    // Validate release ID
+    const id = parseInt(releaseId);
+    if (isNaN(id) || id <= 0) {
+      logError('warn', 'Invalid release ID parameter', {
+        endpoint: '/api/release/:id',
+        releaseId,
+        parsedId: id,
+      });
+      return res.status(400).json({ error: 'Invalid release ID' });
+    }
+
+    const responseData = await getReleaseDetails(id, discogs.auth);
+
+    res.json(responseData);
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
+    }
+
+    logError('error', 'Error fetching release details', {
+      endpoint: '/api/release/:id',
+      releaseId: req.params.id,
+    }, error);
+    
+    // Provide more specific error messages
+    if (error instanceof Error) {
+      if (error.message.includes('fetch')) {
+        return res.status(503).json({ 
+          error: 'Service unavailable',
+          message: 'Unable to reach Discogs API. Please check your internet connection.'
+        });
+      }
+    }
+    
+    res.status(500).json({ 
+      error: 'Failed to fetch release details',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Drop cached Discogs data so it's fetched again on the next read
+// Body: { keys: ["collection:*", "collection-folders:*", "release:123", ...] }
+app.post('/api/cache/invalidate', async (req, res) => {
+  const keys = req.body?.keys;
+  if (!Array.isArray(keys) || keys.length === 0 || keys.length > 20) {
+    return res.status(400).json({
+      error: 'Invalid keys',
+      message: 'keys must be an array of 1 to 20 cache key patterns'
+    });
+  }
+
+  const targets: CacheInvalidationTarget[] = [];
+  for (const key of keys) {
+    const target = typeof key === 'string' ? parseCacheInvalidationKey(key) : null;
+    if (!target) {
+      return res.status(400).json({
+        error: 'Invalid cache key',
+        message: `Unsupported key pattern ${JSON.stringify(key)}; use collection:*, wantlist:*, collection-folders:*, collection-fields:* or release:<id>`
+      });
+    }
+    targets.push(target);
+  }
+
+  const discogs = requireDiscogs(res);
+  if (!discogs) return;
+
+  try {
+    const invalidated = { cacheEntries: 0, storedItems: 0 };
+    for (const target of targets) {
+      const result = await invalidateDiscogsCache(discogs.userId, target);
+      invalidated.cacheEntries += result.cacheEntries;
+      invalidated.storedItems += result.storedItems;
+    }
+    res.json({ invalidated });
+  } catch (error) {
+    logError('error', 'Error invalidating cache', {
+      endpoint: '/api/cache/invalidate',
+      keys,
+    }, error);
+    res.status(500).json({
+      error: 'Failed to invalidate cache',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// BPM endpoint
+app.get('/api/bpm', async (req, res) => {
+  try {
+    const { song, artist, duration, release_id: releaseIdParam, position } = req.query;
+    
+    // Validate required parameters
+    if (!song || !artist) {
+      logError('warn', 'Missing required parameters in BPM endpoint', {
         endpoint: '/api/bpm',
         hasSong: !!song,
         hasArtist: !!artist,
@@ -479,121 +723,39 @@ app.get('/api/bpm', async (req, res) => {
       });
     }
 
-    // Check cache first (normalize to lowercase for consistent keys)
-    const cacheKey = generateCacheKey('bpm', { 
-      song: songTitle.toLowerCase(), 
-      artist: artistName.toLowerCase() 
-    });
-    try {
-      const cached = await getCache<{ id: string; title: string; tempo: number; key?: string; danceability?: number; acousticness?: number }>(cacheKey);
-      if (cached) {
-        return res.json(cached);
-      }
-    } catch (cacheError) {
-      logError('warn', 'Cache get error in BPM endpoint', {
-        endpoint: '/api/bpm',
-        cacheKey,
-        song: songTitle,
-        artist: artistName,
-      }, cacheError);
-      // Continue without cache
-    }
-
-    const apiKey = process.env.GETSONGBPM_API_KEY;
-    
-    if (!apiKey) {
-      logError('error', 'GetSongBPM API key not configured', {
-        endpoint: '/api/bpm',
-        hasApiKey: !!apiKey,
-        song: songTitle,
-        artist: artistName,
-      });
-      return res.status(500).json({ 
-        error: 'GetSongBPM API key not configured',
-        message: 'Please set GETSONGBPM_API_KEY in your .env file'
-      });
-    }
-
-    // Use the correct GetSongBPM API endpoint
-    // Search by song title, then filter by artist
-    const lookup = encodeURIComponent(songTitle);
-    const url = `https://api.getsong.co/search/?type=song&lookup=${lookup}&api_key=${apiKey}`;
-    const dedupeKey = `bpm:${songTitle.toLowerCase()}:${artistName.toLowerCase()}`;
-    
-    const response = await fetchGetSongBPM(url, {
-      headers: {
-        'User-Agent': 'VinylDash/1.0 +https://github.com/yourusername/vinyl-dash',
-        'Accept': 'application/json',
-      },
-    }, dedupeKey);
+    // Optional track duration ("m:ss") sharpens match scoring
+    const trackDuration = typeof duration === 'string' && duration.trim() ? duration.trim() : undefined;
 
-    // Handle authentication errors
-    if (response.status === 401) {
-      return res.status(401).json({ 
-        error: 'Authentication failed',
-        message: 'Invalid GetSongBPM API key. Please check your GETSONGBPM_API_KEY in .env'
-      });
-    }
-
-    // Handle bad request
-    if (response.status === 400) {
-      return res.status(400).json({ 
-        error: 'Bad request',
-        message: 'Invalid search parameters'
-      });
-    }
+    // Optional track identity lets a manual override take precedence over the lookup
+    const releaseId = typeof releaseIdParam === 'string' ? parseInt(releaseIdParam) : NaN;
+    const override = !isNaN(releaseId) && typeof position === 'string'
+      ? getBpmOverride(currentUser(res).id, releaseId, position)
+      : null;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      logError('error', 'GetSongBPM API error response', {
-        endpoint: '/api/bpm',
-        status: response.status,
-        statusText: response.statusText,
-        song: songTitle,
-        artist: artistName,
-        errorText,
-      });
-      throw new Error(`GetSongBPM API error: ${response.status} ${response.statusText}`);
+    if (override && isCompleteOverride(override)) {
+      return res.json(applyBpmOverride(null, override, songTitle));
     }
 
-    let data;
+    let result;
     try {
-      data = await response.json();
-    } catch (parseError) {
-      logError('error', 'JSON parsing error in BPM endpoint', {
-        endpoint: '/api/bpm',
-        song: songTitle,
-        artist: artistName,
-      }, parseError);
-      throw new Error('Failed to parse response from GetSongBPM API');
-    }
-
-    // Validate response structure
-    if (!data || typeof data !== 'object') {
-      logError('error', 'Invalid response format from GetSongBPM API', {
+      result = await lookupBpm(songTitle, artistName, trackDuration);
+    } catch (lookupError) {
+      // A partial override is still worth returning when the lookup fails
+      if (!override) {
+        throw lookupError;
+      }
+      logError('warn', 'BPM lookup failed, returning override only', {
         endpoint: '/api/bpm',
         song: songTitle,
         artist: artistName,
-        dataType: typeof data,
-      });
-      throw new Error('Invalid response format from GetSongBPM API');
+        releaseId,
+        position,
+      }, lookupError);
+      result = null;
     }
 
-    // Filter results by artist name (case-insensitive partial match)
-    // Handle case where API returns {"search": {"error": "no result"}} instead of {"search": []}
-    const searchResults = Array.isArray(data.search) ? data.search : [];
-
-    const artistLower = artistName.toLowerCase();
-    
-    // Try to find exact or partial artist match
-    let result = searchResults.find((item: any) => {
-      const itemArtist = item.artist?.name?.toLowerCase() || '';
-      return itemArtist.includes(artistLower) || artistLower.includes(itemArtist);
-    });
-
-    // Fallback to first result if no artist match found
-    if (!result && searchResults.length > 0) {
-      result = searchResults[0];
+    if (override) {
+      return res.json(applyBpmOverride(result, override, songTitle));
     }
 
     if (!result) {
@@ -605,31 +767,12 @@ app.get('/api/bpm', async (req, res) => {
       });
     }
 
-    // Normalize response to our format
-    const normalized = {
-      id: result.id || '',
-      title: result.title || songTitle,
-      tempo: result.tempo || 0,
-      key: result.key || undefined,
-      danceability: result.danceability || undefined,
-      acousticness: result.acousticness || undefined,
-    };
-
-    // Cache the response for 24 hours (86400 seconds)
-    try {
-      await setCache(cacheKey, normalized, 86400);
-    } catch (cacheError) {
-      logError('warn', 'Cache set error in BPM endpoint', {
-        endpoint: '/api/bpm',
-        cacheKey,
-        song: songTitle,
-        artist: artistName,
-      }, cacheError);
-      // Continue without caching
+    res.json(result);
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
     }
 
-    res.json(normalized);
-  } catch (error) {
     logError('error', 'Error fetching BPM', {
       endpoint: '/api/bpm',
       query: req.query,
@@ -652,7 +795,520 @@ app.get('/api/bpm', async (req, res) => {
   }
 });
 
+/**
+ * Parse and validate the :releaseId/:position params of a track route
+ */
+function parseTrackParams(req: express.Request, res: express.Response): { releaseId: number; position: string } | null {
+  const releaseId = parseInt(req.params.releaseId as string);
+  const position = (req.params.position as string || '').trim();
+
+  if (isNaN(releaseId) || releaseId <= 0 || !position) {
+    logError('warn', 'Invalid track parameters', {
+      endpoint: req.path,
+      releaseId: req.params.releaseId,
+      position: req.params.position,
+    });
+    res.status(400).json({
+      error: 'Invalid track',
+      message: 'A positive release ID and a track position are required'
+    });
+    return null;
+  }
+
+  return { releaseId, position };
+}
+
+// Get the manual BPM/key override for a track
+app.get('/api/tracks/:releaseId/:position/bpm', (req, res) => {
+  const track = parseTrackParams(req, res);
+  if (!track) return;
+
+  const override = getBpmOverride(currentUser(res).id, track.releaseId, track.position);
+  if (!override) {
+    return res.status(404).json({
+      error: 'Override not found',
+      message: `No manual BPM set for track ${track.position} of release ${track.releaseId}`
+    });
+  }
+  res.json(override);
+});
+
+// Set a manual BPM/key override for a track
+app.put('/api/tracks/:releaseId/:position/bpm', (req, res) => {
+  const track = parseTrackParams(req, res);
+  if (!track) return;
+
+  const { tempo, key, notes } = req.body || {};
+
+  if (tempo !== undefined && tempo !== null && (typeof tempo !== 'number' || !isFinite(tempo) || tempo <= 0 || tempo > 400)) {
+    return res.status(400).json({ error: 'Invalid tempo', message: 'Tempo must be a number between 0 and 400' });
+  }
+  if (key !== undefined && key !== null && (typeof key !== 'string' || key.trim().length === 0 || key.length > 20)) {
+    return res.status(400).json({ error: 'Invalid key', message: 'Key must be a non-empty string of at most 20 characters' });
+  }
+  if (notes !== undefined && notes !== null && (typeof notes !== 'string' || notes.length > 1000)) {
+    return res.status(400).json({ error: 'Invalid notes', message: 'Notes must be a string of at most 1000 characters' });
+  }
+  if ((tempo === undefined || tempo === null) && (key === undefined || key === null)) {
+    return res.status(400).json({ error: 'Missing override', message: 'Provide a tempo, a key, or both' });
+  }
+
+  try {
+    const override = saveBpmOverride(currentUser(res).id, track.releaseId, track.position, {
+      tempo: tempo ?? undefined,
+      key: key ? key.trim() : undefined,
+      notes: notes ? notes.trim() : undefined,
+    });
+    res.json(override);
+  } catch (error) {
+    logError('error', 'Error saving BPM override', {
+      endpoint: '/api/tracks/:releaseId/:position/bpm',
+      releaseId: track.releaseId,
+      position: track.position,
+    }, error);
+    res.status(500).json({
+      error: 'Failed to save BPM override',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Remove a manual BPM/key override so lookups apply again
+app.delete('/api/tracks/:releaseId/:position/bpm', (req, res) => {
+  const track = parseTrackParams(req, res);
+  if (!track) return;
+
+  if (!deleteBpmOverride(currentUser(res).id, track.releaseId, track.position)) {
+    return res.status(404).json({
+      error: 'Override not found',
+      message: `No manual BPM set for track ${track.position} of release ${track.releaseId}`
+    });
+  }
+  res.status(204).end();
+});
+
+// Start a background BPM enrichment job for the whole collection
+app.post('/api/enrichment/jobs', (req, res) => {
+  const discogs = requireDiscogs(res);
+  if (!discogs) return;
+
+  const { job, created } = startEnrichmentJob(currentUser(res).id, discogs.username, discogs.auth);
+
+  // A job is already running for this collection; point the caller at it
+  if (!created) {
+    return res.status(409).json({
+      error: 'Enrichment job already running',
+      message: `Job ${job.id} is already enriching this collection`,
+      job,
+    });
+  }
+
+  res.status(202).json(job);
+});
+
+// List enrichment jobs
+app.get('/api/enrichment/jobs', (req, res) => {
+  res.json({ jobs: listEnrichmentJobs(currentUser(res).id) });
+});
+
+// Enrichment job progress
+app.get('/api/enrichment/jobs/:id', (req, res) => {
+  const job = getEnrichmentJob(currentUser(res).id, req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: `Enrichment job ${req.params.id} not found`
+    });
+  }
+  res.json(job);
+});
+
+// Cancel a running enrichment job
+app.post('/api/enrichment/jobs/:id/cancel', (req, res) => {
+  const job = cancelEnrichmentJob(currentUser(res).id, req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: `Enrichment job ${req.params.id} not found`
+    });
+  }
+  res.json(job);
+});
+
+// Start a background analysis of the local music library (MUSIC_DIR)
+app.post('/api/analysis/jobs', (req, res) => {
+  const musicDir = process.env.MUSIC_DIR;
+  if (!musicDir) {
+    return res.status(503).json({
+      error: 'Music directory not configured',
+      message: 'Please set MUSIC_DIR in your .env file'
+    });
+  }
+
+  const user = currentUser(res);
+  const { job, created, userId } = startAnalysisJob(user.id, musicDir);
+
+  // The library is shared, so a scan started by anyone blocks another; only its owner and admins see which
+  if (!created) {
+    if (userId !== user.id && !user.isAdmin) {
+      return res.status(409).json({
+        error: 'Analysis job already running',
+        message: 'Another user is already analyzing the music library'
+      });
+    }
+    return res.status(409).json({
+      error: 'Analysis job already running',
+      message: `Job ${job.id} is already analyzing the music library`,
+      job,
+    });
+  }
+
+  res.status(202).json(job);
+});
+
+/**
+ * Whose analysis jobs the signed-in user may see: their own, or everyone's (null) for admins
+ */
+function analysisJobOwner(res: express.Response): number | null {
+  const user = currentUser(res);
+  return user.isAdmin ? null : user.id;
+}
+
+// List analysis jobs
+app.get('/api/analysis/jobs', (req, res) => {
+  res.json({ jobs: listAnalysisJobs(analysisJobOwner(res)) });
+});
+
+// Analysis job progress
+app.get('/api/analysis/jobs/:id', (req, res) => {
+  const job = getAnalysisJob(analysisJobOwner(res), req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: `Analysis job ${req.params.id} not found`
+    });
+  }
+  res.json(job);
+});
+
+// Cancel a running analysis job
+app.post('/api/analysis/jobs/:id/cancel', (req, res) => {
+  const job = cancelAnalysisJob(analysisJobOwner(res), req.params.id);
+  if (!job) {
+    return res.status(404).json({
+      error: 'Job not found',
+      message: `Analysis job ${req.params.id} not found`
+    });
+  }
+  res.json(job);
+});
+
+const QUEUE_REQUEST_STATES: QueueRequestState[] = ['pending', 'running', 'failed', 'dead'];
+
+// Inspect the request queue: counts per API and state, and the latest requests (filter with state, api)
+app.get('/api/queue', requireAdmin, (req, res) => {
+  const state = req.query.state as QueueRequestState | undefined;
+  const api = (req.query.api as string) || undefined;
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+
+  if (state !== undefined && !QUEUE_REQUEST_STATES.includes(state)) {
+    return res.status(400).json({
+      error: 'Invalid state',
+      message: `State must be one of: ${QUEUE_REQUEST_STATES.join(', ')}`
+    });
+  }
+
+  res.json(inspectQueue({ state, api, limit }));
+});
+
+// Redo a failed or dead-lettered request
+app.post('/api/queue/requests/:id/retry', requireAdmin, (req, res) => {
+  const outcome = retryQueueRequest(req.params.id as string);
+  if (!outcome) {
+    return res.status(404).json({
+      error: 'Request not found',
+      message: `No failed or dead request ${req.params.id} in the queue`
+    });
+  }
+  if (outcome === 'not-replayable') {
+    return res.status(409).json({
+      error: 'Request not replayable',
+      message: 'This request was made for a caller that is gone and has no task to redo it'
+    });
+  }
+  res.status(202).end();
+});
+
+// Remove a failed or dead-lettered request
+app.delete('/api/queue/requests/:id', requireAdmin, (req, res) => {
+  if (!deleteQueueRequest(req.params.id as string)) {
+    return res.status(404).json({
+      error: 'Request not found',
+      message: `No failed or dead request ${req.params.id} in the queue`
+    });
+  }
+  res.status(204).end();
+});
+
+// Current budget and usage of each upstream API's rate limiter
+app.get('/api/rate-limits', requireAdmin, async (req, res) => {
+  res.json({ limiters: await getRateLimiterStates() });
+});
+
+// Live queue depth, in-flight and backing-off requests, rate limit windows and recent 429s per API
+app.get('/api/admin/queue', requireAdmin, async (req, res) => {
+  res.json(await getQueueStatus());
+});
+
+// Validate a set name from a request body; returns an error message if invalid
+function validateSetName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 100) {
+    return 'Set name must be a non-empty string of at most 100 characters';
+  }
+  return null;
+}
+
+// Validate a set's track list from a request body; returns null if invalid
+function parseSetTracks(tracks: unknown): SetTrackRef[] | null {
+  if (!Array.isArray(tracks) || tracks.length > 500) {
+    return null;
+  }
+
+  const refs: SetTrackRef[] = [];
+  for (const track of tracks) {
+    const releaseId = track?.releaseId;
+    const position = typeof track?.position === 'string' ? track.position.trim() : '';
+    if (!Number.isInteger(releaseId) || releaseId <= 0 || !position || position.length > 20) {
+      return null;
+    }
+    refs.push({ releaseId, position });
+  }
+  return refs;
+}
+
+// Parse the :id route param of a set route; sends 400 and returns null if invalid
+function parseSetId(req: express.Request, res: express.Response): number | null {
+  const id = parseInt(req.params.id as string);
+  if (isNaN(id) || id <= 0) {
+    res.status(400).json({ error: 'Invalid set ID', message: 'Set ID must be a positive number' });
+    return null;
+  }
+  return id;
+}
+
+const invalidSetTracksMessage = 'Tracks must be an array of at most 500 { releaseId, position } entries';
+
+// List DJ sets
+app.get('/api/sets', (req, res) => {
+  res.json({ sets: listSets(currentUser(res).id) });
+});
+
+// Create a DJ set
+app.post('/api/sets', (req, res) => {
+  const { name, tracks } = req.body || {};
+
+  const nameError = validateSetName(name);
+  if (nameError) {
+    return res.status(400).json({ error: 'Invalid name', message: nameError });
+  }
+  const refs = tracks === undefined ? [] : parseSetTracks(tracks);
+  if (!refs) {
+    return res.status(400).json({ error: 'Invalid tracks', message: invalidSetTracksMessage });
+  }
+
+  try {
+    res.status(201).json(createSet(currentUser(res).id, name.trim(), refs));
+  } catch (error) {
+    logError('error', 'Error creating set', {
+      endpoint: '/api/sets',
+      name,
+    }, error);
+    res.status(500).json({
+      error: 'Failed to create set',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Get a DJ set with transitions and runtime
+app.get('/api/sets/:id', (req, res) => {
+  const id = parseSetId(req, res);
+  if (id === null) return;
+
+  const set = getSet(currentUser(res).id, id);
+  if (!set) {
+    return res.status(404).json({ error: 'Set not found', message: `Set ${id} not found` });
+  }
+  res.json(set);
+});
+
+// Rename a DJ set and/or replace its tracks (used for adding, removing, and reordering)
+app.patch('/api/sets/:id', (req, res) => {
+  const id = parseSetId(req, res);
+  if (id === null) return;
+
+  const { name, tracks } = req.body || {};
+
+  if (name !== undefined) {
+    const nameError = validateSetName(name);
+    if (nameError) {
+      return res.status(400).json({ error: 'Invalid name', message: nameError });
+    }
+  }
+  const refs = tracks === undefined ? undefined : parseSetTracks(tracks);
+  if (refs === null) {
+    return res.status(400).json({ error: 'Invalid tracks', message: invalidSetTracksMessage });
+  }
+  if (name === undefined && refs === undefined) {
+    return res.status(400).json({ error: 'Missing changes', message: 'Provide a name, tracks, or both' });
+  }
+
+  try {
+    const set = updateSet(currentUser(res).id, id, { name: name?.trim(), tracks: refs });
+    if (!set) {
+      return res.status(404).json({ error: 'Set not found', message: `Set ${id} not found` });
+    }
+    res.json(set);
+  } catch (error) {
+    logError('error', 'Error updating set', {
+      endpoint: '/api/sets/:id',
+      setId: id,
+    }, error);
+    res.status(500).json({
+      error: 'Failed to update set',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Delete a DJ set
+app.delete('/api/sets/:id', (req, res) => {
+  const id = parseSetId(req, res);
+  if (id === null) return;
+
+  if (!deleteSet(currentUser(res).id, id)) {
+    return res.status(404).json({ error: 'Set not found', message: `Set ${id} not found` });
+  }
+  res.status(204).end();
+});
+
+// Suggest collection tracks to play next, by tempo and key
+app.get('/api/sets/:id/suggestions', (req, res) => {
+  const id = parseSetId(req, res);
+  if (id === null) return;
+
+  const discogs = requireDiscogs(res);
+  if (!discogs) return;
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), 50);
+
+  try {
+    const suggestions = suggestNextTracks(currentUser(res).id, id, limit);
+    if (!suggestions) {
+      return res.status(404).json({ error: 'Set not found', message: `Set ${id} not found` });
+    }
+    res.json({ suggestions });
+  } catch (error) {
+    logError('error', 'Error suggesting tracks', {
+      endpoint: '/api/sets/:id/suggestions',
+      setId: id,
+    }, error);
+    res.status(500).json({
+      error: 'Failed to suggest tracks',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Export the collection (optionally filtered) or a saved set as CSV, JSON, Rekordbox XML, or M3U8
+// The export type is `as`, since `format` is the library's record-format filter
+app.get('/api/export', (req, res) => {
+  const format = req.query.as as ExportFormat;
+  const setParam = req.query.set as string | undefined;
+  const fileExtension = ((req.query.ext as string) || 'flac').trim();
+  const libraryPath = ((req.query.library_path as string) || '').trim();
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({
+      error: 'Invalid format',
+      message: `as must be one of: ${EXPORT_FORMATS.join(', ')}`
+    });
+  }
+  if (!/^[a-z0-9]{1,5}$/i.test(fileExtension)) {
+    return res.status(400).json({ error: 'Invalid extension', message: 'File extension must be 1-5 letters or digits' });
+  }
+
+  try {
+    let data: ExportData | null;
+    // Named from the parsed ID, never the raw parameter, which parseInt accepts with trailing junk
+    let fileStem = 'collection';
+    if (setParam !== undefined) {
+      const setId = parseInt(setParam);
+      if (isNaN(setId) || setId <= 0) {
+        return res.status(400).json({ error: 'Invalid set ID', message: 'Set ID must be a positive number' });
+      }
+      data = collectSetExport(currentUser(res).id, setId);
+      if (!data) {
+        return res.status(404).json({ error: 'Set not found', message: `Set ${setId} not found` });
+      }
+      fileStem = `set-${setId}`;
+    } else {
+      const query = parseLibraryQuery(req.query);
+      const discogs = requireDiscogs(res);
+      if (!discogs) return;
+      data = collectCollectionExport(discogs.userId, query);
+    }
+
+    const exported = serializeExport(data, format, { libraryPath, fileExtension });
+    const fileName = `vinyl-dash-${fileStem}.${exported.fileExtension}`;
+    res.setHeader('Content-Type', exported.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(exported.body);
+  } catch (error) {
+    if (isApiError(error)) {
+      return res.status(error.status).json({ error: error.error, message: error.message });
+    }
+
+    logError('error', 'Error exporting library', {
+      endpoint: '/api/export',
+      format,
+      set: setParam,
+    }, error);
+    res.status(500).json({
+      error: 'Failed to export',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    });
+  }
+});
+
+// Unhandled error middleware; registered after every route, or Express never reaches it
+app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  logError('error', 'Unhandled error in request handler', {
+    method: req.method,
+    path: req.path,
+    query: req.query,
+    body: req.body,
+  }, err);
+  
+  res.status(500).json({
+    error: 'Internal server error',
+    message: 'An unexpected error occurred',
+  });
+});
+
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
+
+  // Requests queued when the previous process stopped
+  const { resumed, interrupted } = resumeQueue();
+  if (resumed || interrupted) {
+    console.log(`Request queue: resumed ${resumed} queued request(s), ${interrupted} could not be resumed`);
+  }
+
+  // Enrichment jobs that were running when the previous process stopped
+  const enrichment = resumeEnrichmentJobs();
+  if (enrichment.resumed || enrichment.failed) {
+    console.log(`Enrichment: resumed ${enrichment.resumed} job(s), ${enrichment.failed} could not be resumed`);
+  }
 });
 
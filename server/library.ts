@@ -0,0 +1,398 @@
+// Aggregated collection view for the dashboard
+// Filters, sorts and pages the stored collection on the server, with each record's tracklist and BPM data
+// inlined, so the client only renders one page at a time. Filters match the dashboard's filter panel and
+// use the same query parameters as its shareable URLs.
+
+import {
+  readCollectionRecords,
+  readReleaseDetails,
+  readTracklists,
+  readBpmResult,
+  ALL_FOLDER_ID,
+  type CollectionSyncState,
+} from './libraryStore';
+import { readTrackBpm } from './bpmOverrides';
+import { matchingReleaseIds } from './search';
+import { createApiError } from './apiClient';
+import type {
+  BpmInfo,
+  CacheMetadata,
+  LibraryRecord,
+  LibraryResponse,
+  LibrarySortField,
+  Track,
+  VinylRecord,
+} from '../client/src/types';
+
+export const LIBRARY_SORT_FIELDS: LibrarySortField[] = ['added', 'artist', 'title', 'year', 'label', 'bpm'];
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+// Collections kept loaded between requests, least recently used dropped first
+const LOADED_COLLECTIONS_MAX = 20;
+
+export interface LibraryQuery {
+  text: string;
+  bpmMin?: number;
+  bpmMax?: number;
+  // Also match tracks at half or double the tempo
+  halfDouble: boolean;
+  // Camelot codes, e.g. "8A"
+  keys: string[];
+  yearMin?: number;
+  yearMax?: number;
+  labels: string[];
+  genres: string[];
+  styles: string[];
+  formats: string[];
+  folderId: number;
+  sort: LibrarySortField;
+  direction: 'asc' | 'desc';
+  cursor?: string;
+  limit: number;
+}
+
+// Sort value and release ID of a record; the ID breaks ties so every record has a distinct position
+type SortKey = [string | number | null, number];
+
+interface LoadedCollection {
+  // Sync version and time the records were read at; any sync, invalidation or reset changes it
+  syncKey: string;
+  records: VinylRecord[];
+  filterOptions: LibraryResponse['filterOptions'];
+}
+
+// By user and folder, so paging and typing in the filter don't re-read the whole collection each time
+const loadedCollections = new Map<string, LoadedCollection>();
+
+/**
+ * Read a query parameter that may be given several times
+ */
+function listParam(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values.map(String).map((item) => item.trim()).filter(Boolean);
+}
+
+/**
+ * Read an optional positive number; throws a 400 error if the parameter is there but isn't one
+ */
+function numberParam(query: Record<string, unknown>, name: string): number | undefined {
+  if (query[name] === undefined || query[name] === '') {
+    return undefined;
+  }
+  const value = Number(query[name]);
+  if (!isFinite(value) || value <= 0) {
+    throw createApiError(400, `Invalid ${name}`, `${name} must be a positive number`);
+  }
+  return value;
+}
+
+/**
+ * Parse /api/library query parameters; throws a 400 error for invalid values
+ */
+export function parseLibraryQuery(query: Record<string, unknown>): LibraryQuery {
+  const sort = (query.sort ?? 'added') as LibrarySortField;
+  if (!LIBRARY_SORT_FIELDS.includes(sort)) {
+    throw createApiError(400, 'Invalid sort', `sort must be one of: ${LIBRARY_SORT_FIELDS.join(', ')}`);
+  }
+
+  const order = query.order ?? (sort === 'added' ? 'desc' : 'asc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw createApiError(400, 'Invalid order', 'order must be asc or desc');
+  }
+
+  const limit = numberParam(query, 'limit') ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit > MAX_PAGE_SIZE) {
+    throw createApiError(400, 'Invalid limit', `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const folderId = query.folder === undefined ? ALL_FOLDER_ID : Number(query.folder);
+  if (!Number.isInteger(folderId) || folderId < 0) {
+    throw createApiError(400, 'Invalid folder', 'folder must be a folder ID (0 for all releases)');
+  }
+
+  return {
+    text: typeof query.q === 'string' ? query.q.trim() : '',
+    bpmMin: numberParam(query, 'bpm_min'),
+    bpmMax: numberParam(query, 'bpm_max'),
+    halfDouble: query.half_double === '1',
+    keys: listParam(query.key),
+    yearMin: numberParam(query, 'year_min'),
+    yearMax: numberParam(query, 'year_max'),
+    labels: listParam(query.label),
+    genres: listParam(query.genre),
+    styles: listParam(query.style),
+    formats: listParam(query.format),
+    folderId,
+    sort,
+    direction: order,
+    cursor: typeof query.cursor === 'string' && query.cursor ? query.cursor : undefined,
+    limit,
+  };
+}
+
+/**
+ * Names of every label a record was released on
+ */
+function recordLabels(record: VinylRecord): string[] {
+  return record.labels?.length ? record.labels.map((label) => label.name) : [record.label];
+}
+
+/**
+ * Whether a multi-select filter accepts a record's values (no selection accepts everything)
+ */
+function matchesAny(selected: string[], values: string[] | undefined): boolean {
+  return selected.length === 0 || (values ?? []).some((value) => selected.includes(value));
+}
+
+/**
+ * Same text, year, label, genre, style and format match the dashboard's filter panel applies
+ * Text also matches releases the search index finds, e.g. through a track title or a misspelled word.
+ */
+function matchesRecord(record: VinylRecord, query: LibraryQuery, searchMatches: Set<number>): boolean {
+  const searchText = query.text.toLowerCase();
+  const matchesText = (
+    searchMatches.has(record.id) ||
+    record.title.toLowerCase().includes(searchText) ||
+    record.artist.toLowerCase().includes(searchText) ||
+    record.label.toLowerCase().includes(searchText) ||
+    (record.catno !== undefined && record.catno.toLowerCase().includes(searchText)) ||
+    (record.year !== null && record.year.toString().includes(searchText))
+  );
+  if (!matchesText) {
+    return false;
+  }
+
+  if (query.yearMin !== undefined || query.yearMax !== undefined) {
+    if (!record.year ||
+        (query.yearMin !== undefined && record.year < query.yearMin) ||
+        (query.yearMax !== undefined && record.year > query.yearMax)) {
+      return false;
+    }
+  }
+
+  return (
+    matchesAny(query.labels, recordLabels(record)) &&
+    matchesAny(query.genres, record.genres) &&
+    matchesAny(query.styles, record.styles) &&
+    matchesAny(query.formats, record.formats)
+  );
+}
+
+function hasBpmFilters(query: LibraryQuery): boolean {
+  return query.bpmMin !== undefined || query.bpmMax !== undefined || query.keys.length > 0;
+}
+
+/**
+ * Whether one BPM result satisfies both the tempo range (optionally at half or double time) and the keys
+ */
+function matchesBpm(bpm: BpmInfo, query: LibraryQuery): boolean {
+  if (query.bpmMin !== undefined || query.bpmMax !== undefined) {
+    const tempo = Number(bpm.tempo);
+    const inRange = (value: number) =>
+      (query.bpmMin === undefined || value >= query.bpmMin) &&
+      (query.bpmMax === undefined || value <= query.bpmMax);
+    if (!tempo || !(inRange(tempo) || (query.halfDouble && (inRange(tempo * 2) || inRange(tempo / 2))))) {
+      return false;
+    }
+  }
+  if (query.keys.length > 0 && (!bpm.parsedKey || !query.keys.includes(bpm.parsedKey.camelot))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Attach the stored tracklist and BPM data to a record; never calls Discogs or a BPM provider
+ */
+function toLibraryRecord(userId: number, record: VinylRecord, tracks: Track[] | null): LibraryRecord {
+  return {
+    record,
+    bpm: readBpmResult(record.title.toLowerCase(), record.artist.toLowerCase())?.value ?? null,
+    tracks: tracks
+      ? tracks.map((track) => ({
+        ...track,
+        bpm: track.position ? readTrackBpm(userId, record.id, track.position, track.title, record.artist) : null,
+      }))
+      : null,
+  };
+}
+
+/**
+ * A record's tempo for sorting: its own lookup's, else its first track with one
+ */
+function recordTempo(entry: LibraryRecord): number | null {
+  const tempos = [entry.bpm, ...(entry.tracks ?? []).map((track) => track.bpm)]
+    .map((bpm) => Number(bpm?.tempo))
+    .filter((tempo) => tempo > 0);
+  return tempos[0] ?? null;
+}
+
+/**
+ * Order two sort keys in the given direction; records without a value go last either way
+ */
+function compareSortKeys([aValue, aId]: SortKey, [bValue, bId]: SortKey, direction: 'asc' | 'desc'): number {
+  if (aValue !== bValue) {
+    if (aValue === null) return 1;
+    if (bValue === null) return -1;
+    const order = typeof aValue === 'number' && typeof bValue === 'number'
+      ? aValue - bValue
+      : String(aValue).localeCompare(String(bValue));
+    if (order !== 0) {
+      return direction === 'asc' ? order : -order;
+    }
+  }
+  return direction === 'asc' ? aId - bId : bId - aId;
+}
+
+function encodeCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+/**
+ * Decode a cursor from an earlier page; throws a 400 error if it isn't one
+ */
+function decodeCursor(cursor: string): SortKey {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Array.isArray(key) && key.length === 2 && typeof key[1] === 'number' &&
+        (key[0] === null || typeof key[0] === 'string' || typeof key[0] === 'number')) {
+      return key as SortKey;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw createApiError(400, 'Invalid cursor', 'cursor must be the nextCursor of an earlier response');
+}
+
+/**
+ * A user's collection folder with one record per release, read again only when the sync state changes
+ */
+function loadCollection(userId: number, folderId: number, sync: CollectionSyncState): LoadedCollection {
+  const key = `${userId}:${folderId}`;
+  const syncKey = `${sync.version}:${sync.syncedAt}`;
+  let loaded = loadedCollections.get(key);
+  loadedCollections.delete(key);
+
+  if (loaded?.syncKey !== syncKey) {
+    // Each copy of a release is listed; the library shows a release once
+    const seen = new Set<number>();
+    const records = readCollectionRecords(userId, folderId).filter((record) => {
+      if (seen.has(record.id)) {
+        return false;
+      }
+      seen.add(record.id);
+      return true;
+    });
+
+    const distinct = (values: (string | undefined)[]) =>
+      Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+    loaded = {
+      syncKey,
+      records,
+      filterOptions: {
+        labels: distinct(records.flatMap(recordLabels)),
+        genres: distinct(records.flatMap((record) => record.genres ?? [])),
+        styles: distinct(records.flatMap((record) => record.styles ?? [])),
+        formats: distinct(records.flatMap((record) => record.formats ?? [])),
+      },
+    };
+  }
+
+  loadedCollections.set(key, loaded);
+  if (loadedCollections.size > LOADED_COLLECTIONS_MAX) {
+    loadedCollections.delete(loadedCollections.keys().next().value!);
+  }
+  return loaded;
+}
+
+/**
+ * Every record of a user's stored collection that passes the filters, sorted, with its sort key
+ * Tracklists and BPM data are only read for every record when a BPM filter or sort needs them, and then
+ * the tracklists are read in one query.
+ */
+function selectRecords(userId: number, query: LibraryQuery, sync: CollectionSyncState) {
+  const { records, filterOptions } = loadCollection(userId, query.folderId, sync);
+
+  const bpmFilters = hasBpmFilters(query);
+  const tracklists = bpmFilters || query.sort === 'bpm' ? readTracklists(records.map((record) => record.id)) : null;
+  const details = new Map<number, LibraryRecord>();
+  const detailsFor = (record: VinylRecord) => {
+    let entry = details.get(record.id);
+    if (!entry) {
+      const tracks = tracklists ? tracklists.get(record.id) : readReleaseDetails(record.id)?.value.tracks;
+      entry = toLibraryRecord(userId, record, tracks ?? null);
+      details.set(record.id, entry);
+    }
+    return entry;
+  };
+
+  // A record passes the BPM filters if its own lookup or any of its tracks does
+  const searchMatches = query.text ? matchingReleaseIds(query.text) : new Set<number>();
+  const matching = records.filter((record) => {
+    if (!matchesRecord(record, query, searchMatches)) {
+      return false;
+    }
+    if (!bpmFilters) {
+      return true;
+    }
+    const entry = detailsFor(record);
+    return [entry.bpm, ...(entry.tracks ?? []).map((track) => track.bpm)].some((bpm) => bpm && matchesBpm(bpm, query));
+  });
+
+  const sortKey = (record: VinylRecord): SortKey => {
+    switch (query.sort) {
+      case 'added': return [record.dateAdded ?? null, record.id];
+      case 'artist': return [record.artist.toLowerCase(), record.id];
+      case 'title': return [record.title.toLowerCase(), record.id];
+      case 'year': return [record.year || null, record.id];
+      case 'label': return [record.label.toLowerCase(), record.id];
+      case 'bpm': return [recordTempo(detailsFor(record)), record.id];
+    }
+  };
+  const sorted = matching
+    .map((record) => ({ record, key: sortKey(record) }))
+    .sort((a, b) => compareSortKeys(a.key, b.key, query.direction));
+
+  return { sorted, detailsFor, filterOptions };
+}
+
+/**
+ * One page of a user's stored collection, filtered and sorted
+ */
+export function queryLibrary(
+  userId: number,
+  query: LibraryQuery,
+  sync: CollectionSyncState,
+  cache: CacheMetadata
+): LibraryResponse {
+  const { sorted, detailsFor, filterOptions } = selectRecords(userId, query, sync);
+
+  // The page starts after the last record of the previous one, wherever that record sorts now
+  let start = 0;
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    start = sorted.findIndex((item) => compareSortKeys(item.key, after, query.direction) > 0);
+    if (start === -1) {
+      start = sorted.length;
+    }
+  }
+  const page = sorted.slice(start, start + query.limit);
+  const hasMore = start + query.limit < sorted.length;
+
+  return {
+    records: page.map((item) => detailsFor(item.record)),
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1]!.key) : null,
+    total: sorted.length,
+    filterOptions,
+    cache,
+  };
+}
+
+/**
+ * All of a user's stored collection that passes the filters, sorted, without paging; the cursor and limit
+ * are ignored
+ */
+export function listLibrary(userId: number, query: LibraryQuery, sync: CollectionSyncState): LibraryRecord[] {
+  const { sorted, detailsFor } = selectRecords(userId, query, sync);
+  return sorted.map((item) => detailsFor(item.record));
+}
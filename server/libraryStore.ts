@@ -0,0 +1,971 @@
+// Durable library store: normalized releases, tracks, artists, labels, and BPM results
+// Rows carry fetched-at timestamps so callers can serve them immediately and refresh stale ones
+
+import { db } from './db';
+import { runWithPriority } from './requestQueue';
+import { parseMusicalKey } from './musicalKey';
+import { logError } from './logger';
+import type {
+  BpmInfo,
+  CollectionResponse,
+  RecordArtist,
+  RecordLabel,
+  ReleaseDetailsResponse,
+  Track,
+  VinylRecord,
+} from '../client/src/types';
+
+// Discogs folder holding every release in a collection
+export const ALL_FOLDER_ID = 0;
+
+// How long stored rows are considered fresh before a background refresh is triggered
+export const COLLECTION_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+export const WANTLIST_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+export const TRACKS_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const BPM_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const BPM_NOT_FOUND_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// fetched_at of rows invalidated on request; they're fetched again before being served
+const INVALIDATED_AT = 0;
+
+export interface StoredRow<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+const refreshesInProgress = new Set<string>();
+
+/**
+ * Check whether a stored row is older than the given max age
+ */
+export function isStale(fetchedAt: number, maxAgeMs: number): boolean {
+  return Date.now() - fetchedAt > maxAgeMs;
+}
+
+/**
+ * Check whether a stored row was invalidated and has to be fetched again before it's served
+ */
+export function isInvalidated(fetchedAt: number): boolean {
+  return fetchedAt === INVALIDATED_AT;
+}
+
+/**
+ * Run a refresh without blocking the caller; concurrent refreshes for the same key are collapsed
+ * Its upstream requests queue as prefetches, behind anything a user is waiting on.
+ */
+export function refreshInBackground(key: string, refreshFn: () => Promise<unknown>): void {
+  if (refreshesInProgress.has(key)) {
+    return;
+  }
+
+  refreshesInProgress.add(key);
+  runWithPriority('prefetch', refreshFn)
+    .catch((error) => {
+      logError('warn', 'Background refresh failed', {
+        operation: 'refreshInBackground',
+        key,
+      }, error);
+    })
+    .finally(() => {
+      refreshesInProgress.delete(key);
+    });
+}
+
+const upsertArtist = db.query(`
+  INSERT INTO artists (id, name) VALUES ($id, $name)
+  ON CONFLICT(id) DO UPDATE SET name = excluded.name
+`);
+
+const upsertLabel = db.query(`
+  INSERT INTO labels (id, name) VALUES ($id, $name)
+  ON CONFLICT(id) DO UPDATE SET name = excluded.name
+`);
+
+const upsertRelease = db.query(`
+  INSERT INTO releases (
+    id, title, artist, label, year, cover_image, genres, styles, formats, format_details, rpm, fetched_at
+  )
+  VALUES (
+    $id, $title, $artist, $label, $year, $coverImage, $genres, $styles, $formats, $formatDetails, $rpm, $fetchedAt
+  )
+  ON CONFLICT(id) DO UPDATE SET
+    title = excluded.title,
+    artist = excluded.artist,
+    label = excluded.label,
+    year = excluded.year,
+    cover_image = excluded.cover_image,
+    genres = excluded.genres,
+    styles = excluded.styles,
+    formats = excluded.formats,
+    format_details = excluded.format_details,
+    rpm = excluded.rpm,
+    fetched_at = excluded.fetched_at
+`);
+
+const deleteReleaseArtists = db.query('DELETE FROM release_artists WHERE release_id = $releaseId');
+const insertReleaseArtist = db.query(`
+  INSERT INTO release_artists (release_id, artist_id, anv, join_string, sort_order)
+  VALUES ($releaseId, $artistId, $anv, $join, $sortOrder)
+`);
+
+const deleteReleaseLabels = db.query('DELETE FROM release_labels WHERE release_id = $releaseId');
+const insertReleaseLabel = db.query(`
+  INSERT INTO release_labels (release_id, label_id, catno, sort_order) VALUES ($releaseId, $labelId, $catno, $sortOrder)
+`);
+
+const deleteSearchDocuments = db.query('DELETE FROM search_documents WHERE release_id = $releaseId');
+const insertSearchDocument = db.query(`
+  INSERT INTO search_documents (release_id, position, title, artists, labels, catnos, release_artist)
+  VALUES ($releaseId, $position, $title, $artists, $labels, $catnos, $releaseArtist)
+`);
+const selectTrackTitles = db.query<{ position: string; title: string }, { releaseId: number }>(
+  'SELECT position, title FROM tracks WHERE release_id = $releaseId ORDER BY sort_order'
+);
+
+/**
+ * Replace a release's search documents: the release itself and each of its stored tracks
+ * Must match the documents migration 16 built for releases stored before the index existed.
+ */
+function indexRelease(record: VinylRecord): void {
+  deleteSearchDocuments.run({ releaseId: record.id });
+  const labels = (record.labels ?? []).filter((label) => label.id);
+
+  insertSearchDocument.run({
+    releaseId: record.id,
+    position: null,
+    title: record.title,
+    artists: [record.artist, ...(record.artists ?? []).filter((artist) => artist.id).map((artist) => artist.name)].join(' ').trim(),
+    labels: [record.label, ...labels.map((label) => label.name)].join(' ').trim(),
+    catnos: labels
+      .filter((label) => label.catno)
+      .map((label) => `${label.catno} ${label.catno!.replace(/[ .-]/g, '')}`)
+      .join(' '),
+    releaseArtist: '',
+  });
+
+  selectTrackTitles.all({ releaseId: record.id }).forEach((track) => {
+    insertSearchDocument.run({
+      releaseId: record.id,
+      position: track.position,
+      title: track.title,
+      artists: '',
+      labels: '',
+      catnos: '',
+      releaseArtist: record.artist,
+    });
+  });
+}
+
+/**
+ * Write a release and its artist/label relations, and re-index it for search
+ */
+function writeRelease(record: VinylRecord, fetchedAt: number): void {
+  upsertRelease.run({
+    id: record.id,
+    title: record.title,
+    artist: record.artist,
+    label: record.label,
+    year: record.year,
+    coverImage: record.coverImage,
+    genres: JSON.stringify(record.genres ?? []),
+    styles: JSON.stringify(record.styles ?? []),
+    formats: JSON.stringify(record.formats ?? []),
+    formatDetails: JSON.stringify(record.formatDetails ?? []),
+    rpm: record.rpm ?? null,
+    fetchedAt,
+  });
+
+  // Credits without a Discogs id can't be related; they stay in the denormalized artist/label strings
+  deleteReleaseArtists.run({ releaseId: record.id });
+  (record.artists ?? []).filter((artist) => artist.id).forEach((artist, index) => {
+    upsertArtist.run({ id: artist.id, name: artist.name });
+    insertReleaseArtist.run({
+      releaseId: record.id,
+      artistId: artist.id,
+      anv: artist.anv ?? null,
+      join: artist.join ?? null,
+      sortOrder: index,
+    });
+  });
+
+  deleteReleaseLabels.run({ releaseId: record.id });
+  (record.labels ?? []).filter((label) => label.id).forEach((label, index) => {
+    upsertLabel.run({ id: label.id, name: label.name });
+    insertReleaseLabel.run({ releaseId: record.id, labelId: label.id, catno: label.catno ?? null, sortOrder: index });
+  });
+
+  indexRelease(record);
+}
+
+// A releases row; rows joined with a collection or wantlist item also carry its fields as ci_* columns
+interface ReleaseRow {
+  id: number;
+  title: string;
+  artist: string;
+  label: string;
+  year: number | null;
+  cover_image: string;
+  genres: string | null;
+  styles: string | null;
+  formats: string | null;
+  format_details: string | null;
+  rpm: number | null;
+  ci_instance_id?: number | null;
+  ci_folder_id?: number | null;
+  ci_date_added?: string | null;
+  ci_rating?: number | null;
+  ci_notes?: string | null;
+}
+
+// A release joined with one of its tracks
+interface ReleaseTrackRow extends ReleaseRow {
+  track_position: string;
+  track_title: string;
+  track_duration: string | null;
+}
+
+interface ReleaseArtistRow {
+  release_id: number;
+  id: number;
+  name: string;
+  anv: string | null;
+  join_string: string | null;
+}
+
+interface ReleaseLabelRow {
+  release_id: number;
+  id: number;
+  name: string;
+  catno: string | null;
+}
+
+// Artists and labels of many releases at once ($releaseIds is a JSON array), so reading a whole
+// collection takes two queries rather than two per release
+const selectReleasesArtists = db.query<ReleaseArtistRow, { releaseIds: string }>(`
+  SELECT ra.release_id, a.id, a.name, ra.anv, ra.join_string
+  FROM release_artists ra
+  JOIN artists a ON a.id = ra.artist_id
+  WHERE ra.release_id IN (SELECT value FROM json_each($releaseIds))
+  ORDER BY ra.release_id, ra.sort_order
+`);
+const selectReleasesLabels = db.query<ReleaseLabelRow, { releaseIds: string }>(`
+  SELECT rl.release_id, l.id, l.name, rl.catno
+  FROM release_labels rl
+  JOIN labels l ON l.id = rl.label_id
+  WHERE rl.release_id IN (SELECT value FROM json_each($releaseIds))
+  ORDER BY rl.release_id, rl.sort_order
+`);
+
+/**
+ * Group rows that carry a release_id by release, in their original order
+ */
+function groupByRelease<R extends { release_id: number }, T>(rows: R[], map: (row: R) => T): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.release_id) ?? [];
+    group.push(map(row));
+    groups.set(row.release_id, group);
+  }
+  return groups;
+}
+
+/**
+ * Map releases rows back into the record shape clients expect
+ * Rows joined with collection or wantlist items (ci_* columns) also carry the user's rating and notes.
+ */
+function toRecords(rows: ReleaseRow[]): VinylRecord[] {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const releaseIds = JSON.stringify(Array.from(new Set(rows.map((row) => row.id))));
+  const artists = groupByRelease(selectReleasesArtists.all({ releaseIds }), (artist): RecordArtist => ({
+    id: artist.id,
+    name: artist.name,
+    anv: artist.anv ?? undefined,
+    join: artist.join_string ?? undefined,
+  }));
+  const labels = groupByRelease(selectReleasesLabels.all({ releaseIds }), (label): RecordLabel => ({
+    id: label.id,
+    name: label.name,
+    catno: label.catno ?? undefined,
+  }));
+
+  return rows.map((row) => toRecord(row, artists.get(row.id) ?? [], labels.get(row.id) ?? []));
+}
+
+function toRecord(row: ReleaseRow, artists: RecordArtist[], labels: RecordLabel[]): VinylRecord {
+  return {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    label: row.label,
+    year: row.year ?? null,
+    coverImage: row.cover_image,
+    artists,
+    labels,
+    catno: labels[0]?.catno,
+    // Releases stored before these columns existed have NULLs until their next refresh
+    genres: row.genres ? JSON.parse(row.genres) : [],
+    styles: row.styles ? JSON.parse(row.styles) : [],
+    formats: row.formats ? JSON.parse(row.formats) : [],
+    formatDetails: row.format_details ? JSON.parse(row.format_details) : [],
+    rpm: row.rpm ?? undefined,
+    instanceId: row.ci_instance_id ?? undefined,
+    folderId: row.ci_folder_id ?? undefined,
+    dateAdded: row.ci_date_added ?? undefined,
+    rating: row.ci_rating ?? undefined,
+    notes: row.ci_notes ? JSON.parse(row.ci_notes) : undefined,
+  };
+}
+
+const selectRelease = db.query<ReleaseRow, { releaseId: number }>('SELECT * FROM releases WHERE id = $releaseId');
+
+/**
+ * Read a stored release record; returns null if it was never stored
+ */
+export function readRelease(releaseId: number): VinylRecord | null {
+  const row = selectRelease.get({ releaseId });
+  return row ? toRecords([row])[0]! : null;
+}
+
+const deleteCollectionRange = db.query(`
+  DELETE FROM collection_items
+  WHERE user_id = $userId AND folder_id = $folderId
+    AND (sort_index BETWEEN $start AND $end OR sort_index >= $items)
+`);
+const insertCollectionItem = db.query(`
+  INSERT INTO collection_items (
+    user_id, folder_id, sort_index, release_id, instance_id, date_added, rating, notes, fetched_at
+  )
+  VALUES ($userId, $folderId, $sortIndex, $releaseId, $instanceId, $dateAdded, $rating, $notes, $fetchedAt)
+`);
+const upsertCollection = db.query(`
+  INSERT INTO collections (user_id, folder_id, items, fetched_at) VALUES ($userId, $folderId, $items, $fetchedAt)
+  ON CONFLICT(user_id, folder_id) DO UPDATE SET items = excluded.items, fetched_at = excluded.fetched_at
+`);
+
+/**
+ * Store one page of a user's collection folder, replacing whatever was stored at those positions
+ */
+export const saveCollectionPage = db.transaction((
+  userId: number,
+  folderId: number,
+  page: number,
+  perPage: number,
+  records: VinylRecord[],
+  totalItems: number
+) => {
+  const fetchedAt = Date.now();
+  const start = (page - 1) * perPage;
+
+  deleteCollectionRange.run({ userId, folderId, start, end: start + perPage - 1, items: totalItems });
+  records.forEach((record, index) => {
+    writeRelease(record, fetchedAt);
+    insertCollectionItem.run({
+      userId,
+      folderId,
+      sortIndex: start + index,
+      releaseId: record.id,
+      instanceId: record.instanceId ?? null,
+      dateAdded: record.dateAdded ?? null,
+      rating: record.rating ?? null,
+      notes: record.notes ? JSON.stringify(record.notes) : null,
+      fetchedAt,
+    });
+  });
+  upsertCollection.run({ userId, folderId, items: totalItems, fetchedAt });
+});
+
+// Collection item fields are aliased so they don't collide with release columns
+const collectionItemColumns = `
+  ci.instance_id AS ci_instance_id, ci.date_added AS ci_date_added, ci.rating AS ci_rating, ci.notes AS ci_notes
+`;
+
+const selectCollectionRecords = db.query<ReleaseRow, { userId: number; folderId: number }>(`
+  SELECT r.*, ${collectionItemColumns}
+  FROM collection_items ci
+  JOIN releases r ON r.id = ci.release_id
+  WHERE ci.user_id = $userId AND ci.folder_id = $folderId
+  ORDER BY ci.sort_index
+`);
+
+const selectSyncedCollectionRecords = db.query<ReleaseRow, { userId: number; folderId: number }>(`
+  SELECT r.*, ${collectionItemColumns}, ci.folder_id AS ci_folder_id
+  FROM collection_instances ci
+  JOIN releases r ON r.id = ci.release_id
+  WHERE ci.user_id = $userId AND ci.removed_at IS NULL AND ($folderId = ${ALL_FOLDER_ID} OR ci.folder_id = $folderId)
+  ORDER BY ci.date_added DESC, ci.instance_id DESC
+`);
+
+/**
+ * Read every stored record in a user's collection folder
+ * Once the collection has been synced these are the synced items, newest first; before that, the stored pages in collection order.
+ */
+export function readCollectionRecords(userId: number, folderId = ALL_FOLDER_ID): VinylRecord[] {
+  const query = readCollectionSync(userId) ? selectSyncedCollectionRecords : selectCollectionRecords;
+  return toRecords(query.all({ userId, folderId }));
+}
+
+// How many items a stored list (collection folder or wantlist) has, and when it was fetched
+interface ListRow {
+  items: number;
+  fetched_at: number;
+}
+
+// A release on a stored collection or wantlist page, with when that item was fetched
+interface ListItemRow extends ReleaseRow {
+  item_fetched_at: number;
+}
+
+const selectCollection = db.query<ListRow, { userId: number; folderId: number }>(
+  'SELECT items, fetched_at FROM collections WHERE user_id = $userId AND folder_id = $folderId'
+);
+const selectCollectionRange = db.query<ListItemRow, { userId: number; folderId: number; start: number; end: number }>(`
+  SELECT r.*, ${collectionItemColumns}, ci.fetched_at AS item_fetched_at
+  FROM collection_items ci
+  JOIN releases r ON r.id = ci.release_id
+  WHERE ci.user_id = $userId AND ci.folder_id = $folderId AND ci.sort_index BETWEEN $start AND $end
+  ORDER BY ci.sort_index
+`);
+
+/**
+ * Read one page of a user's collection folder; returns null unless every item on the page is stored
+ */
+export function readCollectionPage(
+  userId: number,
+  folderId: number,
+  page: number,
+  perPage: number
+): StoredRow<CollectionResponse> | null {
+  const collection = selectCollection.get({ userId, folderId });
+  if (!collection) {
+    return null;
+  }
+
+  const start = (page - 1) * perPage;
+  const expected = Math.max(0, Math.min(perPage, collection.items - start));
+  const rows = selectCollectionRange.all({ userId, folderId, start, end: start + perPage - 1 });
+
+  if (rows.length !== expected) {
+    return null;
+  }
+
+  return {
+    value: {
+      records: toRecords(rows),
+      pagination: {
+        page,
+        perPage,
+        pages: Math.max(1, Math.ceil(collection.items / perPage)),
+        items: collection.items,
+      },
+    },
+    // A page is only as fresh as its oldest item
+    fetchedAt: rows.reduce((oldest, row) => Math.min(oldest, row.item_fetched_at), collection.fetched_at),
+  };
+}
+
+const invalidateCollectionItems = db.query(`UPDATE collection_items SET fetched_at = ${INVALIDATED_AT} WHERE user_id = $userId`);
+const invalidateCollections = db.query(`UPDATE collections SET fetched_at = ${INVALIDATED_AT} WHERE user_id = $userId`);
+
+/**
+ * Mark every stored folder of a user's collection for refetching; returns the number of items marked
+ */
+export const invalidateCollection = db.transaction((userId: number): number => {
+  invalidateCollections.run({ userId });
+  invalidateCollectionSync.run({ userId });
+  return invalidateCollectionItems.run({ userId }).changes;
+});
+
+/**
+ * Where a user's incremental collection sync stands
+ */
+export interface CollectionSyncState {
+  // Every item a sync changes carries that sync's version; this is the latest
+  version: number;
+  syncedAt: number;
+  // Last full pass, which is the only one that notices removals
+  reconciledAt: number;
+}
+
+const selectCollectionSync = db.query<{ version: number; synced_at: number; reconciled_at: number }, { userId: number }>(
+  'SELECT version, synced_at, reconciled_at FROM collection_syncs WHERE user_id = $userId'
+);
+const upsertCollectionSync = db.query(`
+  INSERT INTO collection_syncs (user_id, version, synced_at, reconciled_at)
+  VALUES ($userId, $version, $syncedAt, $reconciledAt)
+  ON CONFLICT(user_id) DO UPDATE SET
+    version = excluded.version, synced_at = excluded.synced_at, reconciled_at = excluded.reconciled_at
+`);
+const invalidateCollectionSync = db.query(`UPDATE collection_syncs SET synced_at = ${INVALIDATED_AT} WHERE user_id = $userId`);
+const selectActiveInstanceIds = db.query<{ instance_id: number }, { userId: number }>(
+  'SELECT instance_id FROM collection_instances WHERE user_id = $userId AND removed_at IS NULL'
+);
+interface InstanceRow {
+  release_id: number;
+  folder_id: number;
+  date_added: string | null;
+  rating: number | null;
+  notes: string | null;
+  removed_at: number | null;
+}
+
+const selectInstance = db.query<InstanceRow, { userId: number; instanceId: number }>(`
+  SELECT release_id, folder_id, date_added, rating, notes, removed_at
+  FROM collection_instances WHERE user_id = $userId AND instance_id = $instanceId
+`);
+const upsertInstance = db.query(`
+  INSERT INTO collection_instances (user_id, instance_id, release_id, folder_id, date_added, rating, notes, version)
+  VALUES ($userId, $instanceId, $releaseId, $folderId, $dateAdded, $rating, $notes, $version)
+  ON CONFLICT(user_id, instance_id) DO UPDATE SET
+    release_id = excluded.release_id, folder_id = excluded.folder_id, date_added = excluded.date_added,
+    rating = excluded.rating, notes = excluded.notes, version = excluded.version, removed_at = NULL
+`);
+const markInstanceRemoved = db.query(`
+  UPDATE collection_instances SET removed_at = $removedAt, version = $version
+  WHERE user_id = $userId AND instance_id = $instanceId
+`);
+/**
+ * Read a user's collection sync state; returns null if the collection was never synced
+ */
+export function readCollectionSync(userId: number): CollectionSyncState | null {
+  const row = selectCollectionSync.get({ userId });
+  return row ? { version: row.version, syncedAt: row.synced_at, reconciledAt: row.reconciled_at } : null;
+}
+
+/**
+ * Instance IDs of the items currently in a user's synced collection
+ */
+export function readCollectionInstanceIds(userId: number): Set<number> {
+  return new Set(selectActiveInstanceIds.all({ userId }).map((row) => row.instance_id));
+}
+
+/**
+ * Store collection items from a sync; only items that are new or differ from what's stored get the next version
+ * A complete pass also marks stored items it didn't see as removed. Returns the new state and how many items changed.
+ */
+export const saveCollectionSync = db.transaction((
+  userId: number,
+  records: VinylRecord[],
+  complete: boolean
+): { state: CollectionSyncState; changed: number } => {
+  const now = Date.now();
+  const previous = readCollectionSync(userId);
+  const version = (previous?.version ?? 0) + 1;
+  const seen = new Set<number>();
+  let changed = 0;
+
+  for (const record of records) {
+    if (!record.instanceId) {
+      continue;
+    }
+    seen.add(record.instanceId);
+    writeRelease(record, now);
+
+    const item = {
+      releaseId: record.id,
+      folderId: record.folderId ?? ALL_FOLDER_ID,
+      dateAdded: record.dateAdded ?? null,
+      rating: record.rating ?? null,
+      notes: record.notes ? JSON.stringify(record.notes) : null,
+    };
+    const existing = selectInstance.get({ userId, instanceId: record.instanceId });
+    const unchanged = existing &&
+      existing.removed_at === null &&
+      existing.release_id === item.releaseId &&
+      existing.folder_id === item.folderId &&
+      existing.date_added === item.dateAdded &&
+      existing.rating === item.rating &&
+      existing.notes === item.notes;
+    if (!unchanged) {
+      upsertInstance.run({ userId, instanceId: record.instanceId, ...item, version });
+      changed++;
+    }
+  }
+
+  if (complete) {
+    for (const instanceId of readCollectionInstanceIds(userId)) {
+      if (!seen.has(instanceId)) {
+        markInstanceRemoved.run({ userId, instanceId, removedAt: now, version });
+        changed++;
+      }
+    }
+  }
+
+  const state: CollectionSyncState = {
+    version: changed > 0 ? version : previous?.version ?? 0,
+    syncedAt: now,
+    reconciledAt: complete ? now : previous?.reconciledAt ?? INVALIDATED_AT,
+  };
+  upsertCollectionSync.run({ userId, ...state });
+  return { state, changed };
+});
+
+const deleteWantlistRange = db.query(`
+  DELETE FROM wantlist_items
+  WHERE user_id = $userId AND (sort_index BETWEEN $start AND $end OR sort_index >= $items)
+`);
+const insertWantlistItem = db.query(`
+  INSERT INTO wantlist_items (user_id, sort_index, release_id, date_added, rating, notes, fetched_at)
+  VALUES ($userId, $sortIndex, $releaseId, $dateAdded, $rating, $notes, $fetchedAt)
+`);
+const upsertWantlist = db.query(`
+  INSERT INTO wantlists (user_id, items, fetched_at) VALUES ($userId, $items, $fetchedAt)
+  ON CONFLICT(user_id) DO UPDATE SET items = excluded.items, fetched_at = excluded.fetched_at
+`);
+
+/**
+ * Store one page of a user's wantlist, replacing whatever was stored at those positions
+ */
+export const saveWantlistPage = db.transaction((
+  userId: number,
+  page: number,
+  perPage: number,
+  records: VinylRecord[],
+  totalItems: number
+) => {
+  const fetchedAt = Date.now();
+  const start = (page - 1) * perPage;
+
+  deleteWantlistRange.run({ userId, start, end: start + perPage - 1, items: totalItems });
+  records.forEach((record, index) => {
+    writeRelease(record, fetchedAt);
+    insertWantlistItem.run({
+      userId,
+      sortIndex: start + index,
+      releaseId: record.id,
+      dateAdded: record.dateAdded ?? null,
+      rating: record.rating ?? null,
+      notes: record.notes ? JSON.stringify(record.notes) : null,
+      fetchedAt,
+    });
+  });
+  upsertWantlist.run({ userId, items: totalItems, fetchedAt });
+});
+
+const selectWantlist = db.query<ListRow, { userId: number }>('SELECT items, fetched_at FROM wantlists WHERE user_id = $userId');
+const selectWantlistRange = db.query<ListItemRow, { userId: number; start: number; end: number }>(`
+  SELECT r.*,
+    wi.date_added AS ci_date_added, wi.rating AS ci_rating, wi.notes AS ci_notes, wi.fetched_at AS item_fetched_at
+  FROM wantlist_items wi
+  JOIN releases r ON r.id = wi.release_id
+  WHERE wi.user_id = $userId AND wi.sort_index BETWEEN $start AND $end
+  ORDER BY wi.sort_index
+`);
+
+/**
+ * Read one page of a user's wantlist; returns null unless every item on the page is stored
+ */
+export function readWantlistPage(userId: number, page: number, perPage: number): StoredRow<CollectionResponse> | null {
+  const wantlist = selectWantlist.get({ userId });
+  if (!wantlist) {
+    return null;
+  }
+
+  const start = (page - 1) * perPage;
+  const expected = Math.max(0, Math.min(perPage, wantlist.items - start));
+  const rows = selectWantlistRange.all({ userId, start, end: start + perPage - 1 });
+
+  if (rows.length !== expected) {
+    return null;
+  }
+
+  return {
+    value: {
+      records: toRecords(rows),
+      pagination: {
+        page,
+        perPage,
+        pages: Math.max(1, Math.ceil(wantlist.items / perPage)),
+        items: wantlist.items,
+      },
+    },
+    // A page is only as fresh as its oldest item
+    fetchedAt: rows.reduce((oldest, row) => Math.min(oldest, row.item_fetched_at), wantlist.fetched_at),
+  };
+}
+
+const invalidateWantlistItems = db.query(`UPDATE wantlist_items SET fetched_at = ${INVALIDATED_AT} WHERE user_id = $userId`);
+const invalidateWantlists = db.query(`UPDATE wantlists SET fetched_at = ${INVALIDATED_AT} WHERE user_id = $userId`);
+
+/**
+ * Mark a user's stored wantlist for refetching; returns the number of items marked
+ */
+export const invalidateWantlist = db.transaction((userId: number): number => {
+  invalidateWantlists.run({ userId });
+  return invalidateWantlistItems.run({ userId }).changes;
+});
+
+const deleteCollectionItems = db.query('DELETE FROM collection_items WHERE user_id = $userId');
+const deleteCollections = db.query('DELETE FROM collections WHERE user_id = $userId');
+const deleteCollectionInstances = db.query('DELETE FROM collection_instances WHERE user_id = $userId');
+const deleteCollectionSync = db.query('DELETE FROM collection_syncs WHERE user_id = $userId');
+const deleteWantlistItems = db.query('DELETE FROM wantlist_items WHERE user_id = $userId');
+const deleteWantlists = db.query('DELETE FROM wantlists WHERE user_id = $userId');
+
+/**
+ * Forget a user's stored collection and wantlist, e.g. when they connect a different Discogs account
+ * Releases stay, since they are shared between users.
+ */
+export const clearUserLibrary = db.transaction((userId: number) => {
+  deleteCollectionItems.run({ userId });
+  deleteCollections.run({ userId });
+  deleteCollectionInstances.run({ userId });
+  deleteCollectionSync.run({ userId });
+  deleteWantlistItems.run({ userId });
+  deleteWantlists.run({ userId });
+});
+
+const deleteTracks = db.query('DELETE FROM tracks WHERE release_id = $releaseId');
+const insertTrack = db.query(`
+  INSERT INTO tracks (release_id, sort_order, position, title, duration)
+  VALUES ($releaseId, $sortOrder, $position, $title, $duration)
+`);
+const markTracksFetched = db.query('UPDATE releases SET tracks_fetched_at = $fetchedAt WHERE id = $releaseId');
+
+/**
+ * Store a release together with its full tracklist
+ */
+export const saveReleaseDetails = db.transaction((record: VinylRecord, tracks: Track[]) => {
+  const fetchedAt = Date.now();
+  const releaseId = record.id;
+
+  writeRelease(record, fetchedAt);
+  deleteTracks.run({ releaseId });
+  tracks.forEach((track, index) => {
+    insertTrack.run({
+      releaseId,
+      sortOrder: index,
+      position: track.position,
+      title: track.title,
+      duration: track.duration ?? null,
+    });
+  });
+  markTracksFetched.run({ releaseId, fetchedAt });
+  // writeRelease indexed the previous tracklist
+  indexRelease(record);
+});
+
+const invalidateTracks = db.query(`
+  UPDATE releases SET tracks_fetched_at = ${INVALIDATED_AT} WHERE id = $releaseId AND tracks_fetched_at IS NOT NULL
+`);
+
+/**
+ * Mark a release's stored tracklist for refetching; returns false if it was never fetched
+ */
+export function invalidateReleaseDetails(releaseId: number): boolean {
+  return invalidateTracks.run({ releaseId }).changes > 0;
+}
+
+interface TrackRow {
+  position: string;
+  title: string;
+  duration: string | null;
+}
+
+const selectTracksFetchedAt = db.query<{ tracks_fetched_at: number | null }, { releaseId: number }>(
+  'SELECT tracks_fetched_at FROM releases WHERE id = $releaseId'
+);
+const selectTracks = db.query<TrackRow, { releaseId: number }>(
+  'SELECT * FROM tracks WHERE release_id = $releaseId ORDER BY sort_order'
+);
+
+/**
+ * Read a release's stored tracklist; returns null if the tracklist was never fetched
+ */
+export function readReleaseDetails(releaseId: number): StoredRow<ReleaseDetailsResponse> | null {
+  const release = selectTracksFetchedAt.get({ releaseId });
+  if (!release || release.tracks_fetched_at === null) {
+    return null;
+  }
+
+  const rows = selectTracks.all({ releaseId });
+  return {
+    value: {
+      id: releaseId,
+      tracks: rows.map((row) => ({
+        title: row.title,
+        position: row.position,
+        duration: row.duration ?? undefined,
+      })),
+    },
+    fetchedAt: release.tracks_fetched_at,
+  };
+}
+
+// A release with a fetched but empty tracklist comes back as one row of NULL track columns
+const selectReleasesTracks = db.query<
+  { release_id: number; position: string | null; title: string | null; duration: string | null },
+  { releaseIds: string }
+>(`
+  SELECT r.id AS release_id, t.position, t.title, t.duration
+  FROM releases r
+  LEFT JOIN tracks t ON t.release_id = r.id
+  WHERE r.id IN (SELECT value FROM json_each($releaseIds)) AND r.tracks_fetched_at IS NOT NULL
+  ORDER BY r.id, t.sort_order
+`);
+
+/**
+ * Read the stored tracklists of many releases in one query; releases whose tracklist was never fetched are absent
+ */
+export function readTracklists(releaseIds: number[]): Map<number, Track[]> {
+  const rows = selectReleasesTracks.all({ releaseIds: JSON.stringify(releaseIds) });
+  const tracklists = groupByRelease(rows, (row): Track | null => row.position === null ? null : {
+    title: row.title!,
+    position: row.position,
+    duration: row.duration ?? undefined,
+  });
+  return new Map(Array.from(tracklists, ([releaseId, tracks]) => [releaseId, tracks.filter((track): track is Track => !!track)]));
+}
+
+const selectCollectionTracks = db.query<ReleaseTrackRow, { userId: number }>(`
+  SELECT
+    r.id, r.title, r.artist, r.label, r.year, r.cover_image, r.genres, r.styles, r.formats,
+    r.format_details, r.rpm,
+    t.position AS track_position, t.title AS track_title, t.duration AS track_duration
+  FROM releases r
+  JOIN tracks t ON t.release_id = r.id
+  WHERE r.id IN (
+    SELECT release_id FROM collection_items WHERE user_id = $userId
+    UNION
+    SELECT release_id FROM collection_instances WHERE user_id = $userId AND removed_at IS NULL
+  )
+  ORDER BY r.id, t.sort_order
+`);
+
+/**
+ * Read every stored track in a user's collection, with the record it belongs to
+ * Releases whose tracklist was never fetched are absent.
+ */
+export function readCollectionTracks(userId: number): { record: VinylRecord; track: Track }[] {
+  const rows = selectCollectionTracks.all({ userId });
+  const records = toRecords(rows);
+  return rows.map((row, index) => ({
+    record: records[index]!,
+    track: {
+      title: row.track_title,
+      position: row.track_position,
+      duration: row.track_duration ?? undefined,
+    },
+  }));
+}
+
+const selectStoredTracks = db.query<ReleaseTrackRow, []>(`
+  SELECT
+    r.id, r.title, r.artist, r.label, r.year, r.cover_image, r.genres, r.styles, r.formats,
+    r.format_details, r.rpm,
+    t.position AS track_position, t.title AS track_title, t.duration AS track_duration
+  FROM releases r
+  JOIN tracks t ON t.release_id = r.id
+  ORDER BY r.id, t.sort_order
+`);
+
+/**
+ * Read every stored track of every release, whichever collection or wantlist it came from
+ */
+export function readStoredTracks(): { record: VinylRecord; track: Track }[] {
+  const rows = selectStoredTracks.all();
+  const records = toRecords(rows);
+  return rows.map((row, index) => ({
+    record: records[index]!,
+    track: {
+      title: row.track_title,
+      position: row.track_position,
+      duration: row.track_duration ?? undefined,
+    },
+  }));
+}
+
+const upsertBpmResult = db.query(`
+  INSERT INTO bpm_results (
+    song, artist, found, external_id, title, tempo, musical_key, danceability, acousticness,
+    confidence, low_confidence, candidates, source, fetched_at
+  )
+  VALUES (
+    $song, $artist, $found, $externalId, $title, $tempo, $key, $danceability, $acousticness,
+    $confidence, $lowConfidence, $candidates, $source, $fetchedAt
+  )
+  ON CONFLICT(song, artist) DO UPDATE SET
+    found = excluded.found,
+    external_id = excluded.external_id,
+    title = excluded.title,
+    tempo = excluded.tempo,
+    musical_key = excluded.musical_key,
+    danceability = excluded.danceability,
+    acousticness = excluded.acousticness,
+    confidence = excluded.confidence,
+    low_confidence = excluded.low_confidence,
+    candidates = excluded.candidates,
+    source = excluded.source,
+    fetched_at = excluded.fetched_at
+`);
+
+/**
+ * Store a BPM lookup result; null records that the lookup found nothing
+ * Song and artist are expected to be lowercased lookup keys
+ */
+export function saveBpmResult(song: string, artist: string, info: BpmInfo | null): void {
+  upsertBpmResult.run({
+    song,
+    artist,
+    found: info ? 1 : 0,
+    externalId: info?.id ?? null,
+    title: info?.title ?? null,
+    tempo: info ? Number(info.tempo) || 0 : null,
+    key: info?.key ?? null,
+    danceability: info?.danceability ?? null,
+    acousticness: info?.acousticness ?? null,
+    confidence: info?.confidence ?? null,
+    lowConfidence: info?.lowConfidence ? 1 : 0,
+    candidates: info?.candidates ? JSON.stringify(info.candidates) : null,
+    source: info?.source ?? null,
+    fetchedAt: Date.now(),
+  });
+}
+
+interface BpmResultRow {
+  found: number;
+  external_id: string | null;
+  title: string | null;
+  tempo: number | null;
+  musical_key: string | null;
+  danceability: number | null;
+  acousticness: number | null;
+  confidence: number | null;
+  low_confidence: number;
+  candidates: string | null;
+  source: BpmInfo['source'] | null;
+  fetched_at: number;
+}
+
+const selectBpmResult = db.query<BpmResultRow, { song: string; artist: string }>(
+  'SELECT * FROM bpm_results WHERE song = $song AND artist = $artist'
+);
+
+/**
+ * Read a stored BPM lookup result; value is null when the lookup was stored as not found
+ */
+export function readBpmResult(song: string, artist: string): StoredRow<BpmInfo | null> | null {
+  const row = selectBpmResult.get({ song, artist });
+  if (!row) {
+    return null;
+  }
+
+  return {
+    value: row.found ? {
+      id: row.external_id ?? '',
+      title: row.title ?? '',
+      tempo: row.tempo ?? 0,
+      key: row.musical_key ?? undefined,
+      parsedKey: parseMusicalKey(row.musical_key) ?? undefined,
+      danceability: row.danceability ?? undefined,
+      acousticness: row.acousticness ?? undefined,
+      confidence: row.confidence ?? undefined,
+      lowConfidence: row.low_confidence ? true : undefined,
+      candidates: row.candidates ? JSON.parse(row.candidates) : undefined,
+      source: row.source ?? undefined,
+    } : null,
+    fetchedAt: row.fetched_at,
+  };
+}
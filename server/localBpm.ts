@@ -0,0 +1,152 @@
+// Local-file BPM provider: our own tagged tracks from a CSV or JSON file (LOCAL_BPM_FILE)
+// CSV needs a header row with artist, title and bpm (or tempo) columns; key and duration are optional.
+// JSON is an array of objects with the same fields. The file is re-read when it changes.
+
+import { statSync, readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { normalizeTitle } from './bpmMatcher';
+import { logError } from './logger';
+import type { BpmProvider, BpmSearchResult } from './bpmProviders';
+import type { MatchQuery } from './bpmMatcher';
+
+interface LocalTrack {
+  artist: string;
+  title: string;
+  tempo: number;
+  key?: string;
+  duration?: string;
+}
+
+// Tracks by normalized title, from the file as of loadedMtime
+let tracksByTitle = new Map<string, LocalTrack[]>();
+let loadedPath: string | null = null;
+let loadedMtime = 0;
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with commas, quotes and newlines
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Turn one CSV row or JSON entry into a track; null when it lacks an artist, title or tempo
+ */
+function toLocalTrack(entry: Record<string, unknown>): LocalTrack | null {
+  const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+  const artist = text(entry.artist);
+  const title = text(entry.title);
+  const tempo = parseFloat(text(entry.bpm ?? entry.tempo));
+  if (!artist || !title || !(tempo > 0)) {
+    return null;
+  }
+  return {
+    artist,
+    title,
+    tempo,
+    key: text(entry.key) || undefined,
+    duration: text(entry.duration) || undefined,
+  };
+}
+
+/**
+ * Parse a CSV or JSON file of tagged tracks
+ */
+function parseTracks(path: string, contents: string): LocalTrack[] {
+  let entries: Record<string, unknown>[];
+  if (extname(path).toLowerCase() === '.json') {
+    const data = JSON.parse(contents);
+    entries = Array.isArray(data) ? data : [];
+  } else {
+    const [header = [], ...rows] = parseCsv(contents);
+    const columns = header.map((name) => name.trim().toLowerCase());
+    entries = rows.map((fields) => Object.fromEntries(columns.map((name, index) => [name, fields[index]])));
+  }
+  return entries.map(toLocalTrack).filter((track): track is LocalTrack => track !== null);
+}
+
+/**
+ * The file's tracks indexed by title, re-read if the file changed since the last lookup
+ */
+function loadTracks(): Map<string, LocalTrack[]> {
+  const path = process.env.LOCAL_BPM_FILE;
+  if (!path) {
+    return new Map();
+  }
+
+  try {
+    const { mtimeMs } = statSync(path);
+    if (path === loadedPath && mtimeMs === loadedMtime) {
+      return tracksByTitle;
+    }
+
+    const index = new Map<string, LocalTrack[]>();
+    for (const track of parseTracks(path, readFileSync(path, 'utf8'))) {
+      const key = normalizeTitle(track.title);
+      index.set(key, [...(index.get(key) ?? []), track]);
+    }
+    tracksByTitle = index;
+    loadedPath = path;
+    loadedMtime = mtimeMs;
+  } catch (error) {
+    // Keep serving the last good copy while the file is missing or half-written
+    logError('warn', 'Failed to read local BPM file', {
+      operation: 'loadTracks',
+      path,
+    }, error);
+  }
+  return tracksByTitle;
+}
+
+export const localBpmProvider: BpmProvider<LocalTrack> = {
+  name: 'local',
+  isConfigured: () => !!process.env.LOCAL_BPM_FILE,
+  async search(query: MatchQuery): Promise<LocalTrack[]> {
+    return loadTracks().get(normalizeTitle(query.title)) ?? [];
+  },
+  normalize(track: LocalTrack): BpmSearchResult {
+    return {
+      id: `local:${track.artist}:${track.title}`,
+      title: track.title,
+      artist: track.artist,
+      tempo: track.tempo,
+      key: track.key,
+      duration: track.duration,
+    };
+  },
+};
@@ -0,0 +1,37 @@
+// Structured JSON logging shared by every server module
+// One line per entry, so logs can be filtered by level, message, or context fields
+
+/**
+ * Log a warning or error with its context; errors are reduced to their message, stack and name
+ */
+export function logError(level: 'error' | 'warn', message: string, context: Record<string, any> = {}, error?: Error | unknown) {
+  const logEntry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    context,
+    error: error instanceof Error ? {
+      message: error.message,
+      stack: error.stack,
+      name: error.name,
+    } : error,
+  };
+
+  if (level === 'error') {
+    console.error(JSON.stringify(logEntry));
+  } else {
+    console.warn(JSON.stringify(logEntry));
+  }
+}
+
+/**
+ * Log a notable event that isn't a problem
+ */
+export function logInfo(message: string, context: Record<string, any> = {}) {
+  console.log(JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level: 'info',
+    message,
+    context,
+  }));
+}
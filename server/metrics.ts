@@ -0,0 +1,162 @@
+// Queue, rate limit and cache observability
+// Combines the request queue's live activity with each API's rate limit window, for the admin queue
+// status route and a Prometheus text-format /metrics endpoint that also reports the cache tiers.
+
+import { getQueueActivity } from './requestQueue';
+import { getRateLimiterStates } from './rateLimiter';
+import { getCacheStats } from './redis';
+import type { QueueApiStatus, QueueStatusResponse, RequestPriority } from '../client/src/types';
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter' | 'summary';
+  // Summaries report `_sum` and `_count` samples
+  samples: { suffix?: string; labels: Record<string, string>; value: number }[];
+}
+
+const PRIORITIES: RequestPriority[] = ['interactive', 'prefetch', 'background'];
+
+/**
+ * Each API's queue and rate limit window, plus the latest 429 responses
+ */
+export async function getQueueStatus(): Promise<QueueStatusResponse> {
+  const limiters = await getRateLimiterStates();
+  const { apis, recentRateLimits } = getQueueActivity(limiters.map((limiter) => limiter.name));
+
+  return {
+    apis: apis.map((status) => ({
+      ...status,
+      rateLimit: limiters.find((limiter) => limiter.name === status.api) ?? null,
+    })),
+    recentRateLimits,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format
+ */
+function formatMetrics(metrics: Metric[]): string {
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    for (const { suffix = '', labels, value } of metric.samples) {
+      const labelText = Object.entries(labels)
+        .map(([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`)
+        .join(',');
+      lines.push(`${metric.name}${suffix}${labelText ? `{${labelText}}` : ''} ${value}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Queue, rate limit and cache metrics in the Prometheus text format
+ * Counters start from zero when the server starts.
+ */
+export async function renderMetrics(): Promise<string> {
+  const { apis } = await getQueueStatus();
+  const cache = getCacheStats();
+  const tiers = ['memory', 'redis'] as const;
+
+  // One sample per API
+  const perApi = (
+    name: string,
+    type: 'gauge' | 'counter',
+    help: string,
+    value: (status: QueueApiStatus) => number | undefined
+  ): Metric => ({
+    name,
+    help,
+    type,
+    samples: apis.flatMap((status) => {
+      const sample = value(status);
+      return sample === undefined ? [] : [{ labels: { api: status.api }, value: sample }];
+    }),
+  });
+
+  return formatMetrics([
+    {
+      name: 'vinyldash_queue_depth',
+      help: 'Requests waiting in each priority lane.',
+      type: 'gauge',
+      samples: apis.flatMap((status) => PRIORITIES.map((priority) => ({
+        labels: { api: status.api, priority },
+        value: status.depth[priority],
+      }))),
+    },
+    perApi('vinyldash_queue_in_flight', 'gauge', 'Deduplicated requests queued or running.', (status) => status.inFlight.length),
+    perApi('vinyldash_queue_backing_off', 'gauge', 'Requests waiting out a backoff after a 429.', (status) => status.backingOff.length),
+    perApi('vinyldash_queue_enqueued_total', 'counter', 'Requests added to the queue.', (status) => status.totals.enqueued),
+    perApi('vinyldash_queue_deduplicated_total', 'counter', 'Calls that joined a request already in flight.', (status) => status.totals.deduplicated),
+    {
+      name: 'vinyldash_queue_finished_total',
+      help: 'Requests that left the queue, by outcome.',
+      type: 'counter',
+      samples: apis.flatMap((status) => (['completed', 'failed', 'dead'] as const).map((outcome) => ({
+        labels: { api: status.api, outcome },
+        value: status.totals[outcome],
+      }))),
+    },
+    perApi('vinyldash_queue_retries_total', 'counter', 'Requests retried after a 429.', (status) => status.totals.retried),
+    perApi('vinyldash_queue_rate_limited_total', 'counter', '429 responses from the API.', (status) => status.totals.rateLimited),
+    {
+      name: 'vinyldash_queue_wait_seconds',
+      help: 'Time requests waited in their lane before starting.',
+      type: 'summary',
+      samples: apis.flatMap((status) => [
+        { suffix: '_sum', labels: { api: status.api }, value: status.queueWait.totalMs / 1000 },
+        { suffix: '_count', labels: { api: status.api }, value: status.queueWait.count },
+      ]),
+    },
+    perApi('vinyldash_rate_limit_wait_seconds_total', 'counter', 'Time spent waiting for a slot in the rate limit window.', (status) => status.rateLimitWaitMs / 1000),
+    perApi('vinyldash_rate_limit_max_requests', 'gauge', 'Requests allowed per rate limit window.', (status) => status.rateLimit?.maxRequests),
+    perApi('vinyldash_rate_limit_used', 'gauge', 'Requests made in the current rate limit window.', (status) => status.rateLimit?.used),
+    perApi('vinyldash_rate_limit_remaining', 'gauge', 'Requests left in the current rate limit window.', (status) => status.rateLimit?.remaining),
+    {
+      name: 'vinyldash_cache_hits_total',
+      help: 'Cache lookups answered by each tier.',
+      type: 'counter',
+      samples: tiers.map((tier) => ({ labels: { tier }, value: cache[tier].hits })),
+    },
+    {
+      name: 'vinyldash_cache_misses_total',
+      help: 'Cache lookups each tier could not answer.',
+      type: 'counter',
+      samples: tiers.map((tier) => ({ labels: { tier }, value: cache[tier].misses })),
+    },
+    {
+      name: 'vinyldash_cache_memory_entries',
+      help: 'Entries in the in-process cache tier.',
+      type: 'gauge',
+      samples: [{ labels: {}, value: cache.memory.entries }],
+    },
+    {
+      name: 'vinyldash_cache_memory_bytes',
+      help: 'Approximate size of the in-process cache tier.',
+      type: 'gauge',
+      samples: [{ labels: {}, value: cache.memory.bytes }],
+    },
+    {
+      name: 'vinyldash_cache_redis_available',
+      help: 'Whether Redis is connected (1) or the in-process tier is serving alone (0).',
+      type: 'gauge',
+      samples: [{ labels: {}, value: cache.redis.available ? 1 : 0 }],
+    },
+    {
+      name: 'vinyldash_cache_pending_writes',
+      help: 'Cache writes waiting to be replayed to Redis when it reconnects.',
+      type: 'gauge',
+      samples: [{ labels: {}, value: cache.redis.pendingWrites }],
+    },
+  ]);
+}
@@ -0,0 +1,121 @@
+// Musical key parsing and DJ notations (Camelot wheel and Open Key)
+// Accepts the many spellings keys arrive in: "A minor", "Am", "G#m", "Ab", "F♯ min", "8A", "1m"
+
+import type { KeyMode, MusicalKey } from '../client/src/types';
+
+const LETTER_PITCHES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Preferred spelling for each pitch class, as DJ software usually shows it
+const MAJOR_TONICS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const MINOR_TONICS = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+/**
+ * Position of a major key's tonic on the circle of fifths (C = 0, G = 1, ...)
+ */
+function fifthsPosition(pitchClass: number): number {
+  return (pitchClass * 7) % 12;
+}
+
+/**
+ * Build the full key description from a tonic pitch class and mode
+ */
+function describeKey(pitchClass: number, mode: KeyMode, tonic?: string): MusicalKey {
+  // Minor keys share a wheel number with their relative major, three semitones up
+  const relativeMajor = mode === 'minor' ? (pitchClass + 3) % 12 : pitchClass;
+  const camelotNumber = ((fifthsPosition(relativeMajor) + 7) % 12) + 1;
+  const openKeyNumber = ((camelotNumber + 4) % 12) + 1;
+
+  return {
+    tonic: tonic ?? (mode === 'major' ? MAJOR_TONICS : MINOR_TONICS)[pitchClass]!,
+    mode,
+    camelot: `${camelotNumber}${mode === 'minor' ? 'A' : 'B'}`,
+    openKey: `${openKeyNumber}${mode === 'minor' ? 'm' : 'd'}`,
+  };
+}
+
+/**
+ * Find the pitch class whose key lands on a given Camelot number
+ */
+function pitchClassForCamelot(camelotNumber: number, mode: KeyMode): number {
+  for (let pitchClass = 0; pitchClass < 12; pitchClass++) {
+    if (describeKey(pitchClass, mode).camelot === `${camelotNumber}${mode === 'minor' ? 'A' : 'B'}`) {
+      return pitchClass;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Parse a key string in standard, Camelot, or Open Key notation
+ * Returns null when the string isn't recognizable as a key
+ */
+export function parseMusicalKey(raw: string | undefined | null): MusicalKey | null {
+  if (!raw) {
+    return null;
+  }
+
+  const text = raw.trim().replace(/♯/g, '#').replace(/♭/g, 'b');
+
+  // Camelot: "8A" / "12B"
+  const camelot = text.match(/^(1[0-2]|[1-9])\s*([AB])$/i);
+  if (camelot) {
+    const mode: KeyMode = camelot[2]!.toUpperCase() === 'A' ? 'minor' : 'major';
+    return describeKey(pitchClassForCamelot(parseInt(camelot[1]!, 10), mode), mode);
+  }
+
+  // Open Key: "1m" / "6d"
+  const openKey = text.match(/^(1[0-2]|[1-9])\s*([md])$/i);
+  if (openKey) {
+    const mode: KeyMode = openKey[2]!.toLowerCase() === 'm' ? 'minor' : 'major';
+    const camelotNumber = ((parseInt(openKey[1]!, 10) + 6) % 12) + 1;
+    return describeKey(pitchClassForCamelot(camelotNumber, mode), mode);
+  }
+
+  // Standard: "A", "Am", "A minor", "Ab min", "F#m", "C#/Db major"
+  const standard = text.match(/^([A-G])\s*(#|b|sharp|flat)?(?:\s*\/\s*[A-G]\s*(?:#|b)?)?\s*(maj(?:or)?|min(?:or)?|m|M)?$/i);
+  if (!standard) {
+    return null;
+  }
+
+  const letter = standard[1]!.toUpperCase();
+  const accidental = (standard[2] || '').toLowerCase();
+  const modeText = standard[3] || '';
+  const mode: KeyMode = modeText === 'm' || modeText.toLowerCase().startsWith('min') ? 'minor' : 'major';
+
+  let pitchClass = LETTER_PITCHES[letter]!;
+  let tonic = letter;
+  if (accidental === '#' || accidental === 'sharp') {
+    pitchClass = (pitchClass + 1) % 12;
+    tonic += '#';
+  } else if (accidental === 'b' || accidental === 'flat') {
+    pitchClass = (pitchClass + 11) % 12;
+    tonic += 'b';
+  }
+
+  return describeKey(pitchClass, mode, tonic);
+}
+
+/**
+ * Whether two keys mix harmonically: same key, one step around the Camelot wheel, or relative major/minor
+ */
+export function isKeyCompatible(a: MusicalKey, b: MusicalKey): boolean {
+  const firstNumber = parseInt(a.camelot, 10);
+  const secondNumber = parseInt(b.camelot, 10);
+
+  if (firstNumber === secondNumber) {
+    return true;
+  }
+  if (a.mode !== b.mode) {
+    return false;
+  }
+
+  const distance = Math.abs(firstNumber - secondNumber);
+  return distance === 1 || distance === 11;
+}
+
+/**
+ * Spell a key from its tonic pitch class (C = 0) and mode, e.g. "F# minor"
+ */
+export function formatMusicalKey(pitchClass: number, mode: KeyMode): string {
+  return `${describeKey(pitchClass, mode).tonic} ${mode}`;
+}
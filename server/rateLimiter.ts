@@ -1,34 +1,106 @@
 // Rate limiter using sliding window algorithm
-// Supports multiple rate limiters for different APIs
+// Supports multiple rate limiters for different APIs. While Redis is available the window lives there,
+// so every server process draws from one budget; otherwise each process keeps its own window in memory.
+// Discogs reports its limit and remaining requests on every response, and the budget follows those reports.
+
+import { getRedisClient } from './redis';
+import { logError } from './logger';
+import type { RateLimiterState } from '../client/src/types';
 
 interface RateLimiter {
   name: string;
   maxRequests: number;
   windowMs: number;
   timestamps: number[];
+  // Latest limit the API reported about itself
+  report?: RateLimitReport;
+}
+
+interface RateLimitReport {
+  limit: number;
+  used: number;
+  remaining: number;
+  reportedAt: number;
 }
 
+// Headers Discogs sends on every response; other APIs' responses leave their budget alone
+const LIMIT_HEADER = 'X-Discogs-Ratelimit';
+const USED_HEADER = 'X-Discogs-Ratelimit-Used';
+const REMAINING_HEADER = 'X-Discogs-Ratelimit-Remaining';
+
+// A reported limit outlives the window, so a newly started process picks up the real budget
+const REPORT_TTL_MS = 60 * 60 * 1000;
+
+// Atomically drop expired timestamps, then take a slot if both the window and the latest report have room.
+// Returns 0 when a slot was taken, otherwise the milliseconds until one may open.
+// Mirrors evaluateWindow below.
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local report = redis.call('HMGET', KEYS[2], 'limit', 'remaining', 'reportedAt')
+local remaining = (tonumber(report[1]) or tonumber(ARGV[3])) - redis.call('ZCARD', KEYS[1])
+local reportedAt = tonumber(report[3])
+if reportedAt and reportedAt > now - window then
+  local madeSince = redis.call('ZCOUNT', KEYS[1], '(' .. report[3], '+inf')
+  remaining = math.min(remaining, tonumber(report[2]) - madeSince)
+end
+if remaining > 0 then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], window)
+  return 0
+end
+local oldest = tonumber(redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')[2])
+return math.max(1, (oldest or reportedAt or now) + window - now)
+`;
+
 const limiters = new Map<string, RateLimiter>();
 
-// Logging utility
-function logError(level: 'error' | 'warn', message: string, context: Record<string, any> = {}, error?: Error | unknown) {
-  const logEntry = {
-    timestamp: new Date().toISOString(),
-    level,
-    message,
-    context,
-    error: error instanceof Error ? {
-      message: error.message,
-      stack: error.stack,
-      name: error.name,
-    } : error,
-  };
-  
-  if (level === 'error') {
-    console.error(JSON.stringify(logEntry));
-  } else {
-    console.warn(JSON.stringify(logEntry));
+function windowKey(limiterName: string): string {
+  return `ratelimit:${limiterName}`;
+}
+
+function reportKey(limiterName: string): string {
+  return `ratelimit:${limiterName}:report`;
+}
+
+/**
+ * Work out how many requests a window has left, and how long to wait for a slot when it has none
+ * A report younger than the window also accounts for requests made with the same credentials elsewhere,
+ * less the requests this window started since the report.
+ */
+function evaluateWindow(
+  timestamps: number[],
+  maxRequests: number,
+  report: RateLimitReport | undefined,
+  windowMs: number,
+  now: number
+): { remaining: number; waitMs: number } {
+  let remaining = (report?.limit ?? maxRequests) - timestamps.length;
+  if (report && report.reportedAt > now - windowMs) {
+    const madeSince = timestamps.filter(ts => ts > report.reportedAt).length;
+    remaining = Math.min(remaining, report.remaining - madeSince);
   }
+  if (remaining > 0) {
+    return { remaining, waitMs: 0 };
+  }
+
+  // A slot opens when the oldest request leaves the window; with none of ours in it, once the report is stale
+  const opensAt = (timestamps[0] ?? report?.reportedAt ?? now) + windowMs;
+  return { remaining: 0, waitMs: Math.max(1, opensAt - now) };
+}
+
+/**
+ * Parse a report stored in Redis, or return undefined if it's missing or incomplete
+ */
+function parseStoredReport(fields: Record<string, string>): RateLimitReport | undefined {
+  const report = {
+    limit: Number(fields.limit),
+    used: Number(fields.used),
+    remaining: Number(fields.remaining),
+    reportedAt: Number(fields.reportedAt),
+  };
+  return Object.values(report).every(Number.isFinite) ? report : undefined;
 }
 
 /**
@@ -51,64 +123,144 @@ export function createRateLimiter(name: string, maxRequests: number, windowMs: n
 }
 
 /**
- * Check if a request can be made and return wait time if needed
+ * Take a request slot, or return how long to wait before asking again
  */
-export function canMakeRequest(limiterName: string): { allowed: boolean; waitMs?: number } {
+export async function acquireRequestSlot(limiterName: string): Promise<{ allowed: boolean; waitMs: number }> {
   const limiter = limiters.get(limiterName);
-  
+
   if (!limiter) {
     logError('warn', 'Rate limiter not found', { limiterName });
-    return { allowed: true }; // Allow if limiter doesn't exist
+    return { allowed: true, waitMs: 0 }; // Allow if limiter doesn't exist
   }
 
   const now = Date.now();
-  const windowStart = now - limiter.windowMs;
+  const redis = getRedisClient();
+  if (redis) {
+    try {
+      const waitMs = Number(await redis.eval(
+        ACQUIRE_SCRIPT,
+        2,
+        windowKey(limiterName),
+        reportKey(limiterName),
+        now,
+        limiter.windowMs,
+        limiter.maxRequests,
+        `${now}:${crypto.randomUUID()}`
+      ));
+      return { allowed: waitMs === 0, waitMs };
+    } catch (error) {
+      logError('warn', 'Shared rate limit window unavailable, using the local window', {
+        operation: 'acquireRequestSlot',
+        limiterName,
+      }, error);
+    }
+  }
 
   // Clean up old timestamps outside the window
-  limiter.timestamps = limiter.timestamps.filter(ts => ts > windowStart);
+  limiter.timestamps = limiter.timestamps.filter(ts => ts > now - limiter.windowMs);
 
-  // Check if we're under the limit
-  if (limiter.timestamps.length < limiter.maxRequests) {
-    return { allowed: true };
+  const { remaining, waitMs } = evaluateWindow(limiter.timestamps, limiter.maxRequests, limiter.report, limiter.windowMs, now);
+  if (remaining === 0) {
+    return { allowed: false, waitMs };
   }
 
-  // Calculate wait time until oldest request expires
-  const oldestTimestamp = limiter.timestamps[0];
-  const waitMs = Math.max(0, oldestTimestamp + limiter.windowMs - now);
-
-  return { allowed: false, waitMs };
+  limiter.timestamps.push(now);
+  return { allowed: true, waitMs: 0 };
 }
 
 /**
- * Record a request for rate limiting
+ * Adopt the rate limit an API reported in its response headers
+ * Responses without the headers are ignored.
  */
-export function recordRequest(limiterName: string): void {
+export async function recordRateLimitHeaders(limiterName: string, headers: Headers): Promise<void> {
   const limiter = limiters.get(limiterName);
-  
-  if (!limiter) {
-    logError('warn', 'Rate limiter not found when recording request', { limiterName });
+  const limit = parseInt(headers.get(LIMIT_HEADER) ?? '', 10);
+  const remaining = parseInt(headers.get(REMAINING_HEADER) ?? '', 10);
+  if (!limiter || !(limit > 0) || isNaN(remaining)) {
+    return;
+  }
+
+  const used = parseInt(headers.get(USED_HEADER) ?? '', 10);
+  const report: RateLimitReport = {
+    limit,
+    used: isNaN(used) ? limit - remaining : used,
+    remaining,
+    reportedAt: Date.now(),
+  };
+  limiter.report = report;
+  limiter.maxRequests = limit;
+
+  const redis = getRedisClient();
+  if (!redis) {
     return;
   }
 
+  try {
+    await redis.multi()
+      .hset(reportKey(limiterName), report)
+      .pexpire(reportKey(limiterName), REPORT_TTL_MS)
+      .exec();
+  } catch (error) {
+    logError('warn', 'Failed to share rate limit report', {
+      operation: 'recordRateLimitHeaders',
+      limiterName,
+      limit,
+      remaining,
+    }, error);
+  }
+}
+
+/**
+ * Current budget and usage of every rate limiter, from the shared window when Redis is available
+ */
+export async function getRateLimiterStates(): Promise<RateLimiterState[]> {
   const now = Date.now();
-  limiter.timestamps.push(now);
+  const redis = getRedisClient();
+
+  return Promise.all(Array.from(limiters.values()).map(async (limiter): Promise<RateLimiterState> => {
+    let timestamps = limiter.timestamps.filter(ts => ts > now - limiter.windowMs);
+    let report = limiter.report;
+    let shared = false;
 
-  // Clean up old timestamps (keep array size manageable)
-  const windowStart = now - limiter.windowMs;
-  limiter.timestamps = limiter.timestamps.filter(ts => ts > windowStart);
+    if (redis) {
+      try {
+        const [windowScores, storedReport] = await Promise.all([
+          redis.zrangebyscore(windowKey(limiter.name), `(${now - limiter.windowMs}`, '+inf', 'WITHSCORES'),
+          redis.hgetall(reportKey(limiter.name)),
+        ]);
+        timestamps = windowScores.filter((_, index) => index % 2 === 1).map(Number);
+        report = parseStoredReport(storedReport) ?? report;
+        shared = true;
+      } catch (error) {
+        logError('warn', 'Failed to read shared rate limit window', {
+          operation: 'getRateLimiterStates',
+          limiterName: limiter.name,
+        }, error);
+      }
+    }
+
+    const maxRequests = report?.limit ?? limiter.maxRequests;
+    return {
+      name: limiter.name,
+      maxRequests,
+      windowMs: limiter.windowMs,
+      used: timestamps.length,
+      remaining: evaluateWindow(timestamps, maxRequests, report, limiter.windowMs, now).remaining,
+      shared,
+      report: report ? { ...report, reportedAt: new Date(report.reportedAt).toISOString() } : null,
+    };
+  }));
 }
 
 /**
  * Initialize default rate limiters
+ * BPM providers register their own when they are added to the provider registry
  */
 export function initializeRateLimiters(): void {
-  // Discogs: 25 requests per minute (conservative limit)
+  // Discogs: 25 requests per minute until a response reports the real limit
+  // (60 for authenticated requests, 25 for unauthenticated ones)
   createRateLimiter('discogs', 25, 60 * 1000);
-  
-  // GetSongBPM: 50 requests per minute (3000/hour = 50/min)
-  createRateLimiter('getsongbpm', 50, 60 * 1000);
 }
 
 // Initialize on module load
 initializeRateLimiters();
-
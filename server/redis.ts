@@ -1,29 +1,17 @@
 import Redis from 'ioredis';
-
-// Logging utility for Redis
-function logError(level: 'error' | 'warn', message: string, context: Record<string, any> = {}, error?: Error | unknown) {
-  const logEntry = {
-    timestamp: new Date().toISOString(),
-    level,
-    message,
-    context,
-    error: error instanceof Error ? {
-      message: error.message,
-      stack: error.stack,
-      name: error.name,
-    } : error,
-  };
-  
-  if (level === 'error') {
-    console.error(JSON.stringify(logEntry));
-  } else {
-    console.warn(JSON.stringify(logEntry));
-  }
-}
+import { randomUUID } from 'node:crypto';
+import { logError, logInfo } from './logger';
 
 // Initialize Redis client
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
 let redis: Redis | null = null;
+// A subscribed connection can't run other commands, so invalidations from other processes arrive on their own
+let subscriber: Redis | null = null;
+
+// Deleted key patterns are published here, so every server process drops them from its in-process tier
+const INVALIDATION_CHANNEL = 'cache-invalidations';
+// Tells this process's own invalidations apart from other processes'
+const PROCESS_ID = randomUUID();
 
 try {
   redis = new Redis(redisUrl, {
@@ -46,16 +34,11 @@ try {
   });
 
   redis.on('connect', () => {
-    console.log(JSON.stringify({
-      timestamp: new Date().toISOString(),
-      level: 'info',
-      message: 'Redis connected',
-      context: {
-        operation: 'redis_connection',
-        redisUrl: redisUrl.replace(/:[^:@]+@/, ':****@'), // Mask password in URL
-        status: redis?.status,
-      },
-    }));
+    logInfo('Redis connected', {
+      operation: 'redis_connection',
+      redisUrl: redisUrl.replace(/:[^:@]+@/, ':****@'), // Mask password in URL
+      status: redis?.status,
+    });
   });
 
   // Attempt to connect
@@ -65,6 +48,28 @@ try {
       redisUrl: redisUrl.replace(/:[^:@]+@/, ':****@'), // Mask password in URL
     }, err);
   });
+
+  subscriber = redis.duplicate();
+  subscriber.on('error', () => {
+    // Connection problems are already logged by the main client
+  });
+  subscriber.on('message', (channel, message) => {
+    if (channel === INVALIDATION_CHANNEL) {
+      handleInvalidationMessage(message);
+    }
+  });
+  // On every connect, including a first one after Redis was down at startup
+  subscriber.on('ready', () => {
+    subscriber?.subscribe(INVALIDATION_CHANNEL).catch((err) => {
+      logError('warn', 'Redis subscribe failed; other processes\' cache invalidations will be missed', {
+        operation: 'redis_subscribe',
+        channel: INVALIDATION_CHANNEL,
+      }, err);
+    });
+  });
+  subscriber.connect().catch(() => {
+    // Retried by the client; the main connection logs the failure
+  });
 } catch (error) {
   logError('warn', 'Redis initialization failed, continuing without cache', {
     operation: 'redis_init',
@@ -85,72 +90,405 @@ export function generateCacheKey(endpoint: string, params: Record<string, any>):
 }
 
 /**
- * Retrieve cached data by key
- * Returns null if cache miss or Redis unavailable
+ * A cached value with when it was fetched; stale values are still served while they refresh
  */
-export async function getCache<T>(key: string): Promise<T | null> {
-  if (!redis) {
+export interface CacheEntry<T> {
+  value: T;
+  // When the value was fetched upstream (ms since epoch)
+  fetchedAt: number;
+  // Past its TTL; callers serve it anyway and refresh it in the background
+  stale: boolean;
+}
+
+// How entries are stored in Redis
+interface StoredCacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+// How long an expired entry is kept to serve while it refreshes
+const STALE_RETENTION_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+/**
+ * Hit/miss counters for one cache tier since the server started
+ */
+export interface CacheTierStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Both cache tiers: the in-process LRU in front of Redis, and Redis itself
+ */
+export interface CacheStats {
+  memory: CacheTierStats & { entries: number; bytes: number; maxEntries: number; maxBytes: number };
+  redis: CacheTierStats & { available: boolean; pendingWrites: number; pendingDeletes: number };
+}
+
+// In-process tier: serialized entries in least- to most-recently used order (Map keeps insertion order)
+// While Redis is up, stale entries are read from Redis, which sees every process's writes, so a process that
+// missed an invalidation serves an outdated entry for one TTL at most. While it is down, the memory tier
+// serves them itself, so stale-while-revalidate keeps working.
+interface MemoryCacheEntry {
+  serialized: string;
+  // When the entry goes stale (ms since epoch)
+  staleAt: number;
+  // When Redis drops the entry; the memory tier drops it then too, and replayed writes expire then
+  retainUntil: number;
+  bytes: number;
+}
+
+const MEMORY_CACHE_MAX_ENTRIES = Number(process.env.CACHE_MEMORY_MAX_ENTRIES) || 5000;
+const MEMORY_CACHE_MAX_BYTES = Number(process.env.CACHE_MEMORY_MAX_BYTES) || 64 * 1024 * 1024; // 64 MB
+
+const memoryCache = new Map<string, MemoryCacheEntry>();
+let memoryCacheBytes = 0;
+
+// Writes and deletes made while Redis was unavailable, replayed when it reconnects
+const pendingWrites = new Set<string>();
+const pendingDeletes: string[] = [];
+// Beyond this many patterns, a reconnect can't tell which keys were invalidated, so replaying them is unsafe anyway
+const MAX_PENDING_DELETES = 1000;
+
+const tierStats: Record<'memory' | 'redis', CacheTierStats> = {
+  memory: { hits: 0, misses: 0 },
+  redis: { hits: 0, misses: 0 },
+};
+
+function memoryGet(key: string): string | null {
+  const now = Date.now();
+  let entry = memoryCache.get(key);
+  if (entry && now >= entry.retainUntil) {
+    memoryRemove(key);
+    entry = undefined;
+  }
+  if (!entry || (now >= entry.staleAt && isRedisAvailable())) {
+    tierStats.memory.misses++;
     return null;
   }
+  // Move to the most recently used end
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+  tierStats.memory.hits++;
+  return entry.serialized;
+}
 
+function memorySet(key: string, serialized: string, staleAt: number, retainUntil: number): void {
+  memoryDelete(key);
+  const bytes = Buffer.byteLength(key) + Buffer.byteLength(serialized);
+  if (bytes > MEMORY_CACHE_MAX_BYTES || retainUntil <= Date.now()) {
+    return;
+  }
+
+  memoryCache.set(key, { serialized, staleAt, retainUntil, bytes });
+  memoryCacheBytes += bytes;
+  // Evict least recently used entries until both bounds hold
+  for (const oldestKey of memoryCache.keys()) {
+    if (memoryCache.size <= MEMORY_CACHE_MAX_ENTRIES && memoryCacheBytes <= MEMORY_CACHE_MAX_BYTES) {
+      break;
+    }
+    memoryDelete(oldestKey);
+  }
+}
+
+/**
+ * Drop an entry that was evicted, overwritten or invalidated, along with any write of it waiting for Redis
+ */
+function memoryDelete(key: string): boolean {
+  // An evicted write can't be replayed; Redis simply misses it
+  pendingWrites.delete(key);
+  return memoryRemove(key);
+}
+
+/**
+ * Drop an entry past its retention; a write of it waiting for Redis would have expired there too
+ */
+function memoryRemove(key: string): boolean {
+  const entry = memoryCache.get(key);
+  if (!entry) {
+    return false;
+  }
+  memoryCache.delete(key);
+  memoryCacheBytes -= entry.bytes;
+  return true;
+}
+
+/**
+ * Drop every in-process entry matching a key pattern; returns how many were dropped
+ */
+function memoryDeletePattern(pattern: string): number {
+  const matcher = globToRegExp(pattern);
+  let deleted = 0;
+  for (const key of [...memoryCache.keys()]) {
+    if (matcher.test(key) && memoryDelete(key)) {
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
+/**
+ * Apply a key pattern another server process deleted to this process's in-process tier
+ */
+function handleInvalidationMessage(message: string): void {
   try {
-    const cached = await redis.get(key);
-    if (cached) {
-      try {
-        return JSON.parse(cached) as T;
-      } catch (parseError) {
-        logError('error', 'Cache JSON parsing error', {
-          operation: 'getCache',
-          key,
-          operationType: 'parse',
-        }, parseError);
-        return null;
+    const { origin, pattern } = JSON.parse(message) as { origin: string; pattern: string };
+    if (origin !== PROCESS_ID && typeof pattern === 'string') {
+      memoryDeletePattern(pattern);
+    }
+  } catch (error) {
+    logError('warn', 'Invalid cache invalidation message', {
+      operation: 'handleInvalidationMessage',
+      channel: INVALIDATION_CHANNEL,
+    }, error);
+  }
+}
+
+/**
+ * Convert a Redis glob pattern (*, ?, [...] and backslash escapes) to a regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i]!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        const set = pattern.slice(i + 1, close).replace(/\\/g, '\\\\');
+        source += set.startsWith('^') ? `[^${set.slice(1)}]` : `[${set}]`;
+        i = close;
       }
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     }
-    return null;
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Write buffered cache entries and deletes to Redis once it is reachable again
+ * Deletes go first, so a pattern invalidated while Redis was down doesn't keep older entries there.
+ */
+async function replayPendingCacheWrites(): Promise<void> {
+  if (!redis || !isRedisAvailable()) {
+    return;
+  }
+
+  const deletes = pendingDeletes.splice(0);
+  const keys = [...pendingWrites];
+  pendingWrites.clear();
+  let written = 0;
+
+  try {
+    for (const pattern of deletes) {
+      await deleteRedisKeys(redis, pattern);
+    }
+    for (const key of keys) {
+      const entry = memoryCache.get(key);
+      const ttlMs = entry ? entry.retainUntil - Date.now() : 0;
+      if (entry && ttlMs > 0) {
+        await redis.psetex(key, ttlMs, entry.serialized);
+        written++;
+      }
+    }
+    logInfo('Replayed cache writes made while Redis was unavailable', {
+      operation: 'replayPendingCacheWrites',
+      written,
+      deletes: deletes.length,
+    });
   } catch (error) {
-    logError('warn', 'Cache get error', {
-      operation: 'getCache',
-      key,
-      operationType: 'get',
+    logError('warn', 'Cache replay error', {
+      operation: 'replayPendingCacheWrites',
+      pendingWrites: keys.length,
+      pendingDeletes: deletes.length,
       redisStatus: redis?.status,
     }, error);
+    // Keep whatever wasn't replayed for the next reconnect; the memory tier still serves it meanwhile
+    pendingDeletes.unshift(...deletes);
+    keys.forEach((key) => {
+      if (memoryCache.has(key)) pendingWrites.add(key);
+    });
+  }
+}
+
+redis?.on('ready', () => {
+  replayPendingCacheWrites();
+});
+
+/**
+ * Retrieve cached data by key, fresh or stale
+ * Checks the in-process tier first, then Redis. Returns null on a miss in both.
+ */
+export async function getCache<T>(key: string): Promise<CacheEntry<T> | null> {
+  let cached = memoryGet(key);
+
+  if (!cached && redis && isRedisAvailable()) {
+    try {
+      cached = await redis.get(key);
+      if (cached) {
+        tierStats.redis.hits++;
+      } else {
+        tierStats.redis.misses++;
+      }
+    } catch (error) {
+      tierStats.redis.misses++;
+      logError('warn', 'Cache get error', {
+        operation: 'getCache',
+        key,
+        operationType: 'get',
+        redisStatus: redis?.status,
+      }, error);
+      return null;
+    }
+  }
+
+  if (!cached) {
+    return null;
+  }
+
+  try {
+    const stored = JSON.parse(cached) as StoredCacheEntry<T>;
+    // Entries written before values carried a fetched-at time are treated as misses
+    if (typeof stored?.fetchedAt !== 'number' || typeof stored.expiresAt !== 'number') {
+      return null;
+    }
+    // Also replaces a stale memory entry with what Redis has now
+    if (memoryCache.get(key)?.serialized !== cached) {
+      memorySet(key, cached, stored.expiresAt, stored.expiresAt + STALE_RETENTION_SECONDS * 1000);
+    }
+    return { value: stored.value, fetchedAt: stored.fetchedAt, stale: Date.now() > stored.expiresAt };
+  } catch (parseError) {
+    logError('error', 'Cache JSON parsing error', {
+      operation: 'getCache',
+      key,
+      operationType: 'parse',
+    }, parseError);
     return null;
   }
 }
 
 /**
  * Store data in cache with TTL (time to live in seconds)
- * Silently fails if Redis unavailable
+ * After the TTL the entry is stale but kept for a while longer, so it can be served while it refreshes.
+ * Always lands in the in-process tier; while Redis is unavailable the write is replayed when it reconnects.
  */
-export async function setCache(key: string, value: any, ttl: number): Promise<void> {
-  if (!redis) {
+export async function setCache(key: string, value: any, ttl: number, fetchedAt = Date.now()): Promise<void> {
+  let serialized: string;
+  try {
+    const stored: StoredCacheEntry<unknown> = { value, fetchedAt, expiresAt: fetchedAt + ttl * 1000 };
+    serialized = JSON.stringify(stored);
+  } catch (error) {
+    logError('warn', 'Cache serialization error', {
+      operation: 'setCache',
+      key,
+      operationType: 'serialize',
+    }, error);
+    return;
+  }
+
+  const retentionSeconds = ttl + STALE_RETENTION_SECONDS;
+  memorySet(key, serialized, fetchedAt + ttl * 1000, fetchedAt + retentionSeconds * 1000);
+
+  if (!redis || !isRedisAvailable()) {
+    if (redis && memoryCache.has(key)) {
+      pendingWrites.add(key);
+    }
     return;
   }
 
   try {
-    const serialized = JSON.stringify(value);
-    await redis.setex(key, ttl, serialized);
+    await redis.setex(key, retentionSeconds, serialized);
   } catch (error) {
-    let valueSize = 'unknown';
-    try {
-      const serialized = JSON.stringify(value);
-      valueSize = serialized.length.toString();
-    } catch {
-      // Ignore serialization error for logging
-    }
     logError('warn', 'Cache set error', {
       operation: 'setCache',
       key,
       operationType: 'setex',
       ttl,
-      valueSize,
+      valueSize: serialized.length.toString(),
       redisStatus: redis?.status,
     }, error);
+    if (memoryCache.has(key)) {
+      pendingWrites.add(key);
+    }
     // Don't throw - graceful degradation
   }
 }
 
+/**
+ * Delete the keys matching a pattern from Redis, and tell the other server processes to drop them too
+ */
+async function deleteRedisKeys(client: Redis, pattern: string): Promise<number> {
+  let deleted = 0;
+  let cursor = '0';
+  do {
+    const [nextCursor, keys] = await client.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+    if (keys.length > 0) {
+      deleted += await client.del(...keys);
+    }
+    cursor = nextCursor;
+  } while (cursor !== '0');
+  await client.publish(INVALIDATION_CHANNEL, JSON.stringify({ origin: PROCESS_ID, pattern }));
+  return deleted;
+}
+
+/**
+ * Delete every cached key matching a Redis glob pattern, e.g. "collection:*", from both tiers
+ * Other server processes drop the keys from their in-process tier too. Returns how many keys were deleted.
+ * While Redis is unavailable its side, and telling the other processes, is replayed on reconnect.
+ */
+export async function deleteCacheKeys(pattern: string): Promise<number> {
+  const memoryDeleted = memoryDeletePattern(pattern);
+
+  if (!redis || !isRedisAvailable()) {
+    if (redis && pendingDeletes.length < MAX_PENDING_DELETES) {
+      pendingDeletes.push(pattern);
+    }
+    return memoryDeleted;
+  }
+
+  try {
+    return Math.max(memoryDeleted, await deleteRedisKeys(redis, pattern));
+  } catch (error) {
+    logError('warn', 'Cache delete error', {
+      operation: 'deleteCacheKeys',
+      pattern,
+      operationType: 'scan',
+      redisStatus: redis?.status,
+    }, error);
+    return memoryDeleted;
+  }
+}
+
+/**
+ * Hit/miss counters per tier, and how full the in-process tier is
+ */
+export function getCacheStats(): CacheStats {
+  return {
+    memory: {
+      ...tierStats.memory,
+      entries: memoryCache.size,
+      bytes: memoryCacheBytes,
+      maxEntries: MEMORY_CACHE_MAX_ENTRIES,
+      maxBytes: MEMORY_CACHE_MAX_BYTES,
+    },
+    redis: {
+      ...tierStats.redis,
+      available: isRedisAvailable(),
+      pendingWrites: pendingWrites.size,
+      pendingDeletes: pendingDeletes.length,
+    },
+  };
+}
+
 /**
  * Check if Redis is available
  */
@@ -158,10 +496,21 @@ export function isRedisAvailable(): boolean {
   return redis !== null && redis.status === 'ready';
 }
 
+/**
+ * The Redis client for state shared between server processes, or null while Redis is unavailable
+ */
+export function getRedisClient(): Redis | null {
+  return isRedisAvailable() ? redis : null;
+}
+
 /**
  * Close Redis connection (useful for cleanup)
  */
 export async function closeRedis(): Promise<void> {
+  if (subscriber) {
+    await subscriber.quit();
+    subscriber = null;
+  }
   if (redis) {
     await redis.quit();
     redis = null;
@@ -1,49 +1,300 @@
-// Request queue with deduplication, batching, and exponential backoff
+// Request queue with deduplication, batching, exponential backoff, and priority lanes
+// Every queued request is also recorded in the database. Requests enqueued with a task (a kind and a
+// JSON payload) are redone by the task's handler after a restart; requests that ran out of retries
+// stay behind as dead letters until they are retried or deleted.
 
-import { canMakeRequest, recordRequest } from './rateLimiter';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { db } from './db';
+import { acquireRequestSlot } from './rateLimiter';
+import { logError } from './logger';
+import type { QueueApiStatus, RateLimitEvent, RequestPriority } from '../client/src/types';
 
-type API = 'discogs' | 'getsongbpm';
+// 'discogs', or the name of a rate-limited BPM provider
+type API = string;
+
+export type QueueRequestState = 'pending' | 'running' | 'failed' | 'dead';
+
+/**
+ * How to redo a request from scratch, for when the caller waiting on it is gone
+ * The handler registered for `kind` gets the payload and starts the whole call again.
+ */
+export interface QueueTask {
+  kind: string;
+  payload: unknown;
+}
+
+export interface EnqueueOptions {
+  task?: QueueTask;
+  // Defaults to the priority of the surrounding runWithPriority call, or background outside one
+  priority?: RequestPriority;
+}
+
+export interface QueueRequestRecord {
+  id: string;
+  api: string;
+  state: QueueRequestState;
+  priority: RequestPriority;
+  dedupeKey?: string;
+  task?: QueueTask;
+  // Whether a handler is registered for the task, so it can be retried
+  replayable: boolean;
+  retryCount: number;
+  // Earliest time a backed-off request will be tried again
+  runAfter?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type TaskHandler = (payload: any) => Promise<unknown>;
 
 interface QueuedRequest<T> {
+  id: string;
+  priority: RequestPriority;
   requestFn: () => Promise<T>;
   resolve: (value: T) => void;
   reject: (error: Error) => void;
   dedupeKey?: string;
   retryCount: number;
   retryAfter?: number;
+  // When it (re)joined its lane
+  queuedAt: number;
 }
 
 interface InFlightRequest<T> {
+  api: API;
   promise: Promise<T>;
   timestamp: number;
 }
 
-const queues = new Map<API, QueuedRequest<any>[]>();
+// What the queue has done for one API since the server started
+type ApiStats = Pick<QueueApiStatus, 'totals' | 'queueWait' | 'rateLimitWaitMs'> & {
+  waitingForSlotUntil?: number;
+};
+
+// A request waiting out its backoff after a 429, before it rejoins its lane
+interface BackingOffRequest {
+  api: API;
+  request: QueuedRequest<any>;
+  runAfter: number;
+}
+
+type Lanes = Record<RequestPriority, QueuedRequest<any>[]>;
+
+// Highest priority first
+const PRIORITIES: RequestPriority[] = ['interactive', 'prefetch', 'background'];
+
+// Requests each lane may take per scheduling round while other lanes are waiting, so interactive
+// requests go first but a busy dashboard can't starve background work
+const LANE_WEIGHTS: Record<RequestPriority, number> = {
+  interactive: 8,
+  prefetch: 3,
+  background: 1,
+};
+
+const queues = new Map<API, Lanes>();
+// Requests taken from each lane in the current round, per API
+const laneRounds = new Map<API, Record<RequestPriority, number>>();
+const priorityContext = new AsyncLocalStorage<RequestPriority>();
+// APIs whose processBatch loop is running or scheduled; one loop per API keeps its requests sequential
+const processingApis = new Set<API>();
 const inFlightRequests = new Map<string, InFlightRequest<any>>();
 const batchSize = 5;
 const maxRetries = 5;
 const baseBackoffDelay = 1000; // 1 second
 const maxBackoffDelay = 60000; // 60 seconds
+// Failed requests are pruned after this long; dead letters are kept until retried or deleted
+const failedRetentionMs = 24 * 60 * 60 * 1000; // 1 day
 
-// Logging utility
-function logError(level: 'error' | 'warn', message: string, context: Record<string, any> = {}, error?: Error | unknown) {
-  const logEntry = {
-    timestamp: new Date().toISOString(),
-    level,
-    message,
-    context,
-    error: error instanceof Error ? {
-      message: error.message,
-      stack: error.stack,
-      name: error.name,
-    } : error,
-  };
-  
-  if (level === 'error') {
-    console.error(JSON.stringify(logEntry));
-  } else {
-    console.warn(JSON.stringify(logEntry));
+const taskHandlers = new Map<string, TaskHandler>();
+
+const apiStats = new Map<API, ApiStats>();
+const backingOff = new Map<string, BackingOffRequest>();
+// Newest first
+const recentRateLimits: RateLimitEvent[] = [];
+const maxRecentRateLimits = 50;
+
+interface QueueRequestRow {
+  id: string;
+  api: API;
+  dedupe_key: string | null;
+  state: QueueRequestState;
+  priority: RequestPriority;
+  task_kind: string | null;
+  task_payload: string | null;
+  retry_count: number;
+  run_after: number | null;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+const insertRequest = db.query(`
+  INSERT INTO queue_requests (id, api, dedupe_key, state, priority, task_kind, task_payload, retry_count, created_at, updated_at)
+  VALUES ($id, $api, $dedupeKey, 'pending', $priority, $taskKind, $taskPayload, 0, $now, $now)
+`);
+
+const updatePriority = db.query('UPDATE queue_requests SET priority = $priority WHERE id = $id');
+
+const updateRequest = db.query(`
+  UPDATE queue_requests
+  SET state = $state, retry_count = $retryCount, run_after = $runAfter, last_error = $lastError, updated_at = $now
+  WHERE id = $id
+`);
+
+const deleteRequest = db.query('DELETE FROM queue_requests WHERE id = $id');
+
+const pruneFailedRequests = db.query(`DELETE FROM queue_requests WHERE state = 'failed' AND updated_at < $cutoff`);
+
+/**
+ * Run a queue table write, logging rather than failing the request if the database is unavailable
+ */
+function persist(operation: string, requestId: string, write: () => void): void {
+  try {
+    write();
+  } catch (storeError) {
+    logError('warn', 'Queue store write error', { operation, requestId }, storeError);
+    // Continue; the request itself still runs
+  }
+}
+
+/**
+ * Record a request's state after an attempt
+ */
+function recordState(
+  request: QueuedRequest<any>,
+  state: QueueRequestState,
+  options: { runAfter?: number; lastError?: string } = {}
+): void {
+  persist('recordState', request.id, () => {
+    updateRequest.run({
+      id: request.id,
+      state,
+      retryCount: request.retryCount,
+      runAfter: options.runAfter ?? null,
+      lastError: options.lastError ?? null,
+      now: Date.now(),
+    });
+    if (state === 'failed') {
+      pruneFailedRequests.run({ cutoff: Date.now() - failedRetentionMs });
+    }
+  });
+}
+
+/**
+ * Run a function with every request it enqueues (directly or in awaited calls) at the given priority
+ * Routes run as interactive; jobs and background refreshes wrap themselves in a lower priority.
+ */
+export function runWithPriority<T>(priority: RequestPriority, fn: () => T): T {
+  return priorityContext.run(priority, fn);
+}
+
+/**
+ * Get an API's stats, creating them empty
+ */
+function getStats(api: API): ApiStats {
+  let stats = apiStats.get(api);
+  if (!stats) {
+    stats = {
+      totals: { enqueued: 0, deduplicated: 0, completed: 0, failed: 0, dead: 0, retried: 0, rateLimited: 0 },
+      queueWait: { count: 0, totalMs: 0, maxMs: 0 },
+      rateLimitWaitMs: 0,
+    };
+    apiStats.set(api, stats);
+  }
+  return stats;
+}
+
+/**
+ * Remember a 429 response for the queue status
+ */
+function recordRateLimitEvent(api: API, event: Omit<RateLimitEvent, 'api' | 'at'>): void {
+  getStats(api).totals.rateLimited++;
+  recentRateLimits.unshift({ api, at: new Date().toISOString(), ...event });
+  recentRateLimits.length = Math.min(recentRateLimits.length, maxRecentRateLimits);
+}
+
+/**
+ * Get an API's lanes, creating them empty
+ */
+function getLanes(api: API): Lanes {
+  let lanes = queues.get(api);
+  if (!lanes) {
+    lanes = { interactive: [], prefetch: [], background: [] };
+    queues.set(api, lanes);
+  }
+  return lanes;
+}
+
+/**
+ * Number of requests waiting in an API's lanes
+ */
+function queuedCount(api: API): number {
+  const lanes = queues.get(api);
+  return lanes ? PRIORITIES.reduce((total, priority) => total + lanes[priority].length, 0) : 0;
+}
+
+/**
+ * Take the next request for an API: the highest-priority waiting lane that still has its share of
+ * the current round. Once every waiting lane has had its share, a new round starts.
+ */
+function takeNextRequest(api: API): QueuedRequest<any> | undefined {
+  const lanes = getLanes(api);
+  let round = laneRounds.get(api);
+  if (!round) {
+    round = { interactive: 0, prefetch: 0, background: 0 };
+    laneRounds.set(api, round);
+  }
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    for (const priority of PRIORITIES) {
+      if (lanes[priority].length > 0 && round[priority] < LANE_WEIGHTS[priority]) {
+        round[priority]++;
+        return lanes[priority].shift();
+      }
+    }
+    round.interactive = round.prefetch = round.background = 0;
+  }
+  return undefined;
+}
+
+/**
+ * Move a waiting request up to a higher-priority lane, e.g. when an interactive caller
+ * deduplicates onto a request a background job queued
+ */
+function promoteRequest(api: API, dedupeKey: string, priority: RequestPriority): void {
+  const lanes = getLanes(api);
+  for (const lanePriority of PRIORITIES.slice(PRIORITIES.indexOf(priority) + 1)) {
+    const index = lanes[lanePriority].findIndex((request) => request.dedupeKey === dedupeKey);
+    if (index >= 0) {
+      const [request] = lanes[lanePriority].splice(index, 1);
+      request!.priority = priority;
+      lanes[priority].push(request!);
+      persist('promoteRequest', request!.id, () => updatePriority.run({ id: request!.id, priority }));
+      return;
+    }
+  }
+}
+
+/**
+ * Start an API's processBatch loop unless it is already running
+ */
+function startProcessing(api: API): void {
+  if (processingApis.has(api)) {
+    return;
   }
+  processingApis.add(api);
+  processBatch(api).catch(err => {
+    processingApis.delete(api);
+    logError('error', 'Error processing batch', { api }, err);
+  });
+}
+
+/**
+ * Register the handler that redoes requests enqueued with a task of this kind
+ */
+export function registerQueueTask(kind: string, handler: TaskHandler): void {
+  taskHandlers.set(kind, handler);
 }
 
 /**
@@ -81,29 +332,34 @@ export function getInFlightRequest<T>(key: string): Promise<T> | null {
  * Process a batch of requests for a given API
  */
 async function processBatch(api: API): Promise<void> {
-  const queue = queues.get(api) || [];
-  
-  if (queue.length === 0) {
-    return;
-  }
+  // Process up to batchSize requests sequentially to respect rate limits; each is picked only when
+  // its turn comes, so an interactive request enqueued mid-batch goes next
+  for (let processed = 0; processed < batchSize; processed++) {
+    const queuedRequest = takeNextRequest(api);
+    if (!queuedRequest) {
+      break;
+    }
+
+    const stats = getStats(api);
+    const queueWaitMs = Date.now() - queuedRequest.queuedAt;
+    stats.queueWait.count++;
+    stats.queueWait.totalMs += queueWaitMs;
+    stats.queueWait.maxMs = Math.max(stats.queueWait.maxMs, queueWaitMs);
 
-  // Get batch of requests (up to batchSize)
-  const batch = queue.splice(0, batchSize);
-  
-  // Process batch sequentially to respect rate limits
-  for (const queuedRequest of batch) {
     try {
-      // Check rate limit
+      // Wait for a slot in the rate limit window, which other server processes may be drawing from too
       const limiterName = api;
-      const { allowed, waitMs } = canMakeRequest(limiterName);
-      
-      if (!allowed && waitMs !== undefined) {
-        // Wait before making request
-        await new Promise(resolve => setTimeout(resolve, waitMs));
+      let slot = await acquireRequestSlot(limiterName);
+      while (!slot.allowed) {
+        stats.waitingForSlotUntil = Date.now() + slot.waitMs;
+        stats.rateLimitWaitMs += slot.waitMs;
+        await new Promise(resolve => setTimeout(resolve, slot.waitMs));
+        slot = await acquireRequestSlot(limiterName);
       }
+      stats.waitingForSlotUntil = undefined;
 
       // Make the request
-      recordRequest(limiterName);
+      recordState(queuedRequest, 'running');
       const result = await queuedRequest.requestFn();
       
       // Clean up deduplication if needed
@@ -111,6 +367,9 @@ async function processBatch(api: API): Promise<void> {
         inFlightRequests.delete(queuedRequest.dedupeKey);
       }
       
+      // Done; only unfinished and failed requests are kept
+      persist('processBatch', queuedRequest.id, () => deleteRequest.run({ id: queuedRequest.id }));
+      stats.totals.completed++;
       queuedRequest.resolve(result);
     } catch (error) {
       // Check if it's a 429 error and we should retry
@@ -131,15 +390,26 @@ async function processBatch(api: API): Promise<void> {
           retryCount: queuedRequest.retryCount + 1,
           retryAfter: retryAfter,
         };
+        recordState(retryRequest, 'pending', {
+          runAfter: Date.now() + delay,
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+        stats.totals.retried++;
+        recordRateLimitEvent(api, {
+          dedupeKey: queuedRequest.dedupeKey,
+          retryCount: queuedRequest.retryCount,
+          retryAfter,
+          outcome: 'retried',
+          backoffMs: delay,
+        });
+        backingOff.set(retryRequest.id, { api, request: retryRequest, runAfter: Date.now() + delay });
         
-        // Add to front of queue after delay
+        // Add to front of its lane after delay
         setTimeout(() => {
-          const currentQueue = queues.get(api) || [];
-          currentQueue.unshift(retryRequest);
-          queues.set(api, currentQueue);
-          processBatch(api).catch(err => {
-            logError('error', 'Error processing batch after retry', { api }, err);
-          });
+          backingOff.delete(retryRequest.id);
+          retryRequest.queuedAt = Date.now();
+          getLanes(api)[retryRequest.priority].unshift(retryRequest);
+          startProcessing(api);
         }, delay);
       } else {
         // Clean up deduplication
@@ -147,46 +417,91 @@ async function processBatch(api: API): Promise<void> {
           inFlightRequests.delete(queuedRequest.dedupeKey);
         }
         
+        // Rate-limited requests that used up their retries become dead letters
+        const message = error instanceof Error ? error.message : String(error);
+        recordState(queuedRequest, isRateLimitError ? 'dead' : 'failed', { lastError: message });
+        if (isRateLimitError) {
+          stats.totals.dead++;
+          recordRateLimitEvent(api, {
+            dedupeKey: queuedRequest.dedupeKey,
+            retryCount: queuedRequest.retryCount,
+            retryAfter: (error as Error & { retryAfter?: number }).retryAfter,
+            outcome: 'dead',
+          });
+          logError('warn', 'Request moved to dead letters after exhausting retries', {
+            api,
+            requestId: queuedRequest.id,
+            dedupeKey: queuedRequest.dedupeKey,
+            retryCount: queuedRequest.retryCount,
+          }, error);
+        } else {
+          stats.totals.failed++;
+        }
         queuedRequest.reject(error instanceof Error ? error : new Error(String(error)));
       }
     }
   }
 
   // Process next batch if queue has more items
-  if (queues.get(api)?.length > 0) {
+  if (queuedCount(api) > 0) {
     // Small delay before next batch to avoid overwhelming
     setTimeout(() => {
       processBatch(api).catch(err => {
+        processingApis.delete(api);
         logError('error', 'Error processing next batch', { api }, err);
       });
     }, 100);
+  } else {
+    processingApis.delete(api);
   }
 }
 
 /**
  * Enqueue a request with rate limiting, deduplication, and retry logic
+ * Callers deduplicated onto a request all get what requestFn resolved, so it should be data that can be
+ * shared, not something read once like a Response. Pass a task to have the request redone after a server restart.
  */
 export function enqueueRequest<T>(
   api: API,
   requestFn: () => Promise<T>,
-  dedupeKey?: string
+  dedupeKey?: string,
+  options: EnqueueOptions = {}
 ): Promise<T> {
+  const priority = options.priority ?? priorityContext.getStore() ?? 'background';
+
   return new Promise<T>((resolve, reject) => {
     // Check for duplicate in-flight request
     if (dedupeKey) {
       const existing = getInFlightRequest<T>(dedupeKey);
       if (existing) {
+        getStats(api).totals.deduplicated++;
+        promoteRequest(api, dedupeKey, priority);
         return existing.then(resolve).catch(reject);
       }
     }
 
     const queuedRequest: QueuedRequest<T> = {
+      id: crypto.randomUUID(),
+      priority,
       requestFn,
       resolve,
       reject,
       dedupeKey,
       retryCount: 0,
+      queuedAt: Date.now(),
     };
+    getStats(api).totals.enqueued++;
+    persist('enqueueRequest', queuedRequest.id, () => {
+      insertRequest.run({
+        id: queuedRequest.id,
+        api,
+        dedupeKey: dedupeKey ?? null,
+        priority,
+        taskKind: options.task?.kind ?? null,
+        taskPayload: options.task ? JSON.stringify(options.task.payload) : null,
+        now: Date.now(),
+      });
+    });
 
     // Track as in-flight if dedupe key provided
     if (dedupeKey) {
@@ -200,24 +515,20 @@ export function enqueueRequest<T>(
           reject(error);
         };
       });
-      
+      // The first caller gets the failure through reject; only duplicates await this copy
+      promise.catch(() => {});
+
       inFlightRequests.set(dedupeKey, {
+        api,
         promise,
         timestamp: Date.now(),
       });
     }
 
-    // Add to queue
-    const queue = queues.get(api) || [];
-    queue.push(queuedRequest);
-    queues.set(api, queue);
+    // Add to its lane
+    getLanes(api)[priority].push(queuedRequest);
 
-    // Start processing if queue was empty
-    if (queue.length === 1) {
-      processBatch(api).catch(err => {
-        logError('error', 'Error processing batch', { api }, err);
-      });
-    }
+    startProcessing(api);
   });
 }
 
@@ -225,10 +536,183 @@ export function enqueueRequest<T>(
  * Set retry-after value for a queued request (used when 429 is detected)
  */
 export function setRetryAfter(api: API, dedupeKey: string, retryAfter: number): void {
-  const queue = queues.get(api) || [];
-  const request = queue.find(req => req.dedupeKey === dedupeKey);
+  const lanes = getLanes(api);
+  const request = PRIORITIES
+    .map((priority) => lanes[priority].find(req => req.dedupeKey === dedupeKey))
+    .find((req) => req !== undefined);
   if (request) {
     request.retryAfter = retryAfter;
   }
 }
 
+/**
+ * Live view of each API's queue: lane depths, in-flight and backing-off requests, and totals since startup
+ * `knownApis` are listed even before they queue anything. The rate limit window of each API is added by the caller.
+ */
+export function getQueueActivity(knownApis: API[] = []): {
+  apis: Omit<QueueApiStatus, 'rateLimit'>[];
+  recentRateLimits: RateLimitEvent[];
+} {
+  const now = Date.now();
+  const apis = Array.from(new Set([...knownApis, ...queues.keys(), ...apiStats.keys()])).sort();
+
+  return {
+    apis: apis.map((api) => {
+      const lanes = getLanes(api);
+      const stats = getStats(api);
+      return {
+        api,
+        depth: {
+          interactive: lanes.interactive.length,
+          prefetch: lanes.prefetch.length,
+          background: lanes.background.length,
+        },
+        processing: processingApis.has(api),
+        waitingForSlotUntil: stats.waitingForSlotUntil ? new Date(stats.waitingForSlotUntil).toISOString() : undefined,
+        inFlight: Array.from(inFlightRequests.entries())
+          .filter(([, inFlight]) => inFlight.api === api)
+          .map(([dedupeKey, inFlight]) => ({ dedupeKey, ageMs: now - inFlight.timestamp })),
+        backingOff: Array.from(backingOff.values())
+          .filter((entry) => entry.api === api)
+          .map(({ request, runAfter }) => ({
+            id: request.id,
+            dedupeKey: request.dedupeKey,
+            retryCount: request.retryCount,
+            runAfter: new Date(runAfter).toISOString(),
+          })),
+        totals: { ...stats.totals },
+        queueWait: { ...stats.queueWait },
+        rateLimitWaitMs: stats.rateLimitWaitMs,
+      };
+    }),
+    recentRateLimits: recentRateLimits.map((event) => ({ ...event })),
+  };
+}
+
+const selectUnfinishedRequests = db.query<QueueRequestRow, []>(`SELECT * FROM queue_requests WHERE state IN ('pending', 'running')`);
+
+const markInterrupted = db.query(`
+  UPDATE queue_requests SET state = 'failed', last_error = $lastError, updated_at = $now WHERE id = $id
+`);
+
+/**
+ * Hand a stored task back to its handler, once any backoff it was waiting out has passed
+ */
+function replayTask(row: QueueRequestRow, handler: TaskHandler): void {
+  const delay = Math.max(0, (row.run_after ?? 0) - Date.now());
+  setTimeout(() => {
+    runWithPriority('background', () => handler(JSON.parse(row.task_payload ?? 'null'))).catch((error) => {
+      logError('warn', 'Replayed queue task failed', {
+        operation: 'replayTask',
+        requestId: row.id,
+        api: row.api,
+        taskKind: row.task_kind,
+      }, error);
+    });
+  }, delay);
+}
+
+/**
+ * Pick up requests left unfinished by the previous server process
+ * Requests with a registered task are redone (as new requests); the rest can't be, and are marked failed.
+ * Call once at startup, after every module has registered its task handlers.
+ */
+export function resumeQueue(): { resumed: number; interrupted: number } {
+  pruneFailedRequests.run({ cutoff: Date.now() - failedRetentionMs });
+
+  let resumed = 0;
+  let interrupted = 0;
+  for (const row of selectUnfinishedRequests.all()) {
+    const handler = row.task_kind ? taskHandlers.get(row.task_kind) : undefined;
+    if (!handler) {
+      markInterrupted.run({ id: row.id, lastError: 'Interrupted by a server restart', now: Date.now() });
+      interrupted++;
+      continue;
+    }
+
+    // The replay enqueues its own request, so this record is done
+    deleteRequest.run({ id: row.id });
+    replayTask(row, handler);
+    resumed++;
+  }
+  return { resumed, interrupted };
+}
+
+/**
+ * Turn a queue table row into its API shape
+ */
+function toQueueRequestRecord(row: QueueRequestRow): QueueRequestRecord {
+  return {
+    id: row.id,
+    api: row.api,
+    state: row.state,
+    priority: row.priority ?? 'background',
+    dedupeKey: row.dedupe_key ?? undefined,
+    task: row.task_kind ? { kind: row.task_kind, payload: JSON.parse(row.task_payload ?? 'null') } : undefined,
+    replayable: !!row.task_kind && taskHandlers.has(row.task_kind),
+    retryCount: row.retry_count,
+    runAfter: row.run_after ? new Date(row.run_after).toISOString() : undefined,
+    lastError: row.last_error ?? undefined,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+const selectRequestCounts = db.query<{ api: API; state: QueueRequestState; count: number }, []>('SELECT api, state, COUNT(*) AS count FROM queue_requests GROUP BY api, state');
+
+const selectRequests = db.query<QueueRequestRow, { state: QueueRequestState | null; api: string | null; limit: number }>(`
+  SELECT * FROM queue_requests
+  WHERE ($state IS NULL OR state = $state) AND ($api IS NULL OR api = $api)
+  ORDER BY created_at DESC
+  LIMIT $limit
+`);
+
+/**
+ * Request counts per API and state, plus the most recent requests matching the filters
+ */
+export function inspectQueue(filters: { state?: QueueRequestState; api?: string; limit: number }): {
+  counts: Record<string, Partial<Record<QueueRequestState, number>>>;
+  requests: QueueRequestRecord[];
+} {
+  const counts: Record<string, Partial<Record<QueueRequestState, number>>> = {};
+  for (const row of selectRequestCounts.all()) {
+    counts[row.api] = { ...counts[row.api], [row.state]: row.count };
+  }
+
+  const rows = selectRequests.all({ state: filters.state ?? null, api: filters.api ?? null, limit: filters.limit });
+  return { counts, requests: rows.map(toQueueRequestRecord) };
+}
+
+const selectRequest = db.query<QueueRequestRow, { id: string }>('SELECT * FROM queue_requests WHERE id = $id');
+
+/**
+ * Redo a failed or dead request through its task handler
+ * Returns null if there's no such finished request, or 'not-replayable' if it has no registered task.
+ */
+export function retryQueueRequest(id: string): 'retried' | 'not-replayable' | null {
+  const row = selectRequest.get({ id });
+  if (!row || (row.state !== 'failed' && row.state !== 'dead')) {
+    return null;
+  }
+
+  const handler = row.task_kind ? taskHandlers.get(row.task_kind) : undefined;
+  if (!handler) {
+    return 'not-replayable';
+  }
+
+  deleteRequest.run({ id });
+  replayTask({ ...row, run_after: null }, handler);
+  return 'retried';
+}
+
+/**
+ * Delete a failed or dead request; returns false if there's no such finished request
+ */
+export function deleteQueueRequest(id: string): boolean {
+  const row = selectRequest.get({ id });
+  if (!row || (row.state !== 'failed' && row.state !== 'dead')) {
+    return false;
+  }
+  deleteRequest.run({ id });
+  return true;
+}
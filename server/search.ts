@@ -0,0 +1,278 @@
+// Full-text search over the library store
+// Queries the FTS5 index libraryStore keeps of every stored release and track (see migration 16). Every query
+// word matches as a prefix, so results appear while a word is still being typed; a word that starts no indexed
+// word falls back to the indexed words closest in spelling. Results are ranked with bm25, weighted by field.
+
+import { db } from './db';
+import { readRelease } from './libraryStore';
+import { createApiError } from './apiClient';
+import type { SearchField, SearchResponse, SearchResult, SearchScope } from '../client/src/types';
+
+const SEARCH_SCOPES: SearchScope[] = ['collection', 'wantlist'];
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+// Words past this are ignored; a longer query is almost certainly pasted text
+const MAX_QUERY_WORDS = 8;
+// Similarly spelled words tried for a word that starts no indexed word
+const MAX_CORRECTIONS = 5;
+
+export interface SearchQuery {
+  text: string;
+  scope: SearchScope;
+  limit: number;
+}
+
+// The indexed words one query word matches: everything starting with it, or a few similarly spelled words
+interface WordMatch {
+  word: string;
+  prefix: boolean;
+  terms: string[];
+}
+
+// Matches in the title count most, then artists, catalog numbers and labels (bm25 weights in column order);
+// a track's release artist counts least, so an artist's releases rank above their tracks
+// A matching search document with its rank; position is null for the release's own document
+interface MatchRow {
+  release_id: number;
+  position: string | null;
+  title: string;
+  artists: string;
+  labels: string;
+  catnos: string;
+  release_artist: string;
+  rank: number;
+}
+
+const selectMatches = (scope: string) => db.query<MatchRow, { match: string; userId: number; limit: number }>(`
+  SELECT d.release_id, d.position, d.title, d.artists, d.labels, d.catnos, d.release_artist,
+    bm25(search_index, 10.0, 6.0, 3.0, 4.0, 1.0) AS rank
+  FROM search_index
+  JOIN search_documents d ON d.id = search_index.rowid
+  WHERE search_index MATCH $match AND d.release_id IN (${scope})
+  ORDER BY rank
+  LIMIT $limit
+`);
+const selectCollectionMatches = selectMatches(`
+  SELECT release_id FROM collection_items WHERE user_id = $userId
+  UNION
+  SELECT release_id FROM collection_instances WHERE user_id = $userId AND removed_at IS NULL
+`);
+const selectWantlistMatches = selectMatches('SELECT release_id FROM wantlist_items WHERE user_id = $userId');
+const selectMatchingReleaseIds = db.query<{ release_id: number }, { match: string }>(`
+  SELECT DISTINCT d.release_id
+  FROM search_index
+  JOIN search_documents d ON d.id = search_index.rowid
+  WHERE search_index MATCH $match
+`);
+const selectTermWithPrefix = db.query<{ term: string }, { prefix: string; end: string }>(
+  'SELECT term FROM search_terms WHERE term >= $prefix AND term < $end LIMIT 1'
+);
+const selectTermsFromLength = db.query<{ term: string }, { minLength: number }>(
+  'SELECT term FROM search_terms WHERE length(term) >= $minLength'
+);
+
+/**
+ * Parse /api/search query parameters; throws a 400 error for invalid values
+ */
+export function parseSearchQuery(query: Record<string, unknown>): SearchQuery {
+  const text = typeof query.q === 'string' ? query.q.trim() : '';
+  if (!text) {
+    throw createApiError(400, 'Missing query', 'q must be the text to search for');
+  }
+
+  const scope = (query.scope ?? 'collection') as SearchScope;
+  if (!SEARCH_SCOPES.includes(scope)) {
+    throw createApiError(400, 'Invalid scope', `scope must be one of: ${SEARCH_SCOPES.join(', ')}`);
+  }
+
+  const limit = query.limit === undefined ? DEFAULT_LIMIT : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw createApiError(400, 'Invalid limit', `limit must be a whole number from 1 to ${MAX_LIMIT}`);
+  }
+
+  return { text, scope, limit };
+}
+
+/**
+ * Split text into words the way the index tokenizer does: diacritics removed, lowercased, split on anything
+ * that isn't a letter or digit
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Optimal string alignment distance (edits, with swapped neighbours as one edit); stops counting past max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2]! + 1);
+      }
+      current.push(distance);
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Edits allowed when correcting a word: one from three letters (e.g. "aba" for "abba"), two from eight
+ * One- and two-letter words get none, since nearly everything is one edit away from them.
+ */
+function maxEdits(word: string): number {
+  return word.length >= 8 ? 2 : word.length >= 3 ? 1 : 0;
+}
+
+/**
+ * Work out which indexed words a query word matches
+ * A word that starts an indexed word matches as a prefix. Otherwise it's compared with every indexed word, and
+ * with the start of each (so a typo in a half-typed word still matches); the closest few are used.
+ */
+function matchWord(word: string): WordMatch {
+  if (selectTermWithPrefix.get({ prefix: word, end: `${word}\u{10FFFF}` })) {
+    return { word, prefix: true, terms: [word] };
+  }
+
+  const max = maxEdits(word);
+  if (max === 0) {
+    return { word, prefix: false, terms: [] };
+  }
+
+  const candidates = selectTermsFromLength.all({ minLength: word.length - max })
+    .map(({ term }) => ({
+      term,
+      distance: Math.min(editDistance(word, term, max), editDistance(word, term.slice(0, word.length), max)),
+    }))
+    .filter((candidate) => candidate.distance <= max)
+    .sort((a, b) => a.distance - b.distance || a.term.length - b.term.length);
+
+  return { word, prefix: false, terms: candidates.slice(0, MAX_CORRECTIONS).map((candidate) => candidate.term) };
+}
+
+/**
+ * Build an FTS5 match expression requiring every query word; null if some word matches nothing
+ */
+function buildMatch(text: string): { match: string; words: WordMatch[] } | null {
+  const words = Array.from(new Set(tokenize(text))).slice(0, MAX_QUERY_WORDS).map(matchWord);
+  if (words.length === 0 || words.some((word) => word.terms.length === 0)) {
+    return null;
+  }
+
+  const quote = (term: string) => `"${term.replace(/"/g, '""')}"`;
+  const match = words
+    .map((word) => word.prefix ? `${quote(word.word)}*` : `(${word.terms.map(quote).join(' OR ')})`)
+    .join(' AND ');
+  return { match, words };
+}
+
+/**
+ * How many query words occur in a piece of indexed text
+ */
+function countMatches(value: string, words: WordMatch[]): number {
+  const valueWords = tokenize(value);
+  return words.filter((word) => valueWords.some((valueWord) =>
+    word.prefix ? valueWord.startsWith(word.word) : word.terms.includes(valueWord)
+  )).length;
+}
+
+/**
+ * The field of a matching document most query words were found in
+ */
+function matchedField(row: MatchRow, words: WordMatch[]): SearchField {
+  const fields: [SearchField, string][] = [
+    [row.position === null ? 'title' : 'track', row.title],
+    ['artist', row.artists || row.release_artist],
+    ['catno', row.catnos],
+    ['label', row.labels],
+  ];
+
+  let best = fields[0]![0];
+  let bestCount = 0;
+  fields.forEach(([field, value]) => {
+    const count = countMatches(value, words);
+    if (count > bestCount) {
+      best = field;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/**
+ * Search the releases and tracks in a user's stored collection or wantlist, best matches first
+ * Only what the store holds is searched; tracks are indexed once their release's tracklist has been fetched.
+ */
+export function search(userId: number, query: SearchQuery): SearchResponse {
+  const built = buildMatch(query.text);
+  if (!built) {
+    return { query: query.text, corrections: [], results: [] };
+  }
+
+  const statement = query.scope === 'wantlist' ? selectWantlistMatches : selectCollectionMatches;
+  const rows = statement.all({ match: built.match, userId, limit: query.limit });
+
+  const results: SearchResult[] = [];
+  // Words in what was returned; the index is shared, so corrections are limited to these
+  const resultWords = new Set<string>();
+  rows.forEach((row) => {
+    // A track only matched through its release's artist adds nothing the release's own result doesn't
+    if (row.position !== null && countMatches(row.title, built.words) === 0) {
+      return;
+    }
+    const record = readRelease(row.release_id);
+    if (!record) {
+      return;
+    }
+    results.push({
+      record,
+      track: row.position === null ? undefined : { position: row.position, title: row.title },
+      field: matchedField(row, built.words),
+      // bm25 scores are negative, lower being better
+      score: -row.rank,
+    });
+    [row.title, row.artists, row.labels, row.catnos, row.release_artist].forEach((value) => {
+      tokenize(value || '').forEach((word) => resultWords.add(word));
+    });
+  });
+
+  const corrections = built.words
+    .filter((word) => !word.prefix)
+    .map((word) => ({ word: word.word, matches: word.terms.filter((term) => resultWords.has(term)) }))
+    .filter((correction) => correction.matches.length > 0);
+
+  return { query: query.text, corrections, results };
+}
+
+/**
+ * IDs of every stored release that matches a search, through its own fields or any of its tracks
+ */
+export function matchingReleaseIds(text: string): Set<number> {
+  const built = buildMatch(text);
+  if (!built) {
+    return new Set();
+  }
+  const rows = selectMatchingReleaseIds.all({ match: built.match });
+  return new Set(rows.map((row) => row.release_id));
+}
@@ -0,0 +1,269 @@
+// DJ sets: named, ordered lists of collection tracks, owned by a user
+// Sets store only track references; titles, durations, and BPM/key are resolved from the library store on read
+
+import { db } from './db';
+import { readRelease, readReleaseDetails, readCollectionTracks } from './libraryStore';
+import { readTrackBpm } from './bpmOverrides';
+import { isKeyCompatible } from './musicalKey';
+import { parseDuration } from './bpmMatcher';
+import type {
+  BpmInfo,
+  DjSet,
+  DjSetSummary,
+  SetEntry,
+  SetTrackRef,
+  SetTransition,
+  TrackSuggestion,
+} from '../client/src/types';
+
+// Tempo gap at which a suggestion's tempo score drops to zero
+const SUGGESTION_BPM_WINDOW = 16;
+const SUGGESTION_KEY_WEIGHT = 0.6;
+const SUGGESTION_TEMPO_WEIGHT = 0.4;
+
+// A dj_sets row with its number of tracks
+interface SetRow {
+  id: number;
+  user_id: number;
+  name: string;
+  track_count: number;
+  created_at: number;
+  updated_at: number;
+}
+
+const selectSets = db.query<SetRow, { userId: number }>(`
+  SELECT s.*, (SELECT COUNT(*) FROM dj_set_tracks t WHERE t.set_id = s.id) AS track_count
+  FROM dj_sets s
+  WHERE s.user_id = $userId
+  ORDER BY s.updated_at DESC
+`);
+const selectSet = db.query<SetRow, { id: number; userId: number }>(`
+  SELECT s.*, (SELECT COUNT(*) FROM dj_set_tracks t WHERE t.set_id = s.id) AS track_count
+  FROM dj_sets s
+  WHERE s.id = $id AND s.user_id = $userId
+`);
+const selectSetTracks = db.query<{ release_id: number; position: string }, { id: number }>(
+  'SELECT * FROM dj_set_tracks WHERE set_id = $id ORDER BY sort_order'
+);
+const insertSet = db.query('INSERT INTO dj_sets (user_id, name, created_at, updated_at) VALUES ($userId, $name, $now, $now)');
+const updateSetName = db.query('UPDATE dj_sets SET name = $name, updated_at = $now WHERE id = $id');
+const touchSet = db.query('UPDATE dj_sets SET updated_at = $now WHERE id = $id');
+const deleteSetRow = db.query('DELETE FROM dj_sets WHERE id = $id AND user_id = $userId');
+const deleteSetTracks = db.query('DELETE FROM dj_set_tracks WHERE set_id = $id');
+const insertSetTrack = db.query(`
+  INSERT INTO dj_set_tracks (set_id, sort_order, release_id, position)
+  VALUES ($id, $sortOrder, $releaseId, $position)
+`);
+
+/**
+ * Map a dj_sets row to its summary shape
+ */
+function toSummary(row: SetRow): DjSetSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    trackCount: row.track_count,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Resolve a track reference against the library store and the set owner's overrides
+ */
+function resolveEntry(userId: number, ref: SetTrackRef): SetEntry {
+  const record = readRelease(ref.releaseId);
+  const track = readReleaseDetails(ref.releaseId)?.value.tracks.find((t) => t.position === ref.position);
+
+  const entry: SetEntry = {
+    releaseId: ref.releaseId,
+    position: ref.position,
+    title: track?.title ?? ref.position,
+    artist: record?.artist ?? '',
+    recordTitle: record?.title ?? '',
+    coverImage: record?.coverImage ?? '',
+    duration: track?.duration,
+  };
+
+  if (record && track) {
+    entry.bpm = readTrackBpm(userId, ref.releaseId, ref.position, track.title, record.artist) ?? undefined;
+  }
+  return entry;
+}
+
+/**
+ * Tempo difference between two tracks, when both tempos are known
+ */
+function tempoDelta(from: BpmInfo | undefined, to: BpmInfo | undefined): number | undefined {
+  const fromTempo = Number(from?.tempo);
+  const toTempo = Number(to?.tempo);
+  if (!fromTempo || !toTempo) {
+    return undefined;
+  }
+  return Math.round((toTempo - fromTempo) * 10) / 10;
+}
+
+/**
+ * Whether two tracks' keys mix, when both keys are known
+ */
+function keysCompatible(from: BpmInfo | undefined, to: BpmInfo | undefined): boolean | undefined {
+  if (!from?.parsedKey || !to?.parsedKey) {
+    return undefined;
+  }
+  return isKeyCompatible(from.parsedKey, to.parsedKey);
+}
+
+/**
+ * Build the full set view: resolved entries, transitions, and runtime
+ */
+function buildSet(row: SetRow): DjSet {
+  const refs = selectSetTracks.all({ id: row.id }).map((trackRow) => ({
+    releaseId: trackRow.release_id,
+    position: trackRow.position,
+  }));
+  const entries = refs.map((ref) => resolveEntry(row.user_id, ref));
+
+  const transitions: SetTransition[] = entries.slice(1).map((entry, i) => ({
+    index: i,
+    bpmDelta: tempoDelta(entries[i]!.bpm, entry.bpm),
+    keyCompatible: keysCompatible(entries[i]!.bpm, entry.bpm),
+  }));
+
+  let totalDuration = 0;
+  let untimedTracks = 0;
+  for (const entry of entries) {
+    const seconds = parseDuration(entry.duration);
+    if (seconds === null) {
+      untimedTracks++;
+    } else {
+      totalDuration += seconds;
+    }
+  }
+
+  return {
+    ...toSummary(row),
+    entries,
+    transitions,
+    totalDuration,
+    untimedTracks,
+  };
+}
+
+/**
+ * Replace a set's track list
+ */
+function writeSetTracks(id: number, tracks: SetTrackRef[]): void {
+  deleteSetTracks.run({ id });
+  tracks.forEach((track, sortOrder) => {
+    insertSetTrack.run({ id, sortOrder, releaseId: track.releaseId, position: track.position });
+  });
+}
+
+/**
+ * List a user's sets, most recently changed first
+ */
+export function listSets(userId: number): DjSetSummary[] {
+  return selectSets.all({ userId }).map(toSummary);
+}
+
+/**
+ * Get one of a user's sets with its tracks resolved
+ */
+export function getSet(userId: number, id: number): DjSet | null {
+  const row = selectSet.get({ id, userId });
+  return row ? buildSet(row) : null;
+}
+
+/**
+ * Create a set for a user, optionally seeded with tracks
+ */
+export const createSet = db.transaction((userId: number, name: string, tracks: SetTrackRef[] = []): DjSet => {
+  const { lastInsertRowid } = insertSet.run({ userId, name, now: Date.now() });
+  const id = Number(lastInsertRowid);
+  writeSetTracks(id, tracks);
+  return getSet(userId, id)!;
+});
+
+/**
+ * Rename a set and/or replace its tracks (adding, removing, and reordering all send the full list)
+ * Returns null if the user has no such set
+ */
+export const updateSet = db.transaction((
+  userId: number,
+  id: number,
+  changes: { name?: string; tracks?: SetTrackRef[] }
+): DjSet | null => {
+  if (!selectSet.get({ id, userId })) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (changes.name !== undefined) {
+    updateSetName.run({ id, name: changes.name, now });
+  }
+  if (changes.tracks !== undefined) {
+    writeSetTracks(id, changes.tracks);
+    touchSet.run({ id, now });
+  }
+  return getSet(userId, id);
+});
+
+/**
+ * Delete one of a user's sets; returns false if there was none
+ */
+export function deleteSet(userId: number, id: number): boolean {
+  // Tracks go with it via ON DELETE CASCADE
+  return deleteSetRow.run({ id, userId }).changes > 0;
+}
+
+/**
+ * Suggest tracks from the collection to play after the set's last track
+ * Candidates need a known tempo or key; compatible keys and close tempos score highest.
+ */
+export function suggestNextTracks(userId: number, id: number, limit: number): TrackSuggestion[] | null {
+  const set = getSet(userId, id);
+  if (!set) {
+    return null;
+  }
+
+  const last = set.entries[set.entries.length - 1];
+  const inSet = new Set(set.entries.map((entry) => `${entry.releaseId}:${entry.position}`));
+  const suggestions: TrackSuggestion[] = [];
+
+  for (const { record, track } of readCollectionTracks(userId)) {
+    if (inSet.has(`${record.id}:${track.position}`)) {
+      continue;
+    }
+
+    const bpm = readTrackBpm(userId, record.id, track.position, track.title, record.artist);
+    if (!bpm || (!Number(bpm.tempo) && !bpm.parsedKey)) {
+      continue;
+    }
+
+    const bpmDelta = tempoDelta(last?.bpm, bpm);
+    const keyCompatible = keysCompatible(last?.bpm, bpm);
+
+    // With nothing to compare against (empty set or unknown values), fall back to neutral scores
+    const keyScore = keyCompatible === undefined ? 0.5 : keyCompatible ? 1 : 0;
+    const tempoScore = bpmDelta === undefined ? 0.5 : Math.max(0, 1 - Math.abs(bpmDelta) / SUGGESTION_BPM_WINDOW);
+    const score = SUGGESTION_KEY_WEIGHT * keyScore + SUGGESTION_TEMPO_WEIGHT * tempoScore;
+
+    suggestions.push({
+      releaseId: record.id,
+      position: track.position,
+      title: track.title,
+      artist: record.artist,
+      recordTitle: record.title,
+      coverImage: record.coverImage,
+      duration: track.duration,
+      bpm,
+      score: Math.round(score * 100) / 100,
+      bpmDelta,
+      keyCompatible: keyCompatible ?? false,
+    });
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
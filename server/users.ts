@@ -0,0 +1,387 @@
+// Local user accounts, login sessions, and each user's Discogs credentials
+// Session tokens are only stored hashed, so a leaked database can't be used to sign in. Discogs tokens have to
+// be sent to Discogs, so they're encrypted instead, with a key kept outside the database.
+// Discogs OAuth request tokens wait here between the authorize redirect and the callback
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { db, databasePath } from './db';
+import { createApiError } from './apiClient';
+import { logError, logInfo } from './logger';
+import type { DiscogsAuth } from './discogs';
+import type { Account } from '../client/src/types';
+
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const OAUTH_REQUEST_MAX_AGE_MS = 15 * 60 * 1000; // 15 minutes to approve on Discogs
+
+// Account that takes over the sets and BPM overrides saved before accounts existed; nobody unless configured
+const LEGACY_DATA_OWNER = process.env.LEGACY_DATA_OWNER?.trim() || null;
+// Accounts that may inspect and manage the request queue and rate limits, shared by every user
+const ADMIN_USERS = new Set((process.env.ADMIN_USERS || '')
+  .split(',')
+  .map((name) => name.trim().toLowerCase())
+  .filter(Boolean));
+
+// Marks an encrypted Discogs token; values without it were stored before tokens were encrypted
+const ENCRYPTED_TOKEN_PREFIX = 'enc:v1:';
+
+export interface User {
+  id: number;
+  username: string;
+  discogsUsername: string | null;
+  discogsToken: string | null;
+  // Set for OAuth access tokens; personal access tokens have no secret
+  discogsTokenSecret: string | null;
+  isAdmin: boolean;
+}
+
+export interface DiscogsCredentials {
+  username: string;
+  token: string;
+  tokenSecret?: string;
+}
+
+export interface Session {
+  token: string;
+  expiresAt: number;
+}
+
+const insertUser = db.query(`
+  INSERT INTO users (username, password_hash, discogs_username, discogs_token, created_at)
+  VALUES ($username, $passwordHash, $discogsUsername, $discogsToken, $createdAt)
+`);
+interface UserRow {
+  id: number;
+  username: string;
+  password_hash: string;
+  discogs_username: string | null;
+  discogs_token: string | null;
+  discogs_token_secret: string | null;
+  created_at: number;
+}
+
+const selectUserById = db.query<UserRow, { id: number }>('SELECT * FROM users WHERE id = $id');
+const selectUserByName = db.query<UserRow, { username: string }>('SELECT * FROM users WHERE username = $username');
+const updateDiscogs = db.query(`
+  UPDATE users
+  SET discogs_username = $discogsUsername, discogs_token = $discogsToken, discogs_token_secret = $discogsTokenSecret
+  WHERE id = $id
+`);
+const selectPlaintextTokens = db.query<Pick<UserRow, 'id' | 'discogs_token' | 'discogs_token_secret'>, []>(`
+  SELECT id, discogs_token, discogs_token_secret FROM users
+  WHERE discogs_token IS NOT NULL AND discogs_token NOT LIKE '${ENCRYPTED_TOKEN_PREFIX}%'
+`);
+const updateTokens = db.query(`
+  UPDATE users SET discogs_token = $discogsToken, discogs_token_secret = $discogsTokenSecret WHERE id = $id
+`);
+const claimSets = db.query('UPDATE dj_sets SET user_id = $userId WHERE user_id = 0');
+const claimOverrides = db.query('UPDATE bpm_overrides SET user_id = $userId WHERE user_id = 0');
+const countLegacySets = db.query<{ count: number }, []>('SELECT COUNT(*) AS count FROM dj_sets WHERE user_id = 0');
+const countLegacyOverrides = db.query<{ count: number }, []>('SELECT COUNT(*) AS count FROM bpm_overrides WHERE user_id = 0');
+
+const insertSession = db.query(`
+  INSERT INTO sessions (token_hash, user_id, created_at, expires_at) VALUES ($tokenHash, $userId, $createdAt, $expiresAt)
+`);
+const selectSessionUser = db.query<UserRow, { tokenHash: string; now: number }>(`
+  SELECT u.*
+  FROM sessions s
+  JOIN users u ON u.id = s.user_id
+  WHERE s.token_hash = $tokenHash AND s.expires_at > $now
+`);
+const deleteSessionRow = db.query('DELETE FROM sessions WHERE token_hash = $tokenHash');
+const deleteExpiredSessions = db.query('DELETE FROM sessions WHERE expires_at <= $now');
+
+const insertOAuthRequest = db.query(`
+  INSERT INTO oauth_requests (token, token_secret, user_id, created_at) VALUES ($token, $tokenSecret, $userId, $createdAt)
+`);
+const selectOAuthRequest = db.query<{ token_secret: string; user_id: number }, { token: string; since: number }>(`
+  SELECT token_secret, user_id FROM oauth_requests WHERE token = $token AND created_at > $since
+`);
+const deleteOAuthRequest = db.query('DELETE FROM oauth_requests WHERE token = $token');
+const deleteExpiredOAuthRequests = db.query('DELETE FROM oauth_requests WHERE created_at <= $since');
+
+/**
+ * The key Discogs tokens are encrypted with: TOKEN_ENCRYPTION_KEY, or else one generated into a file beside the database
+ * The file only protects copies of the database made without it, such as backups of the database alone.
+ */
+function loadTokenKey(): Buffer {
+  const configured = process.env.TOKEN_ENCRYPTION_KEY?.trim();
+  if (configured) {
+    return createHash('sha256').update(configured).digest();
+  }
+  if (databasePath === ':memory:') {
+    return randomBytes(32);
+  }
+
+  const keyPath = join(dirname(databasePath), 'token-encryption.key');
+  try {
+    return Buffer.from(readFileSync(keyPath, 'utf8').trim(), 'base64');
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+  const key = randomBytes(32);
+  writeFileSync(keyPath, key.toString('base64'), { mode: 0o600, flag: 'wx' });
+  logError('warn', 'TOKEN_ENCRYPTION_KEY is not set; Discogs tokens are encrypted with a key generated beside the database', {
+    keyPath,
+  });
+  return key;
+}
+
+const tokenKey = loadTokenKey();
+
+/**
+ * Encrypt a Discogs token or secret for storage (AES-256-GCM)
+ */
+function encryptToken(token: string | null): string | null {
+  if (token === null) {
+    return null;
+  }
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', tokenKey, iv);
+  const encrypted = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  return ENCRYPTED_TOKEN_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+}
+
+/**
+ * Decrypt a stored Discogs token or secret; null if it can't be, e.g. after the key changed
+ */
+function decryptToken(stored: string | null, userId: number): string | null {
+  if (stored === null || !stored.startsWith(ENCRYPTED_TOKEN_PREFIX)) {
+    return stored;
+  }
+  try {
+    const data = Buffer.from(stored.slice(ENCRYPTED_TOKEN_PREFIX.length), 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', tokenKey, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+  } catch (error) {
+    logError('error', 'Stored Discogs token can\'t be decrypted; the user has to reconnect Discogs', { userId }, error);
+    return null;
+  }
+}
+
+/**
+ * Encrypt Discogs tokens stored before tokens were encrypted
+ */
+function encryptPlaintextTokens() {
+  const rows = selectPlaintextTokens.all();
+  for (const row of rows) {
+    updateTokens.run({
+      id: row.id,
+      discogsToken: encryptToken(row.discogs_token),
+      discogsTokenSecret: encryptToken(row.discogs_token_secret),
+    });
+  }
+  if (rows.length > 0) {
+    logInfo('Encrypted Discogs tokens stored before tokens were encrypted', { users: rows.length });
+  }
+}
+
+encryptPlaintextTokens();
+
+/**
+ * Map a users row to a user
+ */
+function toUser(row: UserRow): User {
+  const discogsToken = decryptToken(row.discogs_token, row.id);
+  return {
+    id: row.id,
+    username: row.username,
+    discogsUsername: row.discogs_username ?? null,
+    discogsToken,
+    // A secret without its token is no use
+    discogsTokenSecret: discogsToken === null ? null : decryptToken(row.discogs_token_secret, row.id),
+    isAdmin: ADMIN_USERS.has(row.username.toLowerCase()),
+  };
+}
+
+/**
+ * The account as shown to its owner, without the Discogs token
+ */
+export function toAccount(user: User): Account {
+  return {
+    id: user.id,
+    username: user.username,
+    discogsUsername: user.discogsUsername,
+    discogsConnected: !!(user.discogsUsername && user.discogsToken),
+    isAdmin: user.isAdmin,
+  };
+}
+
+/**
+ * Hash a session token for storage and lookup
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Look up a user by id
+ */
+export function getUser(id: number): User | null {
+  const row = selectUserById.get({ id });
+  return row ? toUser(row) : null;
+}
+
+/**
+ * A user's Discogs credentials, tagged with their account; null if they haven't connected Discogs
+ */
+export function discogsAuthFor(user: User): DiscogsAuth | null {
+  if (!user.discogsToken) {
+    return null;
+  }
+  return { token: user.discogsToken, tokenSecret: user.discogsTokenSecret ?? undefined, userId: user.id };
+}
+
+/**
+ * Give the sets and BPM overrides saved before accounts existed (user 0) to an account
+ */
+const claimLegacyData = db.transaction((userId: number) => {
+  const sets = claimSets.run({ userId }).changes;
+  const overrides = claimOverrides.run({ userId }).changes;
+  if (sets > 0 || overrides > 0) {
+    logInfo('Claimed sets and BPM overrides saved before accounts existed', { userId, sets, overrides });
+  }
+});
+
+/**
+ * Hand data saved before accounts existed to LEGACY_DATA_OWNER once that account exists
+ * Without it the data stays unclaimed, and a warning says how to claim it.
+ */
+function claimLegacyDataOnStartup() {
+  if (LEGACY_DATA_OWNER) {
+    const row = selectUserByName.get({ username: LEGACY_DATA_OWNER });
+    if (row) {
+      claimLegacyData(row.id);
+    }
+    return;
+  }
+
+  const sets = countLegacySets.get()!.count;
+  const overrides = countLegacyOverrides.get()!.count;
+  if (sets > 0 || overrides > 0) {
+    logError('warn', 'Sets and BPM overrides saved before accounts existed are unclaimed; set LEGACY_DATA_OWNER to an account to give them to it', {
+      sets,
+      overrides,
+    });
+  }
+}
+
+claimLegacyDataOnStartup();
+
+const createUserRow = db.transaction((username: string, passwordHash: string, discogsUsername: string | null, discogsToken: string | null) => {
+  const { lastInsertRowid } = insertUser.run({
+    username,
+    passwordHash,
+    discogsUsername,
+    discogsToken: encryptToken(discogsToken),
+    createdAt: Date.now(),
+  });
+  const userId = Number(lastInsertRowid);
+
+  if (LEGACY_DATA_OWNER && username.toLowerCase() === LEGACY_DATA_OWNER.toLowerCase()) {
+    claimLegacyData(userId);
+  }
+  return userId;
+});
+
+/**
+ * Create an account; throws a 409 ApiError if the username is taken
+ */
+export async function createUser(
+  username: string,
+  password: string,
+  discogs: { username: string; token: string } | null = null
+): Promise<User> {
+  const taken = () => createApiError(409, 'Username taken', `An account named "${username}" already exists`);
+  // Checked up front to skip hashing; the unique index still decides between concurrent registrations
+  if (selectUserByName.get({ username })) {
+    throw taken();
+  }
+
+  const passwordHash = await Bun.password.hash(password);
+  let userId: number;
+  try {
+    userId = createUserRow(username, passwordHash, discogs?.username ?? null, discogs?.token ?? null);
+  } catch (error) {
+    if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') {
+      throw taken();
+    }
+    throw error;
+  }
+  return getUser(userId)!;
+}
+
+/**
+ * Check a username and password; returns the user if they match
+ */
+export async function verifyCredentials(username: string, password: string): Promise<User | null> {
+  const row = selectUserByName.get({ username });
+  if (!row) {
+    return null;
+  }
+  return (await Bun.password.verify(password, row.password_hash)) ? toUser(row) : null;
+}
+
+/**
+ * Store (or clear, with null) a user's Discogs username and token
+ */
+export function setDiscogsCredentials(userId: number, discogs: DiscogsCredentials | null): User | null {
+  updateDiscogs.run({
+    id: userId,
+    discogsUsername: discogs?.username ?? null,
+    discogsToken: encryptToken(discogs?.token ?? null),
+    discogsTokenSecret: encryptToken(discogs?.tokenSecret ?? null),
+  });
+  return getUser(userId);
+}
+
+/**
+ * Remember a Discogs request token's secret until the user comes back from authorizing it
+ */
+export function saveOAuthRequest(userId: number, token: string, tokenSecret: string): void {
+  const now = Date.now();
+  deleteExpiredOAuthRequests.run({ since: now - OAUTH_REQUEST_MAX_AGE_MS });
+  insertOAuthRequest.run({ token, tokenSecret, userId, createdAt: now });
+}
+
+/**
+ * Claim a request token's secret and the user who started it; it can only be used once
+ * The callback finds the user this way, since the browser Discogs sends back may not carry the session cookie.
+ */
+export function takeOAuthRequest(token: string): { userId: number; tokenSecret: string } | null {
+  const row = selectOAuthRequest.get({ token, since: Date.now() - OAUTH_REQUEST_MAX_AGE_MS });
+  deleteOAuthRequest.run({ token });
+  return row ? { userId: row.user_id, tokenSecret: row.token_secret } : null;
+}
+
+/**
+ * Start a session for a user
+ */
+export function createSession(userId: number): Session {
+  const now = Date.now();
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = now + SESSION_MAX_AGE_MS;
+
+  deleteExpiredSessions.run({ now });
+  insertSession.run({ tokenHash: hashToken(token), userId, createdAt: now, expiresAt });
+  return { token, expiresAt };
+}
+
+/**
+ * Resolve a session token to its user; null if unknown or expired
+ */
+export function getSessionUser(token: string): User | null {
+  const row = selectSessionUser.get({ tokenHash: hashToken(token), now: Date.now() });
+  return row ? toUser(row) : null;
+}
+
+/**
+ * End a session
+ */
+export function deleteSession(token: string): void {
+  deleteSessionRow.run({ tokenHash: hashToken(token) });
+}